@@ -0,0 +1,122 @@
+import type { Moment } from 'moment';
+import { DateFallback } from '../DateFallback';
+import { compareByDate } from '../lib/DateTools';
+import { Recurrence } from '../Recurrence';
+import { Status } from '../Status';
+import { StatusType } from '../StatusConfiguration';
+import { StatusRegistry } from '../StatusRegistry';
+import { PriorityUtils, Task } from '../Task';
+import type { TaskExternal } from './TaskExternal';
+
+/**
+ * The changes that other plugins can make to a task with {@link TasksApiV1.updateTask}.
+ *
+ * Fields that are not given are left unchanged. Set a date to null to remove it.
+ */
+export interface TaskChangesExternal {
+    statusSymbol?: string;
+    description?: string;
+    priority?: number; // 1 is high, 2 is medium, 3 is none and 4 is low.
+    startDate?: Moment | null;
+    scheduledDate?: Moment | null;
+    dueDate?: Moment | null;
+    startTime?: string | null; // the time of day of the start date, as HH:mm, or null for none.
+    scheduledTime?: string | null; // the time of day of the scheduled date, as HH:mm, or null for none.
+    dueTime?: string | null; // the time of day of the due date, as HH:mm, or null for none.
+    doneDate?: Moment | null;
+    createdDate?: Moment | null;
+    cancelledDate?: Moment | null;
+    estimatedTimeToComplete?: number | null;
+    timeSpent?: number | null;
+    id?: string;
+    dependsOn?: string[];
+}
+
+/**
+ * Find the task in the given list that a {@link TaskExternal} was created from,
+ * matching by its location and its original markdown.
+ *
+ * Returns undefined if the task's line has been edited since the {@link TaskExternal} was created.
+ */
+export function findTaskForTaskExternal(tasks: Task[], task: TaskExternal): Task | undefined {
+    return tasks.find(
+        (candidate) =>
+            candidate.path === task.uid.path &&
+            candidate.sectionStart === task.uid.sectionIndex &&
+            candidate.sectionIndex === task.uid.taskIndex &&
+            candidate.originalMarkdown === task.originalMarkdown,
+    );
+}
+
+/**
+ * Return a copy of the task with the given changes applied.
+ */
+export function applyTaskChanges(task: Task, changes: TaskChangesExternal): Task {
+    const { statusSymbol, priority, ...otherChanges } = changes;
+    return new Task({
+        ...task,
+        ...otherChanges,
+        status: statusSymbol !== undefined ? StatusRegistry.getInstance().bySymbolOrCreate(statusSymbol) : task.status,
+        priority: priority !== undefined ? PriorityUtils.fromNumber(priority) : task.priority,
+    });
+}
+
+/**
+ * Build a task from the field values of a {@link TaskExternal}, including any that another plugin has changed,
+ * at the location of the task it was created from.
+ * The original markdown is only read for what {@link TaskExternal} does not have, such as the indentation and block link.
+ *
+ * This is what the deprecated `taskFromTaskExternal()` on the plugin has always done,
+ * so plugins that edit a {@link TaskExternal} and write it back keep working.
+ *
+ * Returns null if the original markdown is not a task.
+ */
+export function taskFromTaskExternal(taskExternal: TaskExternal): Task | null {
+    const { path, sectionIndex: sectionStart, taskIndex: sectionIndex } = taskExternal.uid;
+    const task = Task.fromLine({
+        line: taskExternal.originalMarkdown,
+        path,
+        sectionStart,
+        sectionIndex,
+        precedingHeader: taskExternal.precedingHeader,
+        fallbackDate: DateFallback.fromPath(path),
+    });
+    if (task === null) {
+        return null;
+    }
+
+    // Plugins written before status was added mark tasks done or not done with isDone.
+    const { status, isDone, startDate, scheduledDate, dueDate, recurrenceRule } = taskExternal;
+    let statusSymbol = status.symbol;
+    if (isDone !== (status.type === StatusType.DONE)) {
+        statusSymbol = isDone ? Status.DONE.symbol : Status.TODO.symbol;
+    }
+
+    return new Task({
+        ...applyTaskChanges(task, {
+            statusSymbol,
+            description: taskExternal.description,
+            priority: taskExternal.priority,
+            startDate,
+            scheduledDate,
+            dueDate,
+            startTime: taskExternal.startTime,
+            scheduledTime: taskExternal.scheduledTime,
+            dueTime: taskExternal.dueTime,
+            doneDate: taskExternal.doneDate,
+            createdDate: taskExternal.createdDate,
+            cancelledDate: taskExternal.cancelledDate,
+            estimatedTimeToComplete: taskExternal.estimatedTimeToComplete,
+            timeSpent: taskExternal.timeSpent,
+            id: taskExternal.id,
+            dependsOn: taskExternal.dependsOn,
+        }),
+        tags: taskExternal.tags,
+        timerStarted: taskExternal.timerStarted,
+        recurrence:
+            recurrenceRule === null
+                ? null
+                : Recurrence.fromText({ recurrenceRuleText: recurrenceRule, startDate, scheduledDate, dueDate }),
+        scheduledDateIsInferred: task.scheduledDateIsInferred && compareByDate(scheduledDate, task.scheduledDate) === 0,
+    });
+}
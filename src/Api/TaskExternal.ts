@@ -0,0 +1,177 @@
+import type { Moment } from 'moment';
+import type { RRule } from 'rrule';
+import { PriorityUtils } from '../Task';
+import type { Task } from '../Task';
+import type { StatusType } from '../StatusConfiguration';
+import type { TaskGroup } from '../Query/TaskGroup';
+import type { TaskGroups } from '../Query/TaskGroups';
+import type { TaskEvent, TaskEventType } from '../TaskDiff';
+
+/**
+ * The location of a task, as used by {@link TasksApiV1} to find the task again when writing it.
+ */
+export class TaskUID {
+    public readonly path: string; // file path
+    public readonly sectionIndex: number; // the line number where the section containing the task starts
+    public readonly taskIndex: number; // which task index in the section
+
+    constructor(path: string, sectionIndex: number, taskIndex: number) {
+        this.path = path;
+        this.sectionIndex = sectionIndex;
+        this.taskIndex = taskIndex;
+    }
+
+    public static fromTask(task: Task): TaskUID {
+        return new TaskUID(task.path, task.sectionStart, task.sectionIndex);
+    }
+}
+
+/**
+ * The status of a task, as seen by other plugins.
+ */
+export class StatusExternal {
+    public readonly symbol: string; // the character between the square brackets, such as 'x'.
+    public readonly name: string; // the user-visible name, such as 'Done'.
+    public readonly type: StatusType; // TODO, DONE, IN_PROGRESS, CANCELLED, NON_TASK or EMPTY.
+    public readonly nextStatusSymbol: string; // the symbol of the status that toggling moves to.
+
+    constructor(task: Task) {
+        this.symbol = task.status.symbol;
+        this.name = task.status.name;
+        this.type = task.status.type;
+        this.nextStatusSymbol = task.status.nextStatusSymbol;
+    }
+}
+
+/**
+ * A read-only snapshot of a task, for other plugins.
+ *
+ * The fields of this class are part of the versioned API: fields may be added, but will not be
+ * removed or change meaning within a version.
+ */
+export class TaskExternal {
+    public readonly isDone: boolean; // Deprecated: use status.type instead.
+    public readonly status: StatusExternal;
+    public readonly priority: number; // 1 is the highest priority, any larger number is a lower priority.
+
+    public readonly tags: string[]; // a list of ASCII tags, distilled from the description.
+    public readonly originalMarkdown: string; // the original markdown task.
+    public readonly description: string; // the description of the task.
+    public readonly precedingHeader: string | null; // the heading before the task, if any.
+    public readonly estimatedTimeToComplete: number | null | undefined; // the estimated time to complete the task in minutes
+    public readonly timeSpent: number | null; // the time recorded as spent on the task in minutes, or null if none.
+    public readonly timerStarted: Moment | null; // when the running timer was started, or null if no timer is running.
+
+    public readonly startDate: Moment | null;
+    public readonly scheduledDate: Moment | null;
+    public readonly dueDate: Moment | null;
+    public readonly startTime: string | null; // the time of day of the start date, as HH:mm, or null if none.
+    public readonly scheduledTime: string | null; // the time of day of the scheduled date, as HH:mm, or null if none.
+    public readonly dueTime: string | null; // the time of day of the due date, as HH:mm, or null if none.
+    public readonly doneDate: Moment | null;
+    public readonly createdDate: Moment | null;
+    public readonly cancelledDate: Moment | null;
+
+    public readonly uid: TaskUID;
+
+    public readonly id: string; // the task's own id, or '' if it has none.
+    public readonly dependsOn: string[]; // the ids of the tasks that this task depends on.
+
+    public readonly recurrenceRule: string | null; // the recurrence rule as text, such as 'every week'.
+    public readonly recurrenceRrule: RRule | null; // RRule as per the lib.
+
+    /// The date after which the recurrence rule applies, may be
+    ///  null if the RRule itself has a ref date,
+    ///  ex) "every Monday".
+    public readonly recurrenceReferenceDate: Moment | null;
+
+    constructor(task: Task) {
+        this.status = new StatusExternal(task);
+        this.isDone = task.status.isCompleted();
+        this.priority = PriorityUtils.toNumber(task.priority);
+        this.tags = task.tags;
+        this.originalMarkdown = task.originalMarkdown;
+        this.description = task.description;
+        this.precedingHeader = task.precedingHeader;
+        this.estimatedTimeToComplete = task.estimatedTimeToComplete;
+        this.timeSpent = task.timeSpent;
+        this.timerStarted = task.timerStarted;
+        this.startDate = task.startDate;
+        this.scheduledDate = task.scheduledDate;
+        this.dueDate = task.dueDate;
+        this.startTime = task.startTime;
+        this.scheduledTime = task.scheduledTime;
+        this.dueTime = task.dueTime;
+        this.doneDate = task.doneDate;
+        this.createdDate = task.createdDate;
+        this.cancelledDate = task.cancelledDate;
+        this.uid = TaskUID.fromTask(task);
+        this.id = task.id;
+        this.dependsOn = task.dependsOn;
+        this.recurrenceRule = task.recurrence ? task.recurrence.toText() : null;
+        this.recurrenceRrule = task.recurrence ? task.recurrence.rrule : null;
+        this.recurrenceReferenceDate = task.recurrence ? task.recurrence.referenceDate : null;
+    }
+}
+
+/**
+ * A heading shown before a group of tasks, as seen by other plugins.
+ */
+export interface GroupHeadingExternal {
+    readonly nestingLevel: number; // 0 for the first 'group by' instruction, 1 for the second, and so on.
+    readonly name: string;
+}
+
+/**
+ * One group of tasks in the results of a query, as seen by other plugins.
+ */
+export class TaskGroupExternal {
+    public readonly groupNames: string[]; // the names of all the groups this group is in, one per 'group by' line.
+    public readonly headings: GroupHeadingExternal[]; // the headings to show before this group, if any.
+    public readonly tasks: TaskExternal[];
+
+    constructor(taskGroup: TaskGroup) {
+        this.groupNames = taskGroup.groups;
+        this.headings = taskGroup.groupHeadings.map(({ nestingLevel, name }) => ({ nestingLevel, name }));
+        this.tasks = taskGroup.tasks.map((task) => new TaskExternal(task));
+    }
+}
+
+/**
+ * The results of a query, as seen by other plugins.
+ *
+ * If the query has no 'group by' instructions, there is a single group, with no headings.
+ */
+export class QueryResultExternal {
+    public readonly groups: TaskGroupExternal[];
+    public readonly totalTasksCount: number;
+
+    constructor(taskGroups: TaskGroups) {
+        this.groups = taskGroups.groups.map((group) => new TaskGroupExternal(group));
+        this.totalTasksCount = taskGroups.totalTasksCount();
+    }
+
+    /**
+     * All the tasks in the results, in the order they are displayed, ignoring groups.
+     *
+     * A task that is in more than one group is included once for each group.
+     */
+    public allTasks(): TaskExternal[] {
+        return this.groups.flatMap((group) => group.tasks);
+    }
+}
+
+/**
+ * A change to one task, as seen by other plugins. See {@link TasksApiV1.on}.
+ */
+export class TaskEventExternal {
+    public readonly type: TaskEventType; // 'task-created', 'task-deleted', 'task-status-changed' or 'task-completed'.
+    public readonly task: TaskExternal; // the task as it is now, or as it was before it was deleted.
+    public readonly previousTask: TaskExternal | null; // the task before its status changed, or null if created or deleted.
+
+    constructor(taskEvent: TaskEvent) {
+        this.type = taskEvent.type;
+        this.task = new TaskExternal(taskEvent.task);
+        this.previousTask = taskEvent.previousTask === null ? null : new TaskExternal(taskEvent.previousTask);
+    }
+}
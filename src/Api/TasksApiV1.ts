@@ -0,0 +1,216 @@
+import type { App } from 'obsidian';
+import { State } from '../Cache';
+import { DateFallback } from '../DateFallback';
+import { replaceTaskWithTasks, replaceTasksWithTasks } from '../File';
+import { CompletionPropagation } from '../CompletionPropagation';
+import { Query } from '../Query/Query';
+import type { Task } from '../Task';
+import type { TaskEventType } from '../TaskDiff';
+import { TaskModal } from '../TaskModal';
+import type { TasksEvents } from '../TasksEvents';
+import { QueryResultExternal, TaskEventExternal } from './TaskExternal';
+import type { TaskExternal } from './TaskExternal';
+import { applyTaskChanges, findTaskForTaskExternal } from './TaskChanges';
+import type { TaskChangesExternal } from './TaskChanges';
+
+/**
+ * Version 1 of the API that Tasks offers to other plugins, available as `app.plugins.plugins['obsidian-tasks-plugin'].apiV1`.
+ *
+ * Within a version, methods and the fields of the types they use may be added,
+ * but are not removed and do not change meaning.
+ *
+ * Tasks are passed to and from other plugins as {@link TaskExternal} snapshots, rather than the plugin's
+ * internal {@link Task} objects, so that internal refactorings do not break other plugins.
+ */
+export class TasksApiV1 {
+    public readonly version = 1;
+
+    private readonly app: App;
+    private readonly events: TasksEvents;
+
+    constructor({ app, events }: { app: App; events: TasksEvents }) {
+        this.app = app;
+        this.events = events;
+    }
+
+    /**
+     * Run a query, in the same language as ```tasks``` blocks, on all the tasks in the vault.
+     *
+     * If the vault is still being read, this waits until it has been read completely.
+     *
+     * @param source - the query, with instructions separated by newlines.
+     * @return The grouped results of the query. Rejects with an Error if the query is not valid.
+     */
+    public query(source: string): Promise<QueryResultExternal> {
+        return new Promise((resolve, reject) => {
+            const query = new Query({ source });
+            if (query.error !== undefined) {
+                reject(new Error(query.error));
+                return;
+            }
+
+            // The handler may be called before onWarmCache() returns, if the vault has already been read.
+            let resolved = false;
+            let unsubscribe: (() => void) | undefined = undefined;
+            unsubscribe = this.onWarmCache((tasks) => {
+                if (!resolved) {
+                    resolved = true;
+                    resolve(new QueryResultExternal(query.applyQueryToTasks(tasks)));
+                    unsubscribe?.();
+                }
+            });
+            if (resolved) {
+                unsubscribe();
+            }
+        });
+    }
+
+    /**
+     * Run a query now, and again every time any task in the vault changes, until unsubscribed.
+     *
+     * Relative dates in the query, such as 'due today', are interpreted when this method is called.
+     *
+     * @param source - the query, with instructions separated by newlines.
+     * @param callback - called with the grouped results of the query, once the vault has been read.
+     * @return A function to call to stop receiving updates.
+     * @throws Error if the query is not valid.
+     */
+    public subscribe(source: string, callback: (result: QueryResultExternal) => void): () => void {
+        const query = new Query({ source });
+        if (query.error !== undefined) {
+            throw new Error(query.error);
+        }
+
+        return this.onWarmCache((tasks) => {
+            callback(new QueryResultExternal(query.applyQueryToTasks(tasks)));
+        });
+    }
+
+    /**
+     * Call a function every time a task changes in a particular way, until unsubscribed:
+     *
+     * - 'task-created' and 'task-deleted' when a task is added to or removed from a note,
+     * - 'task-status-changed' when a task's status changes, however it was changed,
+     * - 'task-completed' when a task changes from a status that is not DONE to one that is, after 'task-status-changed'.
+     *
+     * Changes are found by comparing the tasks in a note before and after it changes,
+     * so only changes made once the vault has been read are reported.
+     *
+     * @param type - the kind of change.
+     * @param handler - called with the task before and after the change.
+     * @return A function to call to stop receiving changes.
+     */
+    public on(type: TaskEventType, handler: (taskEvent: TaskEventExternal) => void): () => void {
+        const eventRef = this.events.onTaskEvent(type, (taskEvent) => {
+            handler(new TaskEventExternal(taskEvent));
+        });
+        return () => this.events.off(eventRef);
+    }
+
+    /**
+     * Change some fields of a task, and write it back to its file.
+     *
+     * @param task - a task returned by {@link query} or {@link subscribe}.
+     * @param changes - the fields to change.
+     * @return Rejects with an Error if the task has changed in the vault since it was read.
+     */
+    public async updateTask(task: TaskExternal, changes: TaskChangesExternal): Promise<void> {
+        const originalTask = this.findTask(task);
+        const updatedTask = applyTaskChanges(originalTask, changes);
+        const written = await replaceTaskWithTasks({
+            originalTask,
+            newTasks: DateFallback.removeInferredStatusIfNeeded(originalTask, [updatedTask]),
+        });
+        if (!written) {
+            throw TasksApiV1.taskChangedError(task);
+        }
+    }
+
+    /**
+     * Toggle a task to its next status, exactly as clicking its checkbox does,
+     * including creating the next occurrence of a recurring task, and completing
+     * its open subtasks if that is enabled in settings.
+     *
+     * @param task - a task returned by {@link query} or {@link subscribe}.
+     * @return Rejects with an Error if the task has changed in the vault since it was read.
+     */
+    public async toggleTask(task: TaskExternal): Promise<void> {
+        const originalTask = this.findTask(task);
+        if (!(await replaceTasksWithTasks(CompletionPropagation.toggle(originalTask)))) {
+            throw TasksApiV1.taskChangedError(task);
+        }
+    }
+
+    /**
+     * Open the 'Create or edit Task' modal on a task, and write the result back to its file.
+     *
+     * @param task - a task returned by {@link query} or {@link subscribe}.
+     * @return Resolves when the user applies the changes. Rejects with an Error if the task has changed
+     *         in the vault since it was read.
+     */
+    public editTaskWithModal(task: TaskExternal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const originalTask = this.findTask(task);
+            const onSubmit = (updatedTasks: Task[]): void => {
+                replaceTaskWithTasks({
+                    originalTask,
+                    newTasks: DateFallback.removeInferredStatusIfNeeded(originalTask, updatedTasks),
+                }).then((written) => (written ? resolve() : reject(TasksApiV1.taskChangedError(task))), reject);
+            };
+            const taskModal = new TaskModal({
+                app: this.app,
+                task: originalTask,
+                allTasks: this.currentTasks(),
+                onSubmit,
+            });
+            taskModal.open();
+        });
+    }
+
+    /**
+     * Find the cached task that a {@link TaskExternal} was created from.
+     *
+     * @throws Error if there is no such task, for example because its line has been edited since it was read.
+     */
+    public findTask(task: TaskExternal): Task {
+        const found = findTaskForTaskExternal(this.currentTasks(), task);
+        if (found === undefined) {
+            throw TasksApiV1.taskChangedError(task);
+        }
+        return found;
+    }
+
+    private static taskChangedError(task: TaskExternal): Error {
+        return new Error(`Tasks API: task has changed since it was read, in '${task.uid.path}': ${task.description}`);
+    }
+
+    private currentTasks(): Task[] {
+        let currentTasks: Task[] = [];
+        this.events.triggerRequestCacheUpdate(({ tasks }) => {
+            currentTasks = tasks;
+        });
+        return currentTasks;
+    }
+
+    /**
+     * Call the handler with all the tasks in the vault now, if it has been read,
+     * and again whenever the tasks change.
+     *
+     * @return A function to call to stop calling the handler.
+     */
+    private onWarmCache(handler: (tasks: Task[]) => void): () => void {
+        const eventRef = this.events.onCacheUpdate(({ tasks, state }) => {
+            if (state === State.Warm) {
+                handler(tasks);
+            }
+        });
+        const unsubscribe = () => this.events.off(eventRef);
+
+        this.events.triggerRequestCacheUpdate(({ tasks, state }) => {
+            if (state === State.Warm) {
+                handler(tasks);
+            }
+        });
+        return unsubscribe;
+    }
+}
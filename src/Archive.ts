@@ -0,0 +1,155 @@
+import { TFile } from 'obsidian';
+import type { Vault } from 'obsidian';
+import type { Moment } from 'moment';
+import { getSettings } from './Config/Settings';
+import { replaceTasksInEachFile } from './File';
+import { TaskRegularExpressions } from './Task';
+import type { Task } from './Task';
+
+/**
+ * Move completed tasks out of the notes they are in, to the archive note set in settings,
+ * by the 'Archive completed tasks' command, or automatically if enabled in settings.
+ */
+export class Archive {
+    /**
+     * The least time between automatic archives, as they are triggered by every change to the vault.
+     */
+    public static readonly automaticIntervalMinutes = 60;
+
+    /**
+     * Move the tasks that are ready to be archived to the archive note, under a heading with today's date.
+     *
+     * The tasks are added to the archive note before they are removed from their own notes,
+     * so that they are never lost if either write fails.
+     * Tasks that could not be removed, as their notes have changed since they were read,
+     * are then taken out of the archive note again, so that they are only in one place.
+     * If that leaves nothing in an archive note created for them, the note is deleted.
+     *
+     * @returns The number of tasks archived.
+     */
+    public static async archive(vault: Vault, tasks: Task[]): Promise<number> {
+        const tasksToArchive = Archive.tasksToArchive(tasks);
+        if (tasksToArchive.length === 0) {
+            return 0;
+        }
+
+        const path = Archive.path();
+        const heading = Archive.heading(window.moment());
+        const existingFile = vault.getAbstractFileByPath(path);
+        const content = existingFile instanceof TFile ? await vault.read(existingFile) : '';
+        const lines = tasksToArchive.map((task) => Archive.archivedLine(task));
+        await Archive.writeArchive(vault, path, Archive.addToArchive(content, heading, lines));
+
+        const removals = await replaceTasksInEachFile(
+            tasksToArchive.map((task) => ({ originalTask: task, newTasks: [] })),
+        );
+        const archivedTasks = removals.map(({ originalTask }) => originalTask);
+        const unarchivedTasks = tasksToArchive.filter((task) => !archivedTasks.includes(task));
+        if (unarchivedTasks.length > 0) {
+            // Read the note again, to keep any changes made to it since it was written.
+            const file = vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                const unarchivedLines = unarchivedTasks.map((task) => Archive.archivedLine(task));
+                const newContent = Archive.removeFromArchive(await vault.read(file), heading, unarchivedLines);
+                if (newContent === '' && !(existingFile instanceof TFile)) {
+                    await vault.delete(file);
+                } else {
+                    await vault.modify(file, newContent);
+                }
+            }
+        }
+        return archivedTasks.length;
+    }
+
+    /**
+     * The tasks that are completed, and were done more days ago than set in settings.
+     *
+     * Tasks with subtasks are left in place, so that the subtasks are not moved to a different parent.
+     * Once their subtasks have been archived, they can be archived too.
+     */
+    public static tasksToArchive(tasks: Task[]): Task[] {
+        const { archiveAfterDays } = getSettings();
+        const path = Archive.path();
+        const earliestDayToKeep = window.moment().startOf('day').subtract(archiveAfterDays, 'days');
+        return tasks.filter(
+            (task) =>
+                task.status.isCompleted() &&
+                task.doneDate !== null &&
+                task.doneDate.isBefore(earliestDayToKeep, 'day') &&
+                task.children.length === 0 &&
+                task.projectedFrom === null &&
+                task.path !== path,
+        );
+    }
+
+    /**
+     * Add the lines to the end of the archive note, under the heading,
+     * which is only added if it is not already the last heading in the note.
+     */
+    public static addToArchive(content: string, heading: string, lines: string[]): string {
+        const fileLines = content.trim() === '' ? [] : content.trimEnd().split('\n');
+        const lastHeading = [...fileLines].reverse().find((line) => line.startsWith('#'));
+        if (lastHeading !== heading) {
+            if (fileLines.length > 0) {
+                fileLines.push('');
+            }
+            fileLines.push(heading, '');
+        }
+        return [...fileLines, ...lines].join('\n') + '\n';
+    }
+
+    /**
+     * Take lines added by {@link addToArchive} out of the archive note again, from the end of the note up,
+     * and the heading too, if no lines are left under it at the end of the note.
+     */
+    public static removeFromArchive(content: string, heading: string, lines: string[]): string {
+        const fileLines = content.trimEnd().split('\n');
+        for (const line of lines) {
+            const index = fileLines.lastIndexOf(line);
+            if (index !== -1) {
+                fileLines.splice(index, 1);
+            }
+        }
+
+        while (fileLines.length > 0 && fileLines[fileLines.length - 1].trim() === '') {
+            fileLines.pop();
+        }
+        if (fileLines[fileLines.length - 1] === heading) {
+            fileLines.pop();
+        }
+
+        const remaining = fileLines.join('\n').trimEnd();
+        return remaining === '' ? '' : remaining + '\n';
+    }
+
+    public static heading(date: Moment): string {
+        return `## Archived ${date.format(TaskRegularExpressions.dateFormat)}`;
+    }
+
+    private static async writeArchive(vault: Vault, path: string, content: string): Promise<void> {
+        const file = vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            await vault.modify(file, content);
+            return;
+        }
+
+        const folder = path.substring(0, path.lastIndexOf('/'));
+        if (folder !== '' && vault.getAbstractFileByPath(folder) === null) {
+            await vault.createFolder(folder);
+        }
+        await vault.create(path, content);
+    }
+
+    /**
+     * The task exactly as it was written, including any block link, so that it can still be found by its block link.
+     * Only its indentation is removed, as it is no longer under a parent.
+     */
+    private static archivedLine(task: Task): string {
+        return task.originalMarkdown.substring(task.indentation.length);
+    }
+
+    private static path(): string {
+        const { archiveFile } = getSettings();
+        return archiveFile.endsWith('.md') ? archiveFile : `${archiveFile}.md`;
+    }
+}
@@ -0,0 +1,189 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { BulkEditOperation } from './Commands/BulkEditOperation';
+import { Query } from './Query/Query';
+import { StatusRegistry } from './StatusRegistry';
+import { Priority } from './Task';
+import type { Task } from './Task';
+
+type OperationType = BulkEditOperation['type'];
+
+const operationNames: Record<OperationType, string> = {
+    reschedule: 'Reschedule by days',
+    priority: 'Set priority',
+    addTag: 'Add tag',
+    removeTag: 'Remove tag',
+    status: 'Change status',
+};
+
+/**
+ * The 'Bulk edit tasks matching query' dialog: a query, a preview of the tasks it matches,
+ * and the operation to apply to all of them.
+ */
+export class BulkEditModal extends Modal {
+    public readonly allTasks: Task[];
+    public readonly onSubmit: (tasks: Task[], operation: BulkEditOperation) => Promise<void>;
+
+    private matchedTasks: Task[] = [];
+    private operationType: OperationType = 'reschedule';
+    private operationValue: string = '1';
+
+    constructor({
+        app,
+        allTasks,
+        onSubmit,
+    }: {
+        app: App;
+        allTasks: Task[];
+        onSubmit: (tasks: Task[], operation: BulkEditOperation) => Promise<void>;
+    }) {
+        super(app);
+
+        this.allTasks = allTasks;
+        this.onSubmit = async (tasks: Task[], operation: BulkEditOperation) => {
+            this.close();
+            try {
+                await onSubmit(tasks, operation);
+            } catch (e) {
+                console.error('Tasks: could not bulk edit tasks', e);
+                new Notice(`Tasks: could not bulk edit tasks: ${e}`);
+            }
+        };
+    }
+
+    public onOpen(): void {
+        this.titleEl.setText('Bulk edit tasks matching query');
+        const { contentEl } = this;
+
+        const input = contentEl.createEl('textarea', {
+            cls: 'tasks-bulk-edit-query',
+            placeholder: 'not done\ndue before today',
+        });
+        const preview = contentEl.createDiv({ cls: 'tasks-bulk-edit-preview' });
+        input.addEventListener('input', () => {
+            this.runQuery(input.value, preview);
+        });
+
+        const operationEl = contentEl.createDiv();
+        this.displayOperation(operationEl);
+
+        new Setting(contentEl).addButton((button) => {
+            button
+                .setButtonText('Apply')
+                .setCta()
+                .onClick(() => {
+                    const operation = this.operation();
+                    if (operation !== null) {
+                        this.onSubmit(this.matchedTasks, operation);
+                    }
+                });
+        });
+        input.focus();
+    }
+
+    public onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private runQuery(source: string, preview: HTMLElement): void {
+        preview.empty();
+        this.matchedTasks = [];
+        if (source.trim() === '') {
+            return;
+        }
+
+        const query = new Query({ source });
+        if (query.error !== undefined) {
+            preview.createEl('p', { text: `Tasks query: ${query.error}` });
+            return;
+        }
+
+        this.matchedTasks = query.applyQueryToTasks(this.allTasks).tasks;
+        preview.createEl('p', { text: `${this.matchedTasks.length} tasks match` });
+        const list = preview.createEl('ul');
+        for (const task of this.matchedTasks) {
+            list.createEl('li', { text: `${task.toFileLineString()} (${task.path})` });
+        }
+    }
+
+    private displayOperation(operationEl: HTMLElement): void {
+        operationEl.empty();
+
+        new Setting(operationEl).setName('Operation').addDropdown((dropdown) => {
+            for (const [type, name] of Object.entries(operationNames)) {
+                dropdown.addOption(type, name);
+            }
+            dropdown.setValue(this.operationType).onChange((value) => {
+                this.operationType = value as OperationType;
+                this.operationValue = this.defaultValue();
+                this.displayOperation(operationEl);
+            });
+        });
+
+        const valueSetting = new Setting(operationEl);
+        switch (this.operationType) {
+            case 'reschedule':
+                valueSetting
+                    .setName('Days')
+                    .setDesc('Moves the start, scheduled and due dates. Use a negative number to move them earlier.')
+                    .addText((text) => text.setValue(this.operationValue).onChange((v) => (this.operationValue = v)));
+                break;
+            case 'priority':
+                valueSetting.setName('Priority').addDropdown((dropdown) => {
+                    for (const [name, priority] of Object.entries(Priority)) {
+                        dropdown.addOption(priority, name);
+                    }
+                    dropdown.setValue(this.operationValue).onChange((v) => (this.operationValue = v));
+                });
+                break;
+            case 'addTag':
+            case 'removeTag':
+                valueSetting
+                    .setName('Tag')
+                    .addText((text) => text.setValue(this.operationValue).onChange((v) => (this.operationValue = v)));
+                break;
+            case 'status':
+                valueSetting.setName('Status').addDropdown((dropdown) => {
+                    for (const status of StatusRegistry.getInstance().registeredStatuses) {
+                        dropdown.addOption(status.symbol, `${status.name} [${status.symbol}]`);
+                    }
+                    dropdown.setValue(this.operationValue).onChange((v) => (this.operationValue = v));
+                });
+                break;
+        }
+    }
+
+    private defaultValue(): string {
+        switch (this.operationType) {
+            case 'reschedule':
+                return '1';
+            case 'priority':
+                return Priority.None;
+            case 'addTag':
+            case 'removeTag':
+                return '';
+            case 'status':
+                return StatusRegistry.getInstance().registeredStatuses[0]?.symbol ?? ' ';
+        }
+    }
+
+    /**
+     * The operation chosen, or null if its value is not valid.
+     */
+    private operation(): BulkEditOperation | null {
+        const value = this.operationValue.trim();
+        switch (this.operationType) {
+            case 'reschedule': {
+                const days = Number(value);
+                return value !== '' && Number.isInteger(days) ? { type: 'reschedule', days } : null;
+            }
+            case 'priority':
+                return { type: 'priority', priority: this.operationValue as Priority };
+            case 'addTag':
+            case 'removeTag':
+                return value === '' ? null : { type: this.operationType, tag: value };
+            case 'status':
+                return { type: 'status', status: StatusRegistry.getInstance().bySymbol(this.operationValue) };
+        }
+    }
+}
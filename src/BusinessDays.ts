@@ -0,0 +1,82 @@
+import type { Moment } from 'moment';
+import { getSettings } from './Config/Settings';
+
+const weekdayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Date arithmetic that skips the days that are not worked,
+ * as set by 'Working days' and 'Holidays' in settings.
+ */
+export class BusinessDays {
+    /**
+     * Whether the date is one of the working days of the week, and is not a holiday.
+     *
+     * If no working days are set, every day of the week is a working day.
+     */
+    public static isWorkingDay(date: Moment): boolean {
+        const { workingDays, holidays } = getSettings();
+        if (workingDays.length > 0 && !workingDays.includes(date.isoWeekday())) {
+            return false;
+        }
+        return !holidays.includes(date.format('YYYY-MM-DD'));
+    }
+
+    /**
+     * Move the given number of working days forwards, or backwards if it is negative.
+     *
+     * @return A new Moment: the given one is not changed.
+     */
+    public static add(date: Moment, days: number): Moment {
+        const result = date.clone();
+        const step = days < 0 ? -1 : 1;
+        for (let remaining = Math.abs(days); remaining > 0; ) {
+            result.add(step, 'days');
+            if (BusinessDays.isWorkingDay(result)) {
+                remaining--;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * The given date if it is a working day, otherwise the next working day after it.
+     *
+     * @return A new Moment: the given one is not changed.
+     */
+    public static onOrAfter(date: Moment): Moment {
+        return BusinessDays.isWorkingDay(date) ? date.clone() : BusinessDays.add(date, 1);
+    }
+
+    /**
+     * Read the 'Working days' setting, such as 'Mon, Tue, Wed, Thu, Fri'.
+     *
+     * @return The ISO numbers of the days, from 1 for Monday to 7 for Sunday. Unknown names are ignored.
+     */
+    public static parseWorkingDays(text: string): number[] {
+        return text
+            .split(',')
+            .map((name) =>
+                weekdayNames.findIndex((weekday) => weekday.toLowerCase() === name.trim().slice(0, 3).toLowerCase()),
+            )
+            .filter((index) => index >= 0)
+            .map((index) => index + 1);
+    }
+
+    public static renderWorkingDays(workingDays: number[]): string {
+        return workingDays.map((day) => weekdayNames[day - 1]).join(', ');
+    }
+
+    /**
+     * Read the 'Holidays' setting, such as '2026-12-25, 2027-01-01'. Invalid dates are ignored.
+     */
+    public static parseHolidays(text: string): string[] {
+        return text
+            .split(',')
+            .map((holiday) => holiday.trim())
+            .filter((holiday) => window.moment(holiday, 'YYYY-MM-DD', true).isValid());
+    }
+
+    public static renderHolidays(holidays: string[]): string {
+        return holidays.join(', ');
+    }
+}
@@ -8,6 +8,8 @@ import type { TasksEvents } from './TasksEvents';
 import { DateFallback } from './DateFallback';
 import { getSettings } from './Config/Settings';
 import { Lazy } from './lib/Lazy';
+import { TaskHierarchy } from './TaskHierarchy';
+import { TaskDiff } from './TaskDiff';
 
 export enum State {
     Cold = 'Cold',
@@ -87,6 +89,20 @@ export class Cache {
         });
     }
 
+    /**
+     * Report what happened to each task in a file that changed.
+     * Nothing is reported while the vault is first read, when every task would otherwise be reported as created.
+     */
+    private notifyTaskEvents(oldTasks: Task[], newTasks: Task[]): void {
+        if (this.state !== State.Warm) {
+            return;
+        }
+
+        for (const taskEvent of TaskDiff.events(oldTasks, newTasks)) {
+            this.events.triggerTaskEvent(taskEvent);
+        }
+    }
+
     private subscribeToCache(): void {
         const resolvedEventeReference = this.metadataCache.on('resolved', async () => {
             // Resolved fires on every change.
@@ -127,11 +143,15 @@ export class Cache {
             }
 
             this.tasksMutex.runExclusive(() => {
+                const deletedTasks = this.tasks.filter((task: Task) => {
+                    return task.path === file.path;
+                });
                 this.tasks = this.tasks.filter((task: Task) => {
                     return task.path !== file.path;
                 });
 
                 this.notifySubscribers();
+                this.notifyTaskEvents(deletedTasks, []);
             });
         });
         this.vaultEventReferences.push(deletedEventReference);
@@ -231,6 +251,7 @@ export class Cache {
 
         // All updated, inform our subscribers.
         this.notifySubscribers();
+        this.notifyTaskEvents(oldTasks, newTasks);
     }
 
     private getTasksFromFileContent(
@@ -240,6 +261,7 @@ export class Cache {
         file: TFile,
     ): Task[] {
         const tasks: Task[] = [];
+        const tasksByLineNumber = new Map<number, Task>();
         const fileLines = fileContent.split('\n');
         const linesInFile = fileLines.length;
 
@@ -270,7 +292,7 @@ export class Cache {
                     console.log(
                         `${file.path} Obsidian gave us a line number ${lineNumber} past the end of the file. ${linesInFile}.`,
                     );
-                    return tasks;
+                    break;
                 }
                 if (currentSection === null || currentSection.position.end.line < lineNumber) {
                     // We went past the current section (or this is the first task).
@@ -308,10 +330,12 @@ export class Cache {
                 if (task !== null) {
                     sectionIndex++;
                     tasks.push(task);
+                    tasksByLineNumber.set(lineNumber, task);
                 }
             }
         }
 
+        TaskHierarchy.link(tasksByLineNumber, listItems);
         return tasks;
     }
 
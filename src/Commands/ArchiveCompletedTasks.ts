@@ -0,0 +1,13 @@
+import { App, Notice } from 'obsidian';
+import { Archive } from '../Archive';
+import type { Task } from '../Task';
+
+/**
+ * Move the completed tasks that are ready to be archived to the archive note, and say how many were moved.
+ *
+ * See {@link Archive.tasksToArchive} for which tasks are moved.
+ */
+export const archiveCompletedTasks = async (app: App, allTasks: Task[]): Promise<void> => {
+    const archivedCount = await Archive.archive(app.vault, allTasks);
+    new Notice(`Tasks: archived ${archivedCount} completed tasks`);
+};
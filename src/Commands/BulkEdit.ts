@@ -0,0 +1,28 @@
+import { App, Notice } from 'obsidian';
+import { BulkEditModal } from '../BulkEditModal';
+import { replaceTasksInEachFile } from '../File';
+import type { Task } from '../Task';
+import { bulkEditReplacements } from './BulkEditOperation';
+import type { BulkEditOperation } from './BulkEditOperation';
+
+/**
+ * Ask for a query and an operation, and apply the operation to every task matching the query.
+ *
+ * @param app       An Obsidian App instance.
+ * @param allTasks  All the tasks in the vault, which the query is run against.
+ */
+export const bulkEdit = (app: App, allTasks: Task[]) => {
+    const onSubmit = async (tasks: Task[], operation: BulkEditOperation): Promise<void> => {
+        const replacements = bulkEditReplacements(tasks, operation);
+        const made = await replaceTasksInEachFile(replacements);
+        const fileCount = new Set(made.map(({ originalTask }) => originalTask.path)).size;
+        let message = `Tasks: edited ${made.length} tasks in ${fileCount} files`;
+        const failedCount = replacements.length - made.length;
+        if (failedCount > 0) {
+            message += `. ${failedCount} tasks were not edited, as their files have changed: run the command again.`;
+        }
+        new Notice(message);
+    };
+
+    new BulkEditModal({ app, allTasks, onSubmit }).open();
+};
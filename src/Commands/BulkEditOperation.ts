@@ -0,0 +1,69 @@
+import type { TaskReplacement } from '../File';
+import { escapeRegExp } from '../lib/RegExpTools';
+import type { Status } from '../Status';
+import { Task } from '../Task';
+import type { Priority } from '../Task';
+import { shiftDates } from './Postpone';
+
+/**
+ * The one change that the 'Bulk edit tasks matching query' command makes to every matched task.
+ */
+export type BulkEditOperation =
+    | { type: 'reschedule'; days: number }
+    | { type: 'priority'; priority: Priority }
+    | { type: 'addTag'; tag: string }
+    | { type: 'removeTag'; tag: string }
+    | { type: 'status'; status: Status };
+
+/**
+ * The replacements that apply the operation to each task.
+ *
+ * Projected occurrences of recurring tasks are not in any file, so are left out,
+ * as are tasks that the operation does not change, such as adding a tag the task already has.
+ */
+export const bulkEditReplacements = (tasks: Task[], operation: BulkEditOperation): TaskReplacement[] => {
+    return tasks
+        .filter((task) => task.projectedFrom === null)
+        .map((task) => ({ originalTask: task, newTasks: editTask(task, operation) }))
+        .filter(({ originalTask, newTasks }) => newTasks.length !== 1 || !newTasks[0].identicalTo(originalTask));
+};
+
+const editTask = (task: Task, operation: BulkEditOperation): Task[] => {
+    switch (operation.type) {
+        case 'reschedule':
+            return [shiftDates(task, operation.days)];
+        case 'priority':
+            return [new Task({ ...task, priority: operation.priority })];
+        case 'addTag':
+            return [addTag(task, operation.tag)];
+        case 'removeTag':
+            return [removeTag(task, operation.tag)];
+        case 'status':
+            if (task.status.symbol === operation.status.symbol) {
+                return [task];
+            }
+            return task.handleNewStatus(operation.status);
+    }
+};
+
+const addTag = (task: Task, tag: string): Task => {
+    tag = asTag(tag);
+    if (task.tags.includes(tag)) {
+        return task;
+    }
+    return new Task({ ...task, description: `${task.description} ${tag}`, tags: [...task.tags, tag] });
+};
+
+const removeTag = (task: Task, tag: string): Task => {
+    tag = asTag(tag);
+    if (!task.tags.includes(tag)) {
+        return task;
+    }
+    const description = task.description.replace(new RegExp(`(^|\\s)${escapeRegExp(tag)}(?=\\s|$)`, 'g'), '').trim();
+    return new Task({ ...task, description, tags: task.tags.filter((t) => t !== tag) });
+};
+
+const asTag = (tag: string): string => {
+    tag = tag.trim();
+    return tag.startsWith('#') ? tag : '#' + tag;
+};
@@ -4,7 +4,7 @@ import type { Task } from '../Task';
 import { DateFallback } from '../DateFallback';
 import { taskFromLine } from './CreateOrEditTaskParser';
 
-export const createOrEdit = (checking: boolean, editor: Editor, view: View, app: App) => {
+export const createOrEdit = (checking: boolean, editor: Editor, view: View, app: App, allTasks: Task[]) => {
     if (checking) {
         return view instanceof MarkdownView;
     }
@@ -35,6 +35,7 @@ export const createOrEdit = (checking: boolean, editor: Editor, view: View, app:
     const taskModal = new TaskModal({
         app,
         task,
+        allTasks,
         onSubmit,
     });
     taskModal.open();
@@ -13,6 +13,9 @@ import { StatusRegistry } from '../StatusRegistry';
  * This is an implementation detail of that command, which has been separated
  * out to a different source file in order to allow its logic to be tested.
  *
+ * Lines that are not yet tasks are given a created date of today,
+ * if that is enabled in settings.
+ *
  * @param line - The line the user had clicked on when running 'Create or edit task' command
  * @param path - The path of the file containing the line
  */
@@ -40,6 +43,8 @@ export const taskFromLine = ({ line, path }: { line: string; path: string }): Ta
         console.error('Tasks: Cannot create task on line:', line);
         return new Task({
             estimatedTimeToComplete: null,
+            timeSpent: null,
+            timerStarted: null,
             status: Status.TODO,
             description: '',
             path,
@@ -49,13 +54,20 @@ export const taskFromLine = ({ line, path }: { line: string; path: string }): Ta
             startDate: null,
             scheduledDate: null,
             dueDate: null,
+            startTime: null,
+            scheduledTime: null,
+            dueTime: null,
             doneDate: null,
+            createdDate: Task.newCreatedDate(),
+            cancelledDate: null,
             recurrence: null,
             // We don't need the following fields to edit here in the editor.
             sectionStart: 0,
             sectionIndex: 0,
             precedingHeader: null,
             blockLink: '',
+            id: '',
+            dependsOn: [],
             tags: [],
             originalMarkdown: '',
             scheduledDateIsInferred: false,
@@ -78,6 +90,8 @@ export const taskFromLine = ({ line, path }: { line: string; path: string }): Ta
 
     return new Task({
         estimatedTimeToComplete: null,
+        timeSpent: null,
+        timerStarted: null,
         status,
         description,
         path,
@@ -88,12 +102,19 @@ export const taskFromLine = ({ line, path }: { line: string; path: string }): Ta
         startDate: null,
         scheduledDate: null,
         dueDate: null,
+        startTime: null,
+        scheduledTime: null,
+        dueTime: null,
         doneDate: null,
+        createdDate: Task.newCreatedDate(),
+        cancelledDate: null,
         recurrence: null,
         // We don't need the following fields to edit here in the editor.
         sectionStart: 0,
         sectionIndex: 0,
         precedingHeader: null,
+        id: '',
+        dependsOn: [],
         tags: [],
         originalMarkdown: '',
         // Not needed since the inferred status is always re-computed after submitting.
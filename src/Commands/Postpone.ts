@@ -0,0 +1,124 @@
+import { Editor, MarkdownView, View } from 'obsidian';
+import type { Moment } from 'moment';
+import { Task } from '../Task';
+
+/**
+ * A change to the dates of a task, or null if it cannot be made to that task.
+ */
+export type DatesEdit = (task: Task) => Task | null;
+
+/**
+ * Caller must ensure it is accessing Editor atomically for the duration of the call.
+ *
+ * @param checking  If true, checks if there is a task on the cursor line that the edit can be made to.
+ * @param editor    An Obsidian Editor instance.
+ * @param view      An Obsidian View instance.
+ * @param edit      The change to make to the task's dates.
+ * @returns         A boolean if checking, otherwise undefined.
+ */
+export const editDatesOnCursorLine = (
+    checking: boolean,
+    editor: Editor,
+    view: View,
+    edit: DatesEdit,
+): boolean | undefined => {
+    if (!(view instanceof MarkdownView)) {
+        return checking ? false : undefined;
+    }
+
+    const lineNumber = editor.getCursor().line;
+    const editedLine = editLine(editor.getLine(lineNumber), edit);
+    if (checking) {
+        return editedLine !== null;
+    }
+
+    if (editedLine === null) {
+        // Should never happen due to check above.
+        return;
+    }
+
+    editor.setLine(lineNumber, editedLine);
+};
+
+/**
+ * Converts the string {@code line}, as if it was a single line in a file,
+ * to a Task, edits its dates, then renders it as a line again.
+ *
+ * @returns The edited line, or null if the line is not a task or the edit cannot be made to it.
+ */
+export const editLine = (line: string, edit: DatesEdit): string | null => {
+    const task = Task.fromLine({
+        line,
+        // such params below are only required for concrete Tasks that exist somewhere.
+        // here, we merely use the Task class as a helper for its instance methods.
+        path: '',
+        sectionStart: 0,
+        sectionIndex: 0,
+        precedingHeader: null,
+        fallbackDate: null,
+    });
+    if (task === null) {
+        return null;
+    }
+
+    return edit(task)?.toFileLineString() ?? null;
+};
+
+/**
+ * Move the start, scheduled and due dates that the task has by the same number of days,
+ * so they keep their distances from each other, as {@link Recurrence.next} does. Any times of day are kept.
+ */
+export const shiftDates = (task: Task, days: number): Task => {
+    const shift = (date: Moment | null) => (date === null ? null : date.clone().add(days, 'days'));
+    return new Task({
+        ...task,
+        startDate: shift(task.startDate),
+        scheduledDate: shift(task.scheduledDate),
+        dueDate: shift(task.dueDate),
+    });
+};
+
+/**
+ * Postpone a task with a due date by the given number of days, moving its other dates with it.
+ */
+export const postponeDue =
+    (days: number): DatesEdit =>
+    (task: Task) => {
+        return task.dueDate === null ? null : shiftDates(task, days);
+    };
+
+/**
+ * Move the task's scheduled date to today, moving its other dates with it,
+ * or schedule it for today if it has no scheduled date.
+ */
+export const moveScheduledToToday: DatesEdit = (task: Task) => {
+    const today = window.moment().startOf('day');
+    if (task.scheduledDate === null) {
+        return new Task({ ...task, scheduledDate: today });
+    }
+    return shiftDates(task, daysBetween(task.scheduledDate, today));
+};
+
+/**
+ * Hide the task until the given date: the earliest of its dates moves to the date, and its other dates move with it.
+ * A task without dates gets the date as its start date.
+ */
+export const snoozeUntil =
+    (date: Moment): DatesEdit =>
+    (task: Task) => {
+        const dates = [task.startDate, task.scheduledDate, task.dueDate].filter(
+            (taskDate): taskDate is Moment => taskDate !== null,
+        );
+        if (dates.length === 0) {
+            return new Task({ ...task, startDate: date.clone().startOf('day') });
+        }
+        const earliest = window.moment.min(dates);
+        return shiftDates(task, daysBetween(earliest, date));
+    };
+
+/**
+ * Rounding days to handle daylight-savings-time changes between the dates.
+ */
+const daysBetween = (from: Moment, to: Moment): number => {
+    return Math.round(window.moment.duration(to.clone().startOf('day').diff(from.clone().startOf('day'))).asDays());
+};
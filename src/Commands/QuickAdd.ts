@@ -0,0 +1,39 @@
+import { App, Editor, MarkdownView, View } from 'obsidian';
+import { QuickAddModal } from '../QuickAddModal';
+import type { Task } from '../Task';
+
+/**
+ * Ask for a task as free text, and add it to the editor.
+ *
+ * The task replaces the cursor line if that is blank, and otherwise goes on a new line below it.
+ *
+ * See taskFromQuickAddText() for how the text is read.
+ */
+export const quickAdd = (checking: boolean, editor: Editor, view: View, app: App) => {
+    if (checking) {
+        return view instanceof MarkdownView;
+    }
+
+    if (!(view instanceof MarkdownView)) {
+        // Should never happen due to check above.
+        return;
+    }
+
+    const path = view.file?.path;
+    if (path === undefined) {
+        return;
+    }
+
+    const onSubmit = (task: Task): void => {
+        const lineNumber = editor.getCursor().line;
+        const line = editor.getLine(lineNumber);
+        const serialized = task.toFileLineString();
+        if (line.trim() === '') {
+            editor.setLine(lineNumber, serialized);
+        } else {
+            editor.replaceRange('\n' + serialized, { line: lineNumber, ch: line.length });
+        }
+    };
+
+    new QuickAddModal({ app, path, onSubmit }).open();
+};
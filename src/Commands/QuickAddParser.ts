@@ -0,0 +1,154 @@
+import { getSettings } from '../Config/Settings';
+import { DateParser } from '../Query/DateParser';
+import { Recurrence } from '../Recurrence';
+import {
+    Task,
+    TaskRegularExpressions,
+    dueDateSymbol,
+    prioritySymbols,
+    recurrenceSymbol,
+    scheduledDateSymbol,
+    startDateSymbol,
+} from '../Task';
+
+type DateKind = 'start' | 'scheduled' | 'due';
+
+const dateKindSymbols: Record<DateKind, string> = {
+    start: startDateSymbol,
+    scheduled: scheduledDateSymbol,
+    due: dueDateSymbol,
+};
+
+const dateKeywordsRegex = /(?:^|\s)(start|starts|starting|from|scheduled|due|by)\s+$/i;
+
+/**
+ * Turn free text, such as 'Send invoice to ACME next friday high priority every month #finance',
+ * into a new task, for the 'Quick add task' command.
+ *
+ * The text is read in this order:
+ * - A priority, written as 'high priority' or 'priority high', and similarly for medium and low.
+ * - A recurrence, starting with 'every' and ending at the first tag or date keyword,
+ *   or sooner if that is all that {@link Recurrence.fromText} can read.
+ * - Dates, as understood by {@link DateParser}. A date after 'start', 'starts', 'starting' or 'from'
+ *   is the start date, after 'scheduled' it is the scheduled date, and otherwise it is the due date.
+ *   Only the first date of each kind is used.
+ *
+ * Whatever is left is the description, including any tags and any signifiers typed as emoji.
+ * The global filter is added, if there is one, and the task is given a created date if that is enabled.
+ *
+ * This is an implementation detail of that command, which has been separated
+ * out to a different source file in order to allow its logic to be tested.
+ *
+ * @param text - The text typed by the user
+ * @param path - The path of the file the task will be added to
+ * @return The task, or null if the text is blank
+ */
+export const taskFromQuickAddText = ({ text, path }: { text: string; path: string }): Task | null => {
+    let remaining = text.trim();
+    if (remaining === '') {
+        return null;
+    }
+
+    let priority = '';
+    const priorityRegex = /(?:^|\s)(?:(high|medium|low) priority|priority (high|medium|low))(?=\s|$)/i;
+    const priorityMatch = remaining.match(priorityRegex);
+    if (priorityMatch !== null) {
+        const name = (priorityMatch[1] ?? priorityMatch[2]).toLowerCase();
+        priority =
+            name === 'high' ? prioritySymbols.High : name === 'medium' ? prioritySymbols.Medium : prioritySymbols.Low;
+        remaining = remaining.replace(priorityRegex, ' ');
+    }
+
+    let recurrence = '';
+    const recurrenceMatch = remaining.match(
+        /(?:^|\s)(every\s.*?)(?=\s#|\s(?:start|starts|starting|scheduled|due)\s|$)/i,
+    );
+    if (recurrenceMatch !== null && recurrenceMatch.index !== undefined) {
+        const words = recurrenceMatch[1].split(/\s+/);
+        for (let length = words.length; length > 1; length--) {
+            const candidate = words.slice(0, length).join(' ');
+            const isValid =
+                Recurrence.fromText({
+                    recurrenceRuleText: candidate,
+                    startDate: null,
+                    scheduledDate: null,
+                    dueDate: null,
+                }) !== null;
+            if (isValid) {
+                recurrence = candidate;
+                const start = recurrenceMatch.index + recurrenceMatch[0].indexOf(recurrenceMatch[1]);
+                remaining = remaining.slice(0, start) + ' ' + remaining.slice(start + candidate.length);
+                break;
+            }
+        }
+    }
+
+    const dates: Partial<Record<DateKind, string>> = {};
+    const spansToRemove: { start: number; end: number }[] = [];
+    for (const { index, text: dateText, date } of DateParser.parseDatesInText(remaining, true)) {
+        const keywordMatch = remaining.slice(0, index).match(dateKeywordsRegex);
+        const kind = dateKindFromKeyword(keywordMatch?.[1]);
+        if (dates[kind] !== undefined) {
+            continue;
+        }
+
+        dates[kind] = date.format(TaskRegularExpressions.dateFormat);
+        const start = keywordMatch === null ? index : index - keywordMatch[0].trimStart().length;
+        spansToRemove.push({ start, end: index + dateText.length });
+    }
+    for (const { start, end } of spansToRemove.reverse()) {
+        remaining = remaining.slice(0, start) + ' ' + remaining.slice(end);
+    }
+
+    // Tidy up the gaps left by the removed text.
+    let description = remaining
+        .replace(/\s+/g, ' ')
+        .replace(/ ([,;:])/g, '$1')
+        .trim();
+    const { globalFilter } = getSettings();
+    if (globalFilter !== '' && !description.includes(globalFilter)) {
+        description = `${globalFilter} ${description}`;
+    }
+
+    const components = [`- [ ] ${description}`];
+    if (priority !== '') {
+        components.push(priority);
+    }
+    if (recurrence !== '') {
+        components.push(`${recurrenceSymbol} ${recurrence}`);
+    }
+    for (const kind of ['start', 'scheduled', 'due'] as DateKind[]) {
+        const date = dates[kind];
+        if (date !== undefined) {
+            components.push(`${dateKindSymbols[kind]} ${date}`);
+        }
+    }
+
+    const task = Task.fromLine({
+        line: components.join(' '),
+        path,
+        sectionStart: 0, // We don't need this to add the task to the editor.
+        sectionIndex: 0, // We don't need this to add the task to the editor.
+        precedingHeader: null, // We don't need this to add the task to the editor.
+        fallbackDate: null,
+    });
+    if (task === null) {
+        return null;
+    }
+
+    return new Task({ ...task, createdDate: task.createdDate ?? Task.newCreatedDate() });
+};
+
+function dateKindFromKeyword(keyword: string | undefined): DateKind {
+    switch (keyword?.toLowerCase()) {
+        case 'start':
+        case 'starts':
+        case 'starting':
+        case 'from':
+            return 'start';
+        case 'scheduled':
+            return 'scheduled';
+        default:
+            return 'due';
+    }
+}
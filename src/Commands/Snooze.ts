@@ -0,0 +1,29 @@
+import { App, Editor, MarkdownView, View } from 'obsidian';
+import type { Moment } from 'moment';
+import { SnoozeModal } from '../SnoozeModal';
+import { editLine, snoozeUntil } from './Postpone';
+
+/**
+ * Ask for a date, and snooze the task on the cursor line until then.
+ *
+ * See snoozeUntil() for how the task's dates are changed.
+ */
+export const snooze = (checking: boolean, editor: Editor, view: View, app: App): boolean | undefined => {
+    if (!(view instanceof MarkdownView)) {
+        return checking ? false : undefined;
+    }
+
+    const lineNumber = editor.getCursor().line;
+    if (checking) {
+        return editLine(editor.getLine(lineNumber), snoozeUntil(window.moment())) !== null;
+    }
+
+    const onSubmit = (date: Moment): void => {
+        const editedLine = editLine(editor.getLine(lineNumber), snoozeUntil(date));
+        if (editedLine !== null) {
+            editor.setLine(lineNumber, editedLine);
+        }
+    };
+
+    new SnoozeModal({ app, onSubmit }).open();
+};
@@ -120,7 +120,7 @@ export const toggleLine = (line: string) => {
 2) Line got longer:
     a) List marker could have been added. Find it in new text: if cursor was at or right of where it was added, move the cursor right.
     b) Empty checkbox could have been added. If cursor was after the list marker (in old or new), it should move right.
-    c) Done emoji and date could have been added to the end. Cursor should reset if 0, and stay end of line otherwise.
+    c) Done or cancelled emoji and date could have been added to the end. Cursor should reset if 0, and stay end of line otherwise.
     d) Recurring task could have been added to the beginning and done emoji and date added to the end. Current behavior adds so much to the offset to make this right.
 
 So cursor should be reset if 0, which includes being moved to new end if got shorter. Then might need to move right 2 or 3.
@@ -138,6 +138,15 @@ export const calculateCursorOffset = (origCursorCh: number, line: string, toggle
         newLineLen -= doneDateLength;
     }
 
+    // Likewise for cancelled-date append
+    const cancelledDateLength = ' ❌ YYYY-MM-DD'.length;
+    if (
+        toggledLine.match(TaskRegularExpressions.cancelledDateRegex) &&
+        newLineLen - line.length >= cancelledDateLength
+    ) {
+        newLineLen -= cancelledDateLength;
+    }
+
     // Handle recurring tasks: entire line plus newline prepended. Fix for #449 above means appended done date treated correctly.
     if (newLineLen >= 2 * line.length && toggledLine.search('.+\n.+') !== -1) {
         return origCursorCh + newLineLen - line.length;
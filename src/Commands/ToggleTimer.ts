@@ -0,0 +1,95 @@
+import { Editor, MarkdownView, Notice, View } from 'obsidian';
+import { replaceTaskWithTasks } from '../File';
+import { Task } from '../Task';
+
+/**
+ * Start the timer on the task on the cursor line, or stop it and add the elapsed minutes to its time spent.
+ *
+ * The task must already be known to the cache, as the updated line is written back via
+ * {@link replaceTaskWithTasks}, which locates the task by its section in the file.
+ *
+ * @param checking  If true, checks if there is a task on the cursor line whose timer can be toggled.
+ * @param editor    An Obsidian Editor instance.
+ * @param view      An Obsidian View instance.
+ * @param allTasks  All the tasks in the vault, from which the task on the cursor line is looked up.
+ * @returns         A boolean if checking, otherwise undefined.
+ */
+export const toggleTimer = (checking: boolean, editor: Editor, view: View, allTasks: Task[]): boolean | undefined => {
+    if (!(view instanceof MarkdownView)) {
+        return checking ? false : undefined;
+    }
+
+    const path = view.file?.path;
+    if (path === undefined) {
+        return checking ? false : undefined;
+    }
+
+    const task = findTaskOnLine(allTasks, path, editor.getValue().split('\n'), editor.getCursor().line);
+    if (checking) {
+        return task !== undefined;
+    }
+
+    if (task === undefined) {
+        // Should never happen due to check above.
+        return;
+    }
+
+    writeToggledTimer(task);
+};
+
+const writeToggledTimer = async (task: Task) => {
+    const written = await replaceTaskWithTasks({
+        originalTask: task,
+        newTasks: task.toggleTimer(),
+    });
+    if (!written) {
+        new Notice('Tasks: the timer was not toggled, as the file has changed. Please try again.');
+    }
+};
+
+/**
+ * Find the task that was read from the given line of the given file.
+ *
+ * The task is found by its position, as {@link replaceTaskWithTasks} finds it: the section that the line is in,
+ * and the number of tasks before the line in that section. So if the same line occurs more than once in the file,
+ * the task on the given line is found, not the first of them.
+ *
+ * @param lines      The current lines of the file.
+ * @param lineNumber The line to find the task on.
+ */
+export const findTaskOnLine = (
+    allTasks: Task[],
+    path: string,
+    lines: string[],
+    lineNumber: number,
+): Task | undefined => {
+    const tasksInFile = allTasks.filter((task) => task.path === path);
+    const sectionStarts = tasksInFile.map((task) => task.sectionStart).filter((start) => start <= lineNumber);
+    if (sectionStarts.length === 0) {
+        return undefined;
+    }
+
+    const sectionStart = Math.max(...sectionStarts);
+    const sectionIndex = lines.slice(sectionStart, lineNumber).filter((line) => isTask(line, path)).length;
+    return tasksInFile.find(
+        (task) =>
+            task.sectionStart === sectionStart &&
+            task.sectionIndex === sectionIndex &&
+            task.originalMarkdown === lines[lineNumber],
+    );
+};
+
+/**
+ * Whether the cache reads a task from the line, so counts it in the section indexes of the tasks after it.
+ */
+const isTask = (line: string, path: string): boolean => {
+    const task = Task.fromLine({
+        line,
+        path,
+        sectionStart: 0,
+        sectionIndex: 0,
+        precedingHeader: null,
+        fallbackDate: null,
+    });
+    return task !== null;
+};
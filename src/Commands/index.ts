@@ -1,16 +1,23 @@
-import type { App, Editor, Plugin, View } from 'obsidian';
+import type { App, Editor, View } from 'obsidian';
+import type TasksPlugin from '../main';
+import { archiveCompletedTasks } from './ArchiveCompletedTasks';
+import { bulkEdit } from './BulkEdit';
 import { createOrEdit } from './CreateOrEdit';
+import { editDatesOnCursorLine, moveScheduledToToday, postponeDue } from './Postpone';
+import { quickAdd } from './QuickAdd';
+import { snooze } from './Snooze';
 
 import { toggleDone } from './ToggleDone';
+import { toggleTimer } from './ToggleTimer';
 
 export class Commands {
-    private readonly plugin: Plugin;
+    private readonly plugin: TasksPlugin;
 
     private get app(): App {
         return this.plugin.app;
     }
 
-    constructor({ plugin }: { plugin: Plugin }) {
+    constructor({ plugin }: { plugin: TasksPlugin }) {
         this.plugin = plugin;
 
         plugin.addCommand({
@@ -18,7 +25,16 @@ export class Commands {
             name: 'Create or edit task',
             icon: 'pencil',
             editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
-                return createOrEdit(checking, editor, view, this.app);
+                return createOrEdit(checking, editor, view, this.app, this.plugin.getTasks() ?? []);
+            },
+        });
+
+        plugin.addCommand({
+            id: 'quick-add-task',
+            name: 'Quick add task',
+            icon: 'plus-circle',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
+                return quickAdd(checking, editor, view, this.app);
             },
         });
 
@@ -28,5 +44,68 @@ export class Commands {
             icon: 'check-in-circle',
             editorCheckCallback: toggleDone,
         });
+
+        plugin.addCommand({
+            id: 'toggle-timer',
+            name: 'Start or stop timer on task',
+            icon: 'timer',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
+                return toggleTimer(checking, editor, view, this.plugin.getTasks() ?? []);
+            },
+        });
+
+        plugin.addCommand({
+            id: 'postpone-due-1-day',
+            name: 'Postpone due date by 1 day',
+            icon: 'calendar-clock',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
+                return editDatesOnCursorLine(checking, editor, view, postponeDue(1));
+            },
+        });
+
+        plugin.addCommand({
+            id: 'postpone-due-1-week',
+            name: 'Postpone due date by 1 week',
+            icon: 'calendar-clock',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
+                return editDatesOnCursorLine(checking, editor, view, postponeDue(7));
+            },
+        });
+
+        plugin.addCommand({
+            id: 'move-scheduled-to-today',
+            name: 'Move scheduled date to today',
+            icon: 'calendar-check',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
+                return editDatesOnCursorLine(checking, editor, view, moveScheduledToToday);
+            },
+        });
+
+        plugin.addCommand({
+            id: 'snooze-until-date',
+            name: 'Snooze task until date',
+            icon: 'alarm-clock',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: View) => {
+                return snooze(checking, editor, view, this.app);
+            },
+        });
+
+        plugin.addCommand({
+            id: 'bulk-edit-tasks',
+            name: 'Bulk edit tasks matching query',
+            icon: 'list-checks',
+            callback: () => {
+                bulkEdit(this.app, this.plugin.getTasks() ?? []);
+            },
+        });
+
+        plugin.addCommand({
+            id: 'archive-completed-tasks',
+            name: 'Archive completed tasks',
+            icon: 'archive',
+            callback: () => {
+                archiveCompletedTasks(this.app, this.plugin.getTasks() ?? []);
+            },
+        });
     }
 }
@@ -0,0 +1,116 @@
+import { getSettings } from './Config/Settings';
+import type { TaskReplacement } from './File';
+import { StatusField } from './Query/Filter/StatusField';
+import { Status } from './Status';
+import { StatusRegistry } from './StatusRegistry';
+import type { Task } from './Task';
+
+/**
+ * Carry the completion of a task to the tasks nested above and below it,
+ * if 'Complete subtasks and parent tasks together' is enabled in settings.
+ *
+ * This needs the {@link Task.parent} and {@link Task.children} of the task,
+ * so only works on tasks read with their file's list structure.
+ */
+export class CompletionPropagation {
+    /**
+     * Toggle a task, exactly as {@link Task.toggle} does, and if that completes it,
+     * complete all its open subtasks too.
+     *
+     * @return The replacements to write to the task's file, all at once.
+     */
+    public static toggle(task: Task): TaskReplacement[] {
+        const replacements = [{ originalTask: task, newTasks: task.toggle() }];
+        if (!CompletionPropagation.isEnabled() || !CompletionPropagation.completes(replacements[0])) {
+            return replacements;
+        }
+
+        return [...replacements, ...CompletionPropagation.completeOpenDescendants(task)];
+    }
+
+    /**
+     * Complete a task and, if enabled in settings, all its open subtasks.
+     *
+     * The task moves to the first DONE status reached by toggling it,
+     * so custom status cycles are respected.
+     *
+     * @param replaced - replacements already written, such as those of the toggle that offered the task
+     * by {@link parentToOffer}. Their tasks are no longer on the lines they were read from, so are left out.
+     */
+    public static complete(task: Task, replaced: TaskReplacement[] = []): TaskReplacement[] {
+        const replacements = [
+            { originalTask: task, newTasks: task.handleNewStatus(CompletionPropagation.doneStatus(task)) },
+        ];
+        if (!CompletionPropagation.isEnabled()) {
+            return replacements;
+        }
+
+        const replacedTasks = new Set(replaced.map(({ originalTask }) => originalTask));
+        return [...replacements, ...CompletionPropagation.completeOpenDescendants(task, replacedTasks)];
+    }
+
+    /**
+     * The parent to offer to complete after toggling a task, or null if there is none.
+     *
+     * This is the task's parent, if it is still open and the toggle completes the last of its open subtasks.
+     *
+     * @param replacements - the result of {@link toggle} for the task.
+     */
+    public static parentToOffer(replacements: TaskReplacement[]): Task | null {
+        if (!CompletionPropagation.isEnabled() || !CompletionPropagation.completes(replacements[0])) {
+            return null;
+        }
+
+        const task = replacements[0].originalTask;
+        const parent = task.parent;
+        if (parent === null || StatusField.isDone(parent)) {
+            return null;
+        }
+
+        const otherChildren = parent.children.filter((child) => child !== task);
+        return otherChildren.every((child) => StatusField.isDone(child)) ? parent : null;
+    }
+
+    private static completeOpenDescendants(task: Task, replacedTasks = new Set<Task>()): TaskReplacement[] {
+        return task.children.flatMap((child) => {
+            const replacements = CompletionPropagation.completeOpenDescendants(child, replacedTasks);
+            if (StatusField.isDone(child) || replacedTasks.has(child)) {
+                return replacements;
+            }
+            return [
+                { originalTask: child, newTasks: child.handleNewStatus(CompletionPropagation.doneStatus(child)) },
+                ...replacements,
+            ];
+        });
+    }
+
+    /**
+     * Follow the task's status through the next status of each, until reaching a DONE status.
+     *
+     * Statuses whose cycle never reaches DONE go straight to {@link Status.DONE}.
+     */
+    private static doneStatus(task: Task): Status {
+        const statusRegistry = StatusRegistry.getInstance();
+        let status = task.status;
+        for (let i = 0; i <= statusRegistry.registeredStatuses.length; i++) {
+            status = statusRegistry.getNextStatusOrCreate(status);
+            if (status.isCompleted()) {
+                return status;
+            }
+        }
+        return Status.DONE;
+    }
+
+    /**
+     * Whether a replacement changes a task that was not completed to one that is.
+     *
+     * The toggled task is the last of the new tasks, after any next occurrence of a recurring task.
+     */
+    private static completes({ originalTask, newTasks }: TaskReplacement): boolean {
+        return !originalTask.status.isCompleted() && newTasks[newTasks.length - 1].status.isCompleted();
+    }
+
+    private static isEnabled(): boolean {
+        return getSettings().propagateCompletion;
+    }
+}
@@ -1,6 +1,7 @@
 import { StatusConfiguration } from '../StatusConfiguration';
 import { Status } from '../Status';
 import { StatusSettings } from './StatusSettings';
+import { UrgencySettings } from './UrgencySettings';
 import { Feature } from './Feature';
 import type { FeatureFlag } from './Feature';
 
@@ -12,20 +13,48 @@ export type HeadingState = {
     [id: string]: boolean;
 };
 
+/**
+ * A query saved in settings, for `include <name>` to insert into the queries of Tasks code blocks.
+ */
+export interface SavedQuery {
+    name: string;
+    query: string;
+}
+
 export interface Settings {
     globalFilter: string;
     removeGlobalFilter: boolean;
     setDoneDate: boolean;
+    setCreatedDate: boolean;
+    setCancelledDate: boolean;
+    recurCancelledTasks: boolean;
+    propagateCompletion: boolean;
+    // The note that 'Archive completed tasks' moves tasks to.
+    archiveFile: string;
+    // Tasks done more than this many days ago are archived.
+    archiveAfterDays: number;
+    archiveAutomatically: boolean;
     autoSuggestInEditor: boolean;
     autoSuggestMinMatch: number;
     autoSuggestMaxItems: number;
     provideAccessKeys: boolean;
     useFilenameAsScheduledDate: boolean;
     filenameAsDateFolders: string[];
+    // ISO days of the week, from 1 for Monday to 7 for Sunday.
+    workingDays: number[];
+    // Dates in YYYY-MM-DD format.
+    holidays: string[];
+    moveRecurringDueDatesToWorkingDays: boolean;
+
+    // The queries that can be included in Tasks code blocks, by name.
+    savedQueries: SavedQuery[];
 
     // The custom status states.
     statusSettings: StatusSettings;
 
+    // The coefficients of the urgency formula.
+    urgencySettings: UrgencySettings;
+
     // Collection of feature flag IDs and their state.
     features: FeatureFlag;
 
@@ -41,13 +70,25 @@ const defaultSettings: Settings = {
     globalFilter: '',
     removeGlobalFilter: false,
     setDoneDate: true,
+    setCreatedDate: false,
+    setCancelledDate: false,
+    recurCancelledTasks: false,
+    propagateCompletion: false,
+    archiveFile: 'Archive.md',
+    archiveAfterDays: 7,
+    archiveAutomatically: false,
     autoSuggestInEditor: true,
     autoSuggestMinMatch: 0,
     autoSuggestMaxItems: 6,
     provideAccessKeys: true,
     useFilenameAsScheduledDate: false,
     filenameAsDateFolders: [],
+    workingDays: [1, 2, 3, 4, 5],
+    holidays: [],
+    moveRecurringDueDatesToWorkingDays: false,
+    savedQueries: [],
     statusSettings: new StatusSettings(),
+    urgencySettings: new UrgencySettings(),
     features: Feature.settingsFlags,
     generalSettings: {
         /* Prevent duplicate values in user settings for now,
@@ -79,6 +120,9 @@ export const getSettings = (): Settings => {
         }
     }
 
+    // In case saves pre-dated some of the urgency coefficients.
+    settings.urgencySettings = { ...new UrgencySettings(), ...settings.urgencySettings };
+
     // In case saves pre-dated StatusConfiguration.type
     // TODO Special case for symbol 'X' or 'x' (just in case)
     settings.statusSettings.customStatuses.forEach((s, index, array) => {
@@ -4,10 +4,13 @@ import type TasksPlugin from '../main';
 import { StatusRegistry } from '../StatusRegistry';
 import { Status } from '../Status';
 import type { StatusCollection } from '../StatusCollection';
+import { BusinessDays } from '../BusinessDays';
+import { Urgency } from '../Urgency';
 import * as Themes from './Themes';
-import type { HeadingState } from './Settings';
+import type { HeadingState, SavedQuery } from './Settings';
 import { getSettings, isFeatureEnabled, updateGeneralSetting, updateSettings } from './Settings';
 import { StatusSettings } from './StatusSettings';
+import { UrgencySettings } from './UrgencySettings';
 import settingsJson from './settingsConfiguration.json';
 
 import { CustomStatusModal } from './CustomStatusModal';
@@ -125,6 +128,45 @@ export class SettingsTab extends PluginSettingTab {
                 });
             });
 
+        new Setting(containerEl)
+            .setName('Set created date on every added task')
+            .setDesc(
+                'Enabling this will add a timestamp ➕ YYYY-MM-DD when a task is added with the "Create or edit task" command',
+            )
+            .addToggle((toggle) => {
+                const settings = getSettings();
+                toggle.setValue(settings.setCreatedDate).onChange(async (value) => {
+                    updateSettings({ setCreatedDate: value });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Set cancelled date on every cancelled task')
+            .setDesc(
+                'Enabling this will add a timestamp ❌ YYYY-MM-DD at the end when a task is moved to a status of type CANCELLED',
+            )
+            .addToggle((toggle) => {
+                const settings = getSettings();
+                toggle.setValue(settings.setCancelledDate).onChange(async (value) => {
+                    updateSettings({ setCancelledDate: value });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Create the next occurrence of cancelled recurring tasks')
+            .setDesc(
+                'Enabling this will add the next occurrence of a recurring task when it is cancelled, as when it is completed. Otherwise cancelling a recurring task ends the recurrence.',
+            )
+            .addToggle((toggle) => {
+                const settings = getSettings();
+                toggle.setValue(settings.recurCancelledTasks).onChange(async (value) => {
+                    updateSettings({ recurCancelledTasks: value });
+                    await this.plugin.saveSettings();
+                });
+            });
+
         new Setting(containerEl)
             .setName('Use filename as Scheduled date for undated tasks')
             .setDesc(
@@ -161,6 +203,228 @@ export class SettingsTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName('Working days')
+            .setDesc(
+                'The days of the week that count as business days, for dates such as "in 3 business days" and recurrence rules such as "every 2 business days". Enter a comma-separated list, such as: Mon, Tue, Wed, Thu, Fri',
+            )
+            .addText((input) => {
+                const settings = getSettings();
+                input.setValue(BusinessDays.renderWorkingDays(settings.workingDays)).onChange(async (value) => {
+                    updateSettings({ workingDays: BusinessDays.parseWorkingDays(value) });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Holidays')
+            .setDesc(
+                'Dates that are not business days, even if they are working days. Enter a comma-separated list of dates in YYYY-MM-DD format.',
+            )
+            .addText((input) => {
+                const settings = getSettings();
+                input
+                    .setPlaceholder('e.g. 2026-12-25, 2027-01-01')
+                    .setValue(BusinessDays.renderHolidays(settings.holidays))
+                    .onChange(async (value) => {
+                        updateSettings({ holidays: BusinessDays.parseHolidays(value) });
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Move due dates of recurring tasks to business days')
+            .setDesc(
+                'Enabling this will move the due date of the next occurrence of a recurring task to the next business day, if it would otherwise fall on a weekend or holiday.',
+            )
+            .addToggle((toggle) => {
+                const settings = getSettings();
+                toggle.setValue(settings.moveRecurringDueDatesToWorkingDays).onChange(async (value) => {
+                    updateSettings({ moveRecurringDueDatesToWorkingDays: value });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        // ---------------------------------------------------------------------------
+        containerEl.createEl('h4', { text: 'Subtask Settings' });
+        // ---------------------------------------------------------------------------
+
+        new Setting(containerEl)
+            .setName('Complete subtasks and parent tasks together')
+            .setDesc(
+                'Enabling this will complete all the open subtasks of a task when its checkbox is clicked to complete it, and offer to complete the parent task when its last open subtask is completed. Applies to checkboxes in Reading mode and in query results.',
+            )
+            .addToggle((toggle) => {
+                const settings = getSettings();
+                toggle.setValue(settings.propagateCompletion).onChange(async (value) => {
+                    updateSettings({ propagateCompletion: value });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        // ---------------------------------------------------------------------------
+        containerEl.createEl('h4', { text: 'Archive Settings' });
+        // ---------------------------------------------------------------------------
+
+        new Setting(containerEl)
+            .setName('Archive note')
+            .setDesc(
+                'The note that the "Archive completed tasks" command moves tasks to, under a heading with the date they were archived. It is created if it does not exist.',
+            )
+            .addText((input) => {
+                const settings = getSettings();
+                input
+                    .setPlaceholder('Archive.md')
+                    .setValue(settings.archiveFile)
+                    .onChange(async (value) => {
+                        if (value.trim() === '') {
+                            return;
+                        }
+                        updateSettings({ archiveFile: value.trim() });
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Archive tasks done more than this many days ago')
+            .setDesc('Enter 0 to archive every task done before today.')
+            .addText((input) => {
+                const settings = getSettings();
+                input.setValue(settings.archiveAfterDays.toString()).onChange(async (value) => {
+                    const days = Number.parseInt(value, 10);
+                    if (Number.isNaN(days) || days < 0) {
+                        return;
+                    }
+                    updateSettings({ archiveAfterDays: days });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Archive completed tasks automatically')
+            .setDesc(
+                'Enabling this will archive completed tasks when the vault changes, at most once an hour, as the "Archive completed tasks" command does.',
+            )
+            .addToggle((toggle) => {
+                const settings = getSettings();
+                toggle.setValue(settings.archiveAutomatically).onChange(async (value) => {
+                    updateSettings({ archiveAutomatically: value });
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        // ---------------------------------------------------------------------------
+        containerEl.createEl('h4', { text: 'Urgency Settings' });
+        // ---------------------------------------------------------------------------
+
+        containerEl.createEl('p', {
+            cls: 'setting-item-description',
+            text: 'The numbers that are added up to calculate the urgency of each task, for "sort by urgency" and "show urgency". Use 0 to ignore a property.',
+        });
+
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Due date',
+            'Multiplied by 1.0 for tasks overdue by a week or more, falling to 0.2 for tasks due in two weeks or more.',
+            (urgencySettings) => urgencySettings.dueCoefficient,
+            (urgencySettings, value) => (urgencySettings.dueCoefficient = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Scheduled date',
+            'Added for tasks scheduled today or earlier.',
+            (urgencySettings) => urgencySettings.scheduledCoefficient,
+            (urgencySettings, value) => (urgencySettings.scheduledCoefficient = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Start date',
+            'Added for tasks that start after today.',
+            (urgencySettings) => urgencySettings.startedCoefficient,
+            (urgencySettings, value) => (urgencySettings.startedCoefficient = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Priority',
+            "Multiplied by the weight for the task's priority, below.",
+            (urgencySettings) => urgencySettings.priorityCoefficient,
+            (urgencySettings, value) => (urgencySettings.priorityCoefficient = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'High priority weight',
+            '',
+            (urgencySettings) => urgencySettings.highPriorityWeight,
+            (urgencySettings, value) => (urgencySettings.highPriorityWeight = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Medium priority weight',
+            '',
+            (urgencySettings) => urgencySettings.mediumPriorityWeight,
+            (urgencySettings, value) => (urgencySettings.mediumPriorityWeight = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'No priority weight',
+            '',
+            (urgencySettings) => urgencySettings.nonePriorityWeight,
+            (urgencySettings, value) => (urgencySettings.nonePriorityWeight = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Low priority weight',
+            '',
+            (urgencySettings) => urgencySettings.lowPriorityWeight,
+            (urgencySettings, value) => (urgencySettings.lowPriorityWeight = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Estimated time',
+            'Added for each hour of the estimated time to complete. Use a negative number to put quick tasks first.',
+            (urgencySettings) => urgencySettings.estimatedTimeCoefficient,
+            (urgencySettings, value) => (urgencySettings.estimatedTimeCoefficient = value),
+        );
+        this.addUrgencyCoefficientSetting(
+            containerEl,
+            'Age',
+            'Multiplied by the time since the created date, from 0.0 for tasks created today to 1.0 for tasks created a year or more ago.',
+            (urgencySettings) => urgencySettings.ageCoefficient,
+            (urgencySettings, value) => (urgencySettings.ageCoefficient = value),
+        );
+
+        new Setting(containerEl)
+            .setName('Tags')
+            .setDesc('A comma-separated list of tags and the number to add for each, such as: #urgent: 4, #someday: -2')
+            .addText((input) => {
+                const { urgencySettings } = getSettings();
+                input
+                    .setValue(UrgencySettings.renderTagCoefficients(urgencySettings.tagCoefficients))
+                    .onChange(async (value) => {
+                        const { urgencySettings } = getSettings();
+                        urgencySettings.tagCoefficients = UrgencySettings.parseTagCoefficients(value);
+                        updateSettings({ urgencySettings });
+                        Urgency.recalculateAll();
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        for (const status of StatusRegistry.getInstance().registeredStatuses) {
+            this.addUrgencyCoefficientSetting(
+                containerEl,
+                `Status: ${status.name} [${status.symbol}]`,
+                '',
+                (urgencySettings) => urgencySettings.statusCoefficients[status.symbol] ?? 0,
+                (urgencySettings, value) => {
+                    if (value === 0) {
+                        delete urgencySettings.statusCoefficients[status.symbol];
+                    } else {
+                        urgencySettings.statusCoefficients[status.symbol] = value;
+                    }
+                },
+            );
+        }
+
         // ---------------------------------------------------------------------------
         containerEl.createEl('h4', { text: 'Auto-suggest Settings' });
         // ---------------------------------------------------------------------------
@@ -229,6 +493,102 @@ export class SettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 });
             });
+
+        // ---------------------------------------------------------------------------
+        containerEl.createEl('h4', { text: 'Saved Queries' });
+        // ---------------------------------------------------------------------------
+
+        containerEl.createEl('p', {
+            cls: 'setting-item-description',
+            text:
+                'Queries that can be reused in any Tasks code block, with the instruction "include" followed by the name of the query. ' +
+                'The lines of the saved query are inserted in place of the "include" line.',
+        });
+
+        this.insertSavedQueriesSettings(containerEl);
+    }
+
+    private insertSavedQueriesSettings(containerEl: HTMLElement) {
+        const { savedQueries } = getSettings();
+
+        const updateSavedQuery = async (index: number, change: Partial<SavedQuery>) => {
+            const savedQueries = [...getSettings().savedQueries];
+            savedQueries[index] = { ...savedQueries[index], ...change };
+            updateSettings({ savedQueries });
+            await this.plugin.saveSettings();
+        };
+
+        savedQueries.forEach((savedQuery, index) => {
+            new Setting(containerEl)
+                .addText((input) => {
+                    input
+                        .setPlaceholder('Name')
+                        .setValue(savedQuery.name)
+                        .onChange(async (name) => {
+                            await updateSavedQuery(index, { name: name.trim() });
+                        });
+                })
+                .addTextArea((text) => {
+                    text.setPlaceholder('not done\ndue before tomorrow')
+                        .setValue(savedQuery.query)
+                        .onChange(async (query) => {
+                            await updateSavedQuery(index, { query });
+                        });
+                    text.inputEl.rows = 4;
+                    text.inputEl.cols = 40;
+                })
+                .addExtraButton((extra) => {
+                    extra
+                        .setIcon('cross')
+                        .setTooltip('Delete')
+                        .onClick(async () => {
+                            const savedQueries = getSettings().savedQueries.filter((_, i) => i !== index);
+                            updateSettings({ savedQueries });
+                            await this.saveSettings(true);
+                        });
+                })
+                .infoEl.remove();
+        });
+
+        const setting = new Setting(containerEl).addButton((button) => {
+            button
+                .setButtonText('Add Saved Query')
+                .setCta()
+                .onClick(async () => {
+                    const savedQueries = [...getSettings().savedQueries, { name: '', query: '' }];
+                    updateSettings({ savedQueries });
+                    await this.saveSettings(true);
+                });
+        });
+        setting.infoEl.remove();
+    }
+
+    /**
+     * Add a text box for one number in {@link UrgencySettings}, which is saved when it holds a valid number.
+     */
+    private addUrgencyCoefficientSetting(
+        containerEl: HTMLElement,
+        name: string,
+        description: string,
+        getValue: (urgencySettings: UrgencySettings) => number,
+        setValue: (urgencySettings: UrgencySettings, value: number) => void,
+    ) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(description)
+            .addText((input) => {
+                input.setValue(getValue(getSettings().urgencySettings).toString()).onChange(async (text) => {
+                    const value = Number.parseFloat(text);
+                    if (Number.isNaN(value)) {
+                        return;
+                    }
+                    const { urgencySettings } = getSettings();
+                    setValue(urgencySettings, value);
+                    updateSettings({ urgencySettings });
+                    Urgency.recalculateAll();
+                    await this.plugin.saveSettings();
+                });
+            });
     }
 
     private addOneSettingsBlock(containerEl: HTMLElement, heading: any, headingOpened: HeadingState) {
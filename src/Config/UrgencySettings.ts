@@ -0,0 +1,57 @@
+/**
+ * Class for encapsulating the settings that control how {@link Urgency} is calculated.
+ *
+ * The defaults reproduce Tasks' original, Taskwarrior-style, urgency scores.
+ * Terms whose coefficient is 0 make no contribution.
+ *
+ * @see Urgency
+ */
+export class UrgencySettings {
+    dueCoefficient: number = 12.0;
+    scheduledCoefficient: number = 5.0;
+    startedCoefficient: number = -3.0;
+    priorityCoefficient: number = 6.0;
+
+    // The fraction of priorityCoefficient added for each priority.
+    highPriorityWeight: number = 1.0;
+    mediumPriorityWeight: number = 0.65;
+    nonePriorityWeight: number = 0.325;
+    lowPriorityWeight: number = 0.0;
+
+    // Added for each hour of the estimated time to complete.
+    estimatedTimeCoefficient: number = 0.0;
+
+    // Multiplied by the task's age since its created date, from 0.0 when created to 1.0 after a year.
+    ageCoefficient: number = 0.0;
+
+    // Added for each tag a task has, keyed by tag including the '#', such as '#urgent'.
+    tagCoefficients: { [tag: string]: number } = {};
+
+    // Added for a task's status, keyed by status symbol.
+    statusCoefficients: { [symbol: string]: number } = {};
+
+    /**
+     * Parse text such as `#urgent: 4, #someday: -2` into coefficients by tag.
+     *
+     * Entries that are not a tag followed by a number are ignored.
+     */
+    public static parseTagCoefficients(input: string): { [tag: string]: number } {
+        const coefficients: { [tag: string]: number } = {};
+        for (const entry of input.split(',')) {
+            const match = entry.trim().match(/^(#[^\s:,]+)\s*:\s*(-?\d+(?:\.\d+)?)$/);
+            if (match !== null) {
+                coefficients[match[1]] = Number.parseFloat(match[2]);
+            }
+        }
+        return coefficients;
+    }
+
+    /**
+     * The inverse of {@link parseTagCoefficients}.
+     */
+    public static renderTagCoefficients(coefficients: { [tag: string]: number }): string {
+        return Object.entries(coefficients)
+            .map(([tag, coefficient]) => `${tag}: ${coefficient}`)
+            .join(', ');
+    }
+}
@@ -18,12 +18,22 @@ export const initializeFile = ({
     vault = newVault;
 };
 
+/**
+ * A task to replace, and the tasks to write in its place.
+ */
+export interface TaskReplacement {
+    originalTask: Task;
+    newTasks: Task[];
+}
+
 /**
  * Replaces the original task with one or more new tasks.
  *
  * If you pass more than one replacement task, all subsequent tasks in the same
  * section must be re-rendered, as their section indexes change. Assuming that
  * this is done faster than user interaction in practice.
+ *
+ * @returns Whether the file was written, which it is not if the original task could not be found in it.
  */
 export const replaceTaskWithTasks = async ({
     originalTask,
@@ -31,70 +41,108 @@ export const replaceTaskWithTasks = async ({
 }: {
     originalTask: Task;
     newTasks: Task | Task[];
-}): Promise<void> => {
+}): Promise<boolean> => {
+    if (!Array.isArray(newTasks)) {
+        newTasks = [newTasks];
+    }
+
+    return replaceTasksWithTasks([{ originalTask, newTasks }]);
+};
+
+/**
+ * Make several replacements in a file with a single write, so that either all or none of them are made.
+ *
+ * All the original tasks must be in the same file, and are located before any of the replacements are made.
+ *
+ * @returns Whether the file was written, which it is not if any of the original tasks could not be found in it.
+ */
+export const replaceTasksWithTasks = async (replacements: TaskReplacement[]): Promise<boolean> => {
     if (vault === undefined || metadataCache === undefined) {
         console.error('Tasks: cannot use File before initializing it.');
-        return;
+        return false;
     }
 
-    if (!Array.isArray(newTasks)) {
-        newTasks = [newTasks];
+    if (replacements.length === 0) {
+        return true;
     }
 
-    tryRepetitive({
-        originalTask,
-        newTasks,
+    const path = replacements[0].originalTask.path;
+    if (replacements.some(({ originalTask }) => originalTask.path !== path)) {
+        console.error('Tasks: cannot replace tasks in more than one file at once.');
+        return false;
+    }
+
+    return tryRepetitive({
+        replacements,
         vault,
         metadataCache,
         previousTries: 0,
     });
 };
 
+/**
+ * Make replacements in any number of files, with a single write to each file,
+ * so that each file's changes can be undone together.
+ *
+ * @returns The replacements made. Those in files that could not be written are left out.
+ */
+export const replaceTasksInEachFile = async (replacements: TaskReplacement[]): Promise<TaskReplacement[]> => {
+    const replacementsByPath = new Map<string, TaskReplacement[]>();
+    for (const replacement of replacements) {
+        const path = replacement.originalTask.path;
+        replacementsByPath.set(path, [...(replacementsByPath.get(path) ?? []), replacement]);
+    }
+
+    const made: TaskReplacement[] = [];
+    for (const replacementsInFile of replacementsByPath.values()) {
+        if (await replaceTasksWithTasks(replacementsInFile)) {
+            made.push(...replacementsInFile);
+        }
+    }
+    return made;
+};
+
 /**
  * This is a workaround to re-try when the returned file cache is `undefined`.
  * Retrying after a while may return a valid file cache.
  * Reported in https://github.com/obsidian-tasks-group/obsidian-tasks/issues/87
  */
 const tryRepetitive = async ({
-    originalTask,
-    newTasks,
+    replacements,
     vault,
     metadataCache,
     previousTries,
 }: {
-    originalTask: Task;
-    newTasks: Task[];
+    replacements: TaskReplacement[];
     vault: Vault;
     metadataCache: MetadataCache;
     previousTries: number;
-}): Promise<void> => {
-    const retry = () => {
+}): Promise<boolean> => {
+    const retry = async (): Promise<boolean> => {
         if (previousTries > 10) {
             console.error('Tasks: Too many retries. File update not possible ...');
-            return;
+            return false;
         }
 
         const timeout = Math.min(Math.pow(10, previousTries), 100); // 1, 10, 100, 100, 100, ...
-        setTimeout(() => {
-            tryRepetitive({
-                originalTask,
-                newTasks,
-                vault,
-                metadataCache,
-                previousTries: previousTries + 1,
-            });
-        }, timeout);
+        await new Promise((resolve) => setTimeout(resolve, timeout));
+        return tryRepetitive({
+            replacements,
+            vault,
+            metadataCache,
+            previousTries: previousTries + 1,
+        });
     };
 
-    const file = vault.getAbstractFileByPath(originalTask.path);
+    const file = vault.getAbstractFileByPath(replacements[0].originalTask.path);
     if (!(file instanceof TFile)) {
-        console.warn(`Tasks: No file found for task ${originalTask.description}. Retrying ...`);
+        console.warn(`Tasks: No file found for task ${replacements[0].originalTask.description}. Retrying ...`);
         return retry();
     }
 
     if (file.extension !== 'md') {
         console.error('Tasks: Only supporting files with the .md file extension.');
-        return;
+        return false;
     }
 
     const fileCache = metadataCache.getFileCache(file);
@@ -112,8 +160,46 @@ const tryRepetitive = async ({
     const fileContent = await vault.read(file);
     const fileLines = fileContent.split('\n');
 
+    const lineNumbers: number[] = [];
+    for (const { originalTask } of replacements) {
+        const listItem = findListItem(originalTask, listItemsCache, fileLines);
+        if (listItem === undefined) {
+            console.error(
+                `Tasks: could not find task '${originalTask.description}' in ${originalTask.path}, or its line has changed.`,
+            );
+            return false;
+        }
+        lineNumbers.push(listItem.position.start.line);
+    }
+
+    // Replace from the bottom of the file up, so that tasks added by each replacement
+    // do not move the lines still to be replaced.
+    const updatedFileLines = [...fileLines];
+    const order = replacements.map((_, index) => index).sort((a, b) => lineNumbers[b] - lineNumbers[a]);
+    for (const index of order) {
+        updatedFileLines.splice(
+            lineNumbers[index],
+            1, // Only supports single-line tasks.
+            ...replacements[index].newTasks.map((task: Task) => task.toFileLineString()),
+        );
+    }
+
+    await vault.modify(file, updatedFileLines.join('\n'));
+    return true;
+};
+
+/**
+ * Find the list item of a task, by counting the tasks from the start of its section.
+ *
+ * The line found must still be the task's line, as the file may have changed since the task was read from it,
+ * and replacing a different line would lose it.
+ */
+const findListItem = (
+    originalTask: Task,
+    listItemsCache: ListItemCache[],
+    fileLines: string[],
+): ListItemCache | undefined => {
     const { globalFilter } = getSettings();
-    let listItem: ListItemCache | undefined;
     let sectionIndex = 0;
     for (const listItemCache of listItemsCache) {
         if (listItemCache.position.start.line < originalTask.sectionStart) {
@@ -128,23 +214,11 @@ const tryRepetitive = async ({
 
         if (line.includes(globalFilter)) {
             if (sectionIndex === originalTask.sectionIndex) {
-                listItem = listItemCache;
-                break;
+                return line === originalTask.originalMarkdown ? listItemCache : undefined;
             }
 
             sectionIndex++;
         }
     }
-    if (listItem === undefined) {
-        console.error('Tasks: could not find task to toggle in the file.');
-        return;
-    }
-
-    const updatedFileLines = [
-        ...fileLines.slice(0, listItem.position.start.line),
-        ...newTasks.map((task: Task) => task.toFileLineString()),
-        ...fileLines.slice(listItem.position.start.line + 1), // Only supports single-line tasks.
-    ];
-
-    await vault.modify(file, updatedFileLines.join('\n'));
+    return undefined;
 };
@@ -48,6 +48,15 @@ export interface IQuery {
      */
     layoutOptions: LayoutOptions;
 
+    /**
+     * Whether the results of the query can change during the day, and not just at midnight,
+     * so that the query needs to be re-run every few minutes.
+     *
+     * @type {boolean}
+     * @memberof IQuery
+     */
+    dependsOnTimeOfDay: boolean;
+
     /**
      * Main method for executing the query. This will be called by the
      * code block processor registered in Obsidian. It takes the Task collection
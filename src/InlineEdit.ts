@@ -0,0 +1,64 @@
+import { DateParser } from './Query/DateParser';
+import { Priority, Task, TaskRegularExpressions } from './Task';
+
+/**
+ * The dates that can be edited by clicking them in query results.
+ */
+export type InlineEditableDate = 'startDate' | 'scheduledDate' | 'dueDate';
+
+const timeFields = {
+    startDate: 'startTime',
+    scheduledDate: 'scheduledTime',
+    dueDate: 'dueTime',
+} as const;
+
+/**
+ * The changes made by clicking the priority and dates of tasks in query results,
+ * without opening the edit task modal.
+ */
+export class InlineEdit {
+    /**
+     * The priorities that clicking the priority steps through, in order, returning to the first after the last.
+     */
+    public static readonly priorityCycle: Priority[] = [Priority.Low, Priority.Medium, Priority.High, Priority.None];
+
+    /**
+     * Move the task to the next priority in {@link priorityCycle}.
+     */
+    public static cyclePriority(task: Task): Task {
+        const index = InlineEdit.priorityCycle.indexOf(task.priority);
+        const priority = InlineEdit.priorityCycle[(index + 1) % InlineEdit.priorityCycle.length];
+        return new Task({ ...task, priority });
+    }
+
+    /**
+     * Set one of the task's dates from typed text, read as in the edit task modal:
+     * 'tomorrow', 'next friday', '2023-07-21' or 'friday at 9am', for example.
+     *
+     * The date's time of day is kept, unless the text gives a new one.
+     * Empty text removes the date.
+     *
+     * @return The updated task, or null if the text is not a date.
+     */
+    public static setDate(task: Task, field: InlineEditableDate, text: string): Task | null {
+        const timeField = timeFields[field];
+        if (text.trim() === '') {
+            return new Task({ ...task, [field]: null, [timeField]: null });
+        }
+
+        const dateTime = DateParser.parseDateTime(text, true);
+        if (dateTime !== null) {
+            return new Task({
+                ...task,
+                [field]: dateTime.clone().startOf('day'),
+                [timeField]: dateTime.format(TaskRegularExpressions.timeOfDayFormat),
+            });
+        }
+
+        const date = DateParser.parseDate(text, true);
+        if (!date.isValid()) {
+            return null;
+        }
+        return new Task({ ...task, [field]: date, [timeField]: task[timeField] });
+    }
+}
@@ -2,9 +2,13 @@ import { getSettings } from 'Config/Settings';
 
 import type { MarkdownPostProcessorContext, Plugin } from 'obsidian';
 import { Task } from './Task';
+import { TaskHierarchy } from './TaskHierarchy';
 
 export class InlineRenderer {
+    private readonly plugin: Plugin;
+
     constructor({ plugin }: { plugin: Plugin }) {
+        this.plugin = plugin;
         plugin.registerMarkdownPostProcessor(this._markdownPostProcessor.bind(this));
     }
 
@@ -56,6 +60,7 @@ export class InlineRenderer {
 
         let sectionIndex = 0;
         const fileTasks: Task[] = [];
+        const tasksByLineNumber = new Map<number, Task>();
         for (let lineNumber = section.lineStart; lineNumber <= section.lineEnd; lineNumber++) {
             const line = fileLines[lineNumber];
             if (line === undefined) {
@@ -74,10 +79,17 @@ export class InlineRenderer {
             });
             if (task !== null) {
                 fileTasks.push(task);
+                tasksByLineNumber.set(lineNumber, task);
                 sectionIndex++;
             }
         }
 
+        // Link subtasks, so that completing a task from its checkbox can complete its subtasks too.
+        const listItems = this.plugin.app.metadataCache.getCache(path)?.listItems;
+        if (listItems !== undefined) {
+            TaskHierarchy.link(tasksByLineNumber, listItems);
+        }
+
         // The section index is the nth task within this section.
         for (let sectionIndex = 0; sectionIndex < renderedElements.length; sectionIndex++) {
             const task = fileTasks[sectionIndex];
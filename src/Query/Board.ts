@@ -0,0 +1,56 @@
+import type { Status } from '../Status';
+import type { StatusRegistry } from '../StatusRegistry';
+import type { Task } from '../Task';
+import type { TaskGroups } from './TaskGroups';
+
+/**
+ * One column of a {@link Board}.
+ */
+export class BoardColumn {
+    public readonly title: string;
+    public readonly status: Status | null; // the status of the tasks in the column, or null if the column is a group.
+    public readonly tasks: Task[];
+
+    constructor(title: string, status: Status | null, tasks: Task[]) {
+        this.title = title;
+        this.status = status;
+        this.tasks = tasks;
+    }
+}
+
+/**
+ * Arrange tasks in columns, for the `layout board` instruction.
+ */
+export class Board {
+    /**
+     * Make one column for each registered status, in the order they are registered,
+     * followed by a column for each unregistered status used by the tasks.
+     *
+     * @param tasks - the tasks to arrange. Tasks keep their relative order within each column.
+     * @param statusRegistry - the registry whose statuses are the columns.
+     */
+    public static columnsByStatus(tasks: Task[], statusRegistry: StatusRegistry): BoardColumn[] {
+        const statuses = [
+            ...statusRegistry.registeredStatuses,
+            ...statusRegistry.findUnknownStatuses(tasks.map((task) => task.status)),
+        ];
+        return statuses.map(
+            (status) =>
+                new BoardColumn(
+                    status.name,
+                    status,
+                    tasks.filter((task) => task.status.symbol === status.symbol),
+                ),
+        );
+    }
+
+    /**
+     * Make one column for each group of the query results, titled by the names of its groups.
+     *
+     * Tasks cannot be dragged between these columns, as there is no general way to change
+     * a task so that it moves to another group.
+     */
+    public static columnsByGroup(taskGroups: TaskGroups): BoardColumn[] {
+        return taskGroups.groups.map((group) => new BoardColumn(group.groups.join(' > '), null, group.tasks));
+    }
+}
@@ -0,0 +1,109 @@
+import type { Moment } from 'moment';
+import type { Task } from '../Task';
+import type { CalendarDateField, CalendarPeriod } from '../TaskLayout';
+import { HappensDateField } from './Filter/HappensDateField';
+
+/**
+ * One cell of a {@link Calendar}.
+ */
+export class CalendarDay {
+    public readonly date: Moment;
+    public readonly isInPeriod: boolean; // false for the days of adjacent months that fill the first and last weeks of a month.
+    public readonly tasks: Task[];
+
+    constructor(date: Moment, isInPeriod: boolean, tasks: Task[]) {
+        this.date = date;
+        this.isInPeriod = isInPeriod;
+        this.tasks = tasks;
+    }
+}
+
+/**
+ * Arrange tasks on a grid of days, for the `layout calendar` instruction.
+ *
+ * Weeks start on the first day of the week of the current moment locale, so the grid
+ * matches the user's Obsidian language settings.
+ */
+export class Calendar {
+    public readonly period: CalendarPeriod;
+    public readonly dateField: CalendarDateField;
+    public readonly start: Moment; // the first day of the month or week shown.
+    public readonly weeks: CalendarDay[][];
+    public readonly undatedTasks: Task[]; // tasks without the date used to place them.
+
+    /**
+     * @param tasks - the tasks to place. Tasks keep their relative order within each day.
+     * @param period - whether to show a month or a week.
+     * @param dateField - which date places each task.
+     * @param date - any day in the month or week to show.
+     */
+    constructor(tasks: Task[], period: CalendarPeriod, dateField: CalendarDateField, date: Moment) {
+        this.period = period;
+        this.dateField = dateField;
+        this.start = date.clone().startOf(period === 'month' ? 'month' : 'week');
+        const end = this.start.clone().endOf(period === 'month' ? 'month' : 'week');
+
+        const tasksByDay = new Map<string, Task[]>();
+        this.undatedTasks = [];
+        for (const task of tasks) {
+            const taskDate = Calendar.dateOf(task, dateField);
+            if (taskDate === null || !taskDate.isValid()) {
+                this.undatedTasks.push(task);
+                continue;
+            }
+            const key = taskDate.format('YYYY-MM-DD');
+            const tasksOnDay = tasksByDay.get(key);
+            if (tasksOnDay === undefined) {
+                tasksByDay.set(key, [task]);
+            } else {
+                tasksOnDay.push(task);
+            }
+        }
+
+        this.weeks = [];
+        const day = this.start.clone().startOf('week');
+        const lastDay = end.clone().endOf('week');
+        while (day.isBefore(lastDay)) {
+            const week: CalendarDay[] = [];
+            for (let i = 0; i < 7; i++) {
+                const isInPeriod = day.isBetween(this.start, end, 'day', '[]');
+                week.push(new CalendarDay(day.clone(), isInPeriod, tasksByDay.get(day.format('YYYY-MM-DD')) ?? []));
+                day.add(1, 'day');
+            }
+            this.weeks.push(week);
+        }
+    }
+
+    /**
+     * The date that places a task on the calendar, or null if the task does not have it.
+     *
+     * 'happens' uses the earliest of the start, scheduled and due dates, as in 'sort by happens'.
+     */
+    public static dateOf(task: Task, dateField: CalendarDateField): Moment | null {
+        switch (dateField) {
+            case 'due':
+                return task.dueDate;
+            case 'scheduled':
+                return task.scheduledDate;
+            case 'happens':
+                return new HappensDateField().earliestDate(task);
+        }
+    }
+
+    /**
+     * The title shown above the grid, such as 'January 2023' or 'Week of 2023-01-15'.
+     */
+    public get title(): string {
+        if (this.period === 'month') {
+            return this.start.format('MMMM YYYY');
+        }
+        return `Week of ${this.start.format('YYYY-MM-DD')}`;
+    }
+
+    /**
+     * All the tasks placed on days within the month or week shown.
+     */
+    public get tasksInPeriod(): Task[] {
+        return this.weeks.flatMap((week) => week.filter((day) => day.isInPeriod).flatMap((day) => day.tasks));
+    }
+}
@@ -1,7 +1,23 @@
 import * as chrono from 'chrono-node';
+import { BusinessDays } from '../BusinessDays';
+import { DateRange } from './DateRange';
 
 export class DateParser {
+    /**
+     * Read a date, such as 'next friday' or '2023-07-14'.
+     *
+     * This also reads days counted in business days, which chrono does not know about:
+     * 'in 3 business days', '3 business days ago' and the same with 'working days'.
+     * See {@link BusinessDays}.
+     */
     public static parseDate(input: string, forwardDate: boolean = false): moment.Moment {
+        const businessDaysMatch = input.trim().match(/^(?:in )?(\d+) (?:business|working) days?( ago)?$/i);
+        if (businessDaysMatch !== null) {
+            const days = Number.parseInt(businessDaysMatch[1], 10);
+            const today = window.moment().startOf('day');
+            return BusinessDays.add(today, businessDaysMatch[2] === undefined ? days : -days);
+        }
+
         // Using start of day to correctly match on comparison with other dates (like equality).
         return window
             .moment(
@@ -11,4 +27,78 @@ export class DateParser {
             )
             .startOf('day');
     }
+
+    /**
+     * Read a range of dates, for date filters such as 'due this week'. This can be:
+     *
+     * - two dates, such as '2023-07-01 2023-07-31',
+     * - a whole week, month, quarter or year: 'this week', 'last month', 'next quarter' and so on,
+     * - a number of days up to and including today, such as 'in the last 14 days',
+     *   or from today onwards, such as 'in the next 7 days',
+     * - a date with a time of day, such as 'in 2 hours', as a range of one minute: see {@link parseDateTime},
+     * - or any single date understood by {@link parseDate}.
+     *
+     * Weeks start on the first day of the week of the current moment locale.
+     */
+    public static parseDateRange(input: string): DateRange {
+        const text = input.trim();
+
+        const twoDatesMatch = text.match(/^(\d{4}-\d{2}-\d{2}) +(\d{4}-\d{2}-\d{2})$/);
+        if (twoDatesMatch !== null) {
+            return new DateRange(DateParser.parseDate(twoDatesMatch[1]), DateParser.parseDate(twoDatesMatch[2]));
+        }
+
+        const periodMatch = text.match(/^(this|last|next) (week|month|quarter|year)$/i);
+        if (periodMatch !== null) {
+            const offset = { this: 0, last: -1, next: 1 }[periodMatch[1].toLowerCase() as 'this' | 'last' | 'next'];
+            const unit = periodMatch[2].toLowerCase() as 'week' | 'month' | 'quarter' | 'year';
+            const dayInPeriod = window.moment().add(offset, unit);
+            return new DateRange(dayInPeriod.clone().startOf(unit), dayInPeriod.clone().endOf(unit));
+        }
+
+        const daysMatch = text.match(/^in the (last|next) (\d+) days?$/i);
+        if (daysMatch !== null) {
+            const today = window.moment().startOf('day');
+            const days = Math.max(Number.parseInt(daysMatch[2], 10) - 1, 0);
+            return daysMatch[1].toLowerCase() === 'last'
+                ? new DateRange(today.clone().subtract(days, 'days'), today)
+                : new DateRange(today, today.clone().add(days, 'days'));
+        }
+
+        const dateTime = DateParser.parseDateTime(text);
+        if (dateTime !== null) {
+            return DateRange.fromDateTime(dateTime);
+        }
+
+        return DateRange.fromDate(DateParser.parseDate(text));
+    }
+
+    /**
+     * Read a date with a time of day, such as 'in 2 hours' or 'tomorrow at 5pm'.
+     *
+     * @return The date and time, to the minute, or null if the input does not give a time of day.
+     */
+    public static parseDateTime(input: string, forwardDate: boolean = false): moment.Moment | null {
+        const results = chrono.parse(input, undefined, { forwardDate: forwardDate });
+        if (results.length === 0 || !results[0].start.isCertain('hour')) {
+            return null;
+        }
+        return window.moment(results[0].start.date()).startOf('minute');
+    }
+
+    /**
+     * Find every date written in a piece of free text, such as 'next friday' in 'Send invoice next friday'.
+     *
+     * @return The dates, in the order they appear, each with the position and text it was read from.
+     */
+    public static parseDatesInText(
+        input: string,
+        forwardDate: boolean = false,
+    ): { index: number; text: string; date: moment.Moment }[] {
+        return chrono.parse(input, undefined, { forwardDate: forwardDate }).map((result) => ({
+            index: result.index,
+            text: result.text,
+            date: window.moment(result.start.date()).startOf('day'),
+        }));
+    }
 }
@@ -0,0 +1,49 @@
+import type { Moment } from 'moment';
+
+/**
+ * A range of whole days, from {@link start} to {@link end} inclusive, as searched for by date filters.
+ *
+ * A single date, such as 'today', is a range of one day.
+ * A date with a time of day, such as 'in 2 hours', is a range of one minute: see {@link hasTime}.
+ */
+export class DateRange {
+    public readonly start: Moment;
+    public readonly end: Moment;
+    /** Whether the range is of minutes rather than days, so is compared with the times of tasks' dates. */
+    public readonly hasTime: boolean;
+
+    /**
+     * @param start - the first day of the range. If after {@link end}, the two are swapped.
+     * @param end - the last day of the range.
+     * @param hasTime - whether to keep the times of start and end, to the minute.
+     */
+    constructor(start: Moment, end: Moment, hasTime: boolean = false) {
+        if (start.isAfter(end)) {
+            [start, end] = [end, start];
+        }
+        const unit = hasTime ? 'minute' : 'day';
+        this.start = start.clone().startOf(unit);
+        this.end = end.clone().startOf(unit);
+        this.hasTime = hasTime;
+    }
+
+    public static fromDate(date: Moment): DateRange {
+        return new DateRange(date, date);
+    }
+
+    public static fromDateTime(dateTime: Moment): DateRange {
+        return new DateRange(dateTime, dateTime, true);
+    }
+
+    public isValid(): boolean {
+        return this.start.isValid() && this.end.isValid();
+    }
+
+    public isSingleDay(): boolean {
+        return this.start.isSame(this.end);
+    }
+
+    public includes(date: Moment): boolean {
+        return date.isValid() && !date.isBefore(this.start) && !date.isAfter(this.end);
+    }
+}
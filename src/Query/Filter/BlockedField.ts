@@ -0,0 +1,38 @@
+import type { Task } from '../../Task';
+import type { GrouperFunction } from '../Grouper';
+import type { SearchInfo } from '../SearchInfo';
+import { FilterInstructionsBasedField } from './FilterInstructionsBasedField';
+
+/**
+ * Support 'blocked' searches, for tasks that depend on other tasks which are not yet done.
+ *
+ * A task is blocked if it is not done or cancelled, and at least one of the ids in its
+ * 'depends on' field belongs to a task that is not done or cancelled either.
+ *
+ * @see TaskDependencies
+ */
+export class BlockedField extends FilterInstructionsBasedField {
+    constructor() {
+        super();
+        this._filters.add('is blocked', (task, searchInfo) => searchInfo.dependencies.isBlocked(task));
+        this._filters.add('is not blocked', (task, searchInfo) => !searchInfo.dependencies.isBlocked(task));
+    }
+
+    public fieldName(): string {
+        return 'blocked';
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+    // Grouping
+    // -----------------------------------------------------------------------------------------------------------------
+
+    public supportsGrouping(): boolean {
+        return true;
+    }
+
+    public grouper(): GrouperFunction {
+        return (task: Task, searchInfo: SearchInfo) => {
+            return [searchInfo.dependencies.isBlocked(task) ? 'Blocked' : 'Not blocked'];
+        };
+    }
+}
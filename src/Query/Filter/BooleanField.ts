@@ -4,6 +4,7 @@ import type { PostfixExpression } from 'boon-js';
 import { parseFilter } from '../FilterParser';
 import type { Task } from '../../Task';
 import { Explanation } from '../Explain/Explanation';
+import type { SearchInfo } from '../SearchInfo';
 import { Field } from './Field';
 import { FilterOrErrorMessage } from './Filter';
 import { Filter } from './Filter';
@@ -94,11 +95,17 @@ export class BooleanField extends Field {
                 }
             }
             // Return the filter with filter function that can run the complete query
-            const filterFunction = (task: Task) => {
-                return this.filterTaskWithParsedQuery(task, postfixExpression);
+            const filterFunction = (task: Task, searchInfo: SearchInfo) => {
+                return this.filterTaskWithParsedQuery(task, postfixExpression, searchInfo);
             };
             const explanation = this.constructExplanation(postfixExpression);
-            result.filter = new Filter(line, filterFunction, explanation);
+            const dependsOnTimeOfDay = postfixExpression.some(
+                (token) =>
+                    token.name === 'IDENTIFIER' &&
+                    token.value !== undefined &&
+                    this.subFields[token.value.trim()]?.dependsOnTimeOfDay,
+            );
+            result.filter = new Filter(line, filterFunction, explanation, dependsOnTimeOfDay);
             return result;
         } catch (error) {
             const message = error instanceof Error ? error.message : 'unknown error type';
@@ -122,7 +129,11 @@ export class BooleanField extends Field {
      * See here how it works: http://www.btechsmartclass.com/data_structures/postfix-evaluation.html
      * Another reference: https://www.tutorialspoint.com/Evaluate-Postfix-Expression
      */
-    private filterTaskWithParsedQuery(task: Task, postfixExpression: PostfixExpression): boolean {
+    private filterTaskWithParsedQuery(
+        task: Task,
+        postfixExpression: PostfixExpression,
+        searchInfo: SearchInfo,
+    ): boolean {
         const toBool = (s: string | undefined) => {
             return s === 'true';
         };
@@ -137,7 +148,7 @@ export class BooleanField extends Field {
                 // task for each identifier that we find in the postfix expression.
                 if (token.value == null) throw Error('null token value'); // This should not happen
                 const filter = this.subFields[token.value.trim()];
-                const result = filter.filterFunction(task);
+                const result = filter.filterFunction(task, searchInfo);
                 booleanStack.push(toString(result));
             } else if (token.name === 'OPERATOR') {
                 // To evaluate an operator we need to pop the required number of items from the boolean stack,
@@ -0,0 +1,27 @@
+import type { Moment } from 'moment';
+import type { Task } from '../../Task';
+import { DateField } from './DateField';
+
+/**
+ * Support the 'cancelled' search instruction.
+ */
+export class CancelledDateField extends DateField {
+    private static readonly cancelledRegexp = /^cancelled (before|after|on)? ?(.*)/;
+
+    protected filterRegExp(): RegExp {
+        return CancelledDateField.cancelledRegexp;
+    }
+    public fieldName(): string {
+        return 'cancelled';
+    }
+    public date(task: Task): Moment | null {
+        return task.cancelledDate;
+    }
+    protected filterResultIfFieldMissing() {
+        return false;
+    }
+
+    public supportsGrouping(): boolean {
+        return true;
+    }
+}
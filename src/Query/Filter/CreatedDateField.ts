@@ -0,0 +1,27 @@
+import type { Moment } from 'moment';
+import type { Task } from '../../Task';
+import { DateField } from './DateField';
+
+/**
+ * Support the 'created' search instruction.
+ */
+export class CreatedDateField extends DateField {
+    private static readonly createdRegexp = /^created (before|after|on)? ?(.*)/;
+
+    protected filterRegExp(): RegExp {
+        return CreatedDateField.createdRegexp;
+    }
+    public fieldName(): string {
+        return 'created';
+    }
+    public date(task: Task): Moment | null {
+        return task.createdDate;
+    }
+    protected filterResultIfFieldMissing() {
+        return false;
+    }
+
+    public supportsGrouping(): boolean {
+        return true;
+    }
+}
@@ -1,8 +1,10 @@
 import type { Moment } from 'moment';
 import type { Task } from '../../Task';
 import { DateParser } from '../DateParser';
+import type { DateRange } from '../DateRange';
 import { Explanation } from '../Explain/Explanation';
 import type { Comparator } from '../Sorter';
+import type { GrouperFunction } from '../Grouper';
 import { compareByDate } from '../../lib/DateTools';
 import { Field } from './Field';
 import { Filter, FilterOrErrorMessage } from './Filter';
@@ -44,39 +46,23 @@ export abstract class DateField extends Field {
         const result = new FilterOrErrorMessage(line);
 
         const match = Field.getMatch(this.filterRegExp(), line);
-        let filterFunction;
         if (match !== null) {
-            const filterDate = DateParser.parseDate(match[2]);
-            if (!filterDate.isValid()) {
+            const filterDates = DateParser.parseDateRange(match[2]);
+            if (!filterDates.isValid()) {
                 result.error = 'do not understand ' + this.fieldName() + ' date';
             } else {
-                let relative;
-                if (match[1] === 'before') {
-                    filterFunction = (task: Task) => {
-                        const date = this.date(task);
-                        return date ? date.isBefore(filterDate) : this.filterResultIfFieldMissing();
-                    };
-                    relative = ' ' + match[1];
-                } else if (match[1] === 'after') {
-                    filterFunction = (task: Task) => {
-                        const date = this.date(task);
-                        return date ? date.isAfter(filterDate) : this.filterResultIfFieldMissing();
-                    };
-                    relative = ' ' + match[1];
-                } else {
-                    filterFunction = (task: Task) => {
-                        const date = this.date(task);
-                        return date ? date.isSame(filterDate) : this.filterResultIfFieldMissing();
-                    };
-                    relative = ' on';
-                }
+                const matchesDates = DateField.dateMatcher(match[1], filterDates);
+                const filterFunction = (task: Task) => {
+                    const date = filterDates.hasTime ? this.dateTime(task) : this.date(task);
+                    return date ? matchesDates(date) : this.filterResultIfFieldMissing();
+                };
                 const explanation = DateField.getExplanationString(
                     this.fieldName(),
-                    relative,
+                    match[1],
                     this.filterResultIfFieldMissing(),
-                    filterDate,
+                    filterDates,
                 );
-                result.filter = new Filter(line, filterFunction, new Explanation(explanation));
+                result.filter = new Filter(line, filterFunction, new Explanation(explanation), filterDates.hasTime);
             }
         } else {
             result.error = 'do not understand query filter (' + this.fieldName() + ' date)';
@@ -91,22 +77,62 @@ export abstract class DateField extends Field {
      */
     public abstract date(task: Task): Moment | null;
 
+    /**
+     * Return the task's value for this date field, at its time of day if it has one.
+     *
+     * This is used for sorting, and by filters with a time, such as 'due before in 2 hours'.
+     * Only start, scheduled and due dates have times.
+     * @param task - a Task object
+     * @public
+     */
+    public dateTime(task: Task): Moment | null {
+        return this.date(task);
+    }
+
+    /**
+     * Return a function that says whether a date satisfies a date-based filter.
+     * @param relationship - 'before', 'after', or 'on' or undefined, for any date in the range
+     * @param filterDates - the dates used in the filter
+     */
+    public static dateMatcher(relationship: string | undefined, filterDates: DateRange): (date: Moment) => boolean {
+        if (relationship === 'before') {
+            return (date: Moment) => date.isBefore(filterDates.start);
+        } else if (relationship === 'after') {
+            return (date: Moment) => date.isAfter(filterDates.end);
+        } else {
+            return (date: Moment) => filterDates.includes(date);
+        }
+    }
+
     /**
      * Construct a string used to explain a date-based filter
      * @param fieldName - for example, 'due'
-     * @param relationshipPrefixedWithSpace - for example ' before' or ''
+     * @param relationship - 'before', 'after', or 'on' or undefined, for any date in the range
      * @param filterResultIfFieldMissing - whether the search matches tasks without the requested date value
-     * @param filterDate - the date used in the filter
+     * @param filterDates - the dates used in the filter
      */
     public static getExplanationString(
         fieldName: string,
-        relationshipPrefixedWithSpace: string,
+        relationship: string | undefined,
         filterResultIfFieldMissing: boolean,
-        filterDate: moment.Moment,
+        filterDates: DateRange,
     ) {
-        // Example of formatted date: '2024-01-02 (Tuesday 2nd January 2024)'
-        const actualDate = filterDate.format('YYYY-MM-DD (dddd Do MMMM YYYY)');
-        let result = `${fieldName} date is${relationshipPrefixedWithSpace} ${actualDate}`;
+        // Example of formatted date: '2024-01-02 (Tuesday 2nd January 2024)', or '2024-01-02 15:30 (...)' with a time.
+        const dateFormat = filterDates.hasTime
+            ? 'YYYY-MM-DD HH:mm (dddd Do MMMM YYYY)'
+            : 'YYYY-MM-DD (dddd Do MMMM YYYY)';
+        const format = (date: Moment) => date.format(dateFormat);
+        let dates;
+        if (relationship === 'before') {
+            dates = `before ${format(filterDates.start)}`;
+        } else if (relationship === 'after') {
+            dates = `after ${format(filterDates.end)}`;
+        } else if (filterDates.isSingleDay()) {
+            dates = `on ${format(filterDates.start)}`;
+        } else {
+            dates = `between ${format(filterDates.start)} and ${format(filterDates.end)} inclusive`;
+        }
+        let result = `${fieldName} date is ${dates}`;
         if (filterResultIfFieldMissing) {
             result += ` OR no ${fieldName} date`;
         }
@@ -128,7 +154,22 @@ export abstract class DateField extends Field {
 
     public comparator(): Comparator {
         return (a: Task, b: Task) => {
-            return compareByDate(this.date(a), this.date(b));
+            return compareByDate(this.dateTime(a), this.dateTime(b));
+        };
+    }
+
+    /**
+     * Group by the date, with its week-day, such as '2023-07-13 Thursday', or 'No <field> date'.
+     *
+     * Each subclass that wants to use this will need to override {@link supportsGrouping} to return true.
+     */
+    public grouper(): GrouperFunction {
+        return (task: Task) => {
+            const date = this.date(task);
+            if (date === null) {
+                return [`No ${this.fieldName()} date`];
+            }
+            return [date.format('YYYY-MM-DD dddd')];
         };
     }
 }
@@ -17,6 +17,9 @@ export class DueDateField extends DateField {
     public date(task: Task): Moment | null {
         return task.dueDate;
     }
+    public dateTime(task: Task): Moment | null {
+        return task.dueDateTime;
+    }
     protected filterResultIfFieldMissing() {
         return false;
     }
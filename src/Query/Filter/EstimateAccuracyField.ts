@@ -0,0 +1,67 @@
+import type { Task } from '../../Task';
+import type { GrouperFunction } from '../Grouper';
+import { Field } from './Field';
+import { FilterOrErrorMessage } from './Filter';
+
+/**
+ * Support 'estimate accuracy' grouping, which compares a task's {@link Task.timeSpent}
+ * with its {@link Task.estimatedTimeToComplete}.
+ *
+ * Note: Searching by estimate accuracy is not yet implemented.
+ */
+export class EstimateAccuracyField extends Field {
+    /**
+     * How far the time spent may differ from the estimate, as a fraction of the estimate,
+     * for the task to still count as being on estimate.
+     */
+    public static readonly tolerance = 0.1;
+
+    canCreateFilterForLine(_line: string): boolean {
+        return false;
+    }
+
+    createFilterOrErrorMessage(line: string): FilterOrErrorMessage {
+        return FilterOrErrorMessage.fromError(line, 'Filtering by estimate accuracy is not yet supported');
+    }
+
+    fieldName(): string {
+        return 'estimate accuracy';
+    }
+
+    protected filterRegExp(): RegExp | null {
+        throw Error(`filterRegExp() unimplemented for ${this.fieldName()}`);
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+    // Grouping
+    // -----------------------------------------------------------------------------------------------------------------
+
+    public supportsGrouping(): boolean {
+        return true;
+    }
+
+    public grouper(): GrouperFunction {
+        return (task: Task) => {
+            return [EstimateAccuracyField.accuracy(task)];
+        };
+    }
+
+    private static accuracy(task: Task): string {
+        const estimate = task.estimatedTimeToComplete;
+        if (!estimate) {
+            return 'No estimate';
+        }
+        if (task.timeSpent === null) {
+            return 'No time spent';
+        }
+
+        const ratio = task.timeSpent / estimate;
+        if (ratio > 1 + EstimateAccuracyField.tolerance) {
+            return 'Over estimate';
+        }
+        if (ratio < 1 - EstimateAccuracyField.tolerance) {
+            return 'Under estimate';
+        }
+        return 'On estimate';
+    }
+}
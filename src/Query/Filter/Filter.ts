@@ -1,11 +1,15 @@
 import type { Task } from '../../Task';
 import type { Explanation } from '../Explain/Explanation';
+import type { SearchInfo } from '../SearchInfo';
 
 /**
  * A filtering function, that takes a Task object and returns
  * whether it matches a particular filtering instruction.
+ *
+ * The {@link SearchInfo} gives access to the other tasks being searched,
+ * for the few filters that need them. Most filters can ignore it.
  */
-export type FilterFunction = (task: Task) => boolean;
+export type FilterFunction = (task: Task, searchInfo: SearchInfo) => boolean;
 
 /**
  * A class that represents a parsed filtering instruction from a tasks code block.
@@ -21,11 +25,19 @@ export class Filter {
     readonly instruction: string;
     readonly explanation: Explanation;
     public filterFunction: FilterFunction;
+    // Whether the tasks matched change during the day, as for 'due before in 2 hours', not just at midnight.
+    readonly dependsOnTimeOfDay: boolean;
 
-    public constructor(instruction: string, filterFunction: FilterFunction, explanation: Explanation) {
+    public constructor(
+        instruction: string,
+        filterFunction: FilterFunction,
+        explanation: Explanation,
+        dependsOnTimeOfDay: boolean = false,
+    ) {
         this.instruction = instruction;
         this.explanation = explanation;
         this.filterFunction = filterFunction;
+        this.dependsOnTimeOfDay = dependsOnTimeOfDay;
     }
 
     public explainFilterIndented(indent: string) {
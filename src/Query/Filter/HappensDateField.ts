@@ -48,35 +48,22 @@ export class HappensDateField extends Field {
 
         const happensMatch = Field.getMatch(this.filterRegExp(), line);
         if (happensMatch !== null) {
-            const filterDate = DateParser.parseDate(happensMatch[2]);
-            if (!filterDate.isValid()) {
+            const filterDates = DateParser.parseDateRange(happensMatch[2]);
+            if (!filterDates.isValid()) {
                 result.error = 'do not understand happens date';
             } else {
-                let filterFunction;
-                let relative;
-                if (happensMatch[1] === 'before') {
-                    filterFunction = (task: Task) => {
-                        return this.dates(task).some((date) => date && date.isBefore(filterDate));
-                    };
-                    relative = ' ' + happensMatch[1];
-                } else if (happensMatch[1] === 'after') {
-                    filterFunction = (task: Task) => {
-                        return this.dates(task).some((date) => date && date.isAfter(filterDate));
-                    };
-                    relative = ' ' + happensMatch[1];
-                } else {
-                    filterFunction = (task: Task) => {
-                        return this.dates(task).some((date) => date && date.isSame(filterDate));
-                    };
-                    relative = ' on';
-                }
+                const matchesDates = DateField.dateMatcher(happensMatch[1], filterDates);
+                const filterFunction = (task: Task) => {
+                    const dates = filterDates.hasTime ? this.dateTimes(task) : this.dates(task);
+                    return dates.some((date) => date && matchesDates(date));
+                };
                 const explanation = DateField.getExplanationString(
                     'due, start or scheduled',
-                    relative,
+                    happensMatch[1],
                     false,
-                    filterDate,
+                    filterDates,
                 );
-                result.filter = new Filter(line, filterFunction, new Explanation(explanation));
+                result.filter = new Filter(line, filterFunction, new Explanation(explanation), filterDates.hasTime);
             }
         } else {
             result.error = 'do not understand query filter (happens date)';
@@ -97,6 +84,16 @@ export class HappensDateField extends Field {
         return sortedHappensDates[0];
     }
 
+    /**
+     * Return the earliest of the dates used by 'happens' in the given task, at its time of day if it has one,
+     * or null if none set.
+     * @param task
+     */
+    public earliestDateTime(task: Task): Moment | null {
+        const sortedHappensDateTimes = this.dateTimes(task).sort(compareByDate);
+        return sortedHappensDateTimes[0];
+    }
+
     protected filterRegExp(): RegExp {
         return HappensDateField.happensRegexp;
     }
@@ -108,6 +105,13 @@ export class HappensDateField extends Field {
         return Array.of(task.startDate, task.scheduledDate, task.dueDate);
     }
 
+    /**
+     * Return the task's start, scheduled and due dates, at their times of day if they have them.
+     */
+    public dateTimes(task: Task): (Moment | null)[] {
+        return Array.of(task.startDateTime, task.scheduledDateTime, task.dueDateTime);
+    }
+
     public fieldName(): string {
         return 'happens';
     }
@@ -117,11 +121,11 @@ export class HappensDateField extends Field {
     }
 
     /**
-     * This sorts on the earliest of start, scheduled and due dates.
+     * This sorts on the earliest of start, scheduled and due dates, including their times of day.
      */
     public comparator(): Comparator {
         return (a: Task, b: Task) => {
-            return compareByDate(this.earliestDate(a), this.earliestDate(b));
+            return compareByDate(this.earliestDateTime(a), this.earliestDateTime(b));
         };
     }
 }
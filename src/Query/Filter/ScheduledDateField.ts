@@ -17,6 +17,9 @@ export class ScheduledDateField extends DateField {
     public date(task: Task): Moment | null {
         return task.scheduledDate;
     }
+    public dateTime(task: Task): Moment | null {
+        return task.scheduledDateTime;
+    }
     protected filterResultIfFieldMissing() {
         return false;
     }
@@ -17,6 +17,9 @@ export class StartDateField extends DateField {
     public date(task: Task): Moment | null {
         return task.startDate;
     }
+    public dateTime(task: Task): Moment | null {
+        return task.startDateTime;
+    }
     protected filterResultIfFieldMissing() {
         // reference: https://obsidian-tasks-group.github.io/obsidian-tasks/queries/filters/#start-date
         return true;
@@ -16,13 +16,7 @@ export class StatusField extends FilterInstructionsBasedField {
         //   StatusType.TODO counts as not done
         //   StatusType.IN_PROGRESS counts as not done
         //   StatusType.NON_TASK counts as done
-        this._filters.add(
-            'done',
-            (task: Task) =>
-                task.status.type === StatusType.DONE ||
-                task.status.type === StatusType.CANCELLED ||
-                task.status.type === StatusType.NON_TASK,
-        );
+        this._filters.add('done', (task: Task) => StatusField.isDone(task));
         this._filters.add(
             'not done',
             (task: Task) => task.status.type === StatusType.TODO || task.status.type === StatusType.IN_PROGRESS,
@@ -33,6 +27,17 @@ export class StatusField extends FilterInstructionsBasedField {
         return 'status';
     }
 
+    /**
+     * Whether the task matches the 'done' instruction.
+     */
+    public static isDone(task: Task): boolean {
+        return (
+            task.status.type === StatusType.DONE ||
+            task.status.type === StatusType.CANCELLED ||
+            task.status.type === StatusType.NON_TASK
+        );
+    }
+
     public supportsSorting(): boolean {
         return true;
     }
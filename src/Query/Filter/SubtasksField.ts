@@ -0,0 +1,25 @@
+import { FilterInstructionsBasedField } from './FilterInstructionsBasedField';
+import { StatusField } from './StatusField';
+
+/**
+ * Support searches on the nesting of tasks in lists.
+ *
+ * A task's subtasks are the tasks nested below it, and its parent is the task it is nested below.
+ * 'done' has the same meaning as in the 'done' instruction.
+ *
+ * @see Task.parent
+ * @see Task.children
+ */
+export class SubtasksField extends FilterInstructionsBasedField {
+    constructor() {
+        super();
+        this._filters.add('has subtasks', (task) => task.children.length > 0);
+        this._filters.add('no subtasks', (task) => task.children.length === 0);
+        this._filters.add('parent is done', (task) => task.parent !== null && StatusField.isDone(task.parent));
+        this._filters.add('parent is not done', (task) => task.parent !== null && !StatusField.isDone(task.parent));
+    }
+
+    public fieldName(): string {
+        return 'subtasks';
+    }
+}
@@ -0,0 +1,56 @@
+import { Task } from '../../Task';
+import { Explanation } from '../Explain/Explanation';
+import type { Comparator } from '../Sorter';
+import { Field } from './Field';
+import { Filter, FilterOrErrorMessage } from './Filter';
+
+/**
+ * Support 'time spent' searches and sorting, for the minutes recorded in a task's {@link Task.timeSpent}.
+ *
+ * Tasks with no time recorded are treated as having 0:00 spent.
+ * Time on a timer that is still running is not counted until the timer is stopped.
+ */
+export class TimeSpentField extends Field {
+    private static readonly timeSpentRegexp = /^time spent (above|below) (.*)$/;
+
+    createFilterOrErrorMessage(line: string): FilterOrErrorMessage {
+        const match = Field.getMatch(this.filterRegExp(), line);
+        if (match === null) {
+            return FilterOrErrorMessage.fromError(line, 'do not understand query filter (time spent)');
+        }
+
+        const minutes = Task.timeSpentFromString(match[2].trim());
+        if (minutes === null) {
+            return FilterOrErrorMessage.fromError(line, 'do not understand time spent: expected H:mm, such as 2:00');
+        }
+
+        const filter =
+            match[1] === 'above'
+                ? (task: Task) => TimeSpentField.minutes(task) > minutes
+                : (task: Task) => TimeSpentField.minutes(task) < minutes;
+        const explanation = `${this.fieldName()} ${match[1]} ${Task.timeSpentToString(minutes)}`;
+        return FilterOrErrorMessage.fromFilter(new Filter(line, filter, new Explanation(explanation)));
+    }
+
+    public fieldName(): string {
+        return 'time spent';
+    }
+
+    protected filterRegExp(): RegExp {
+        return TimeSpentField.timeSpentRegexp;
+    }
+
+    public supportsSorting(): boolean {
+        return true;
+    }
+
+    public comparator(): Comparator {
+        return (a: Task, b: Task) => {
+            return TimeSpentField.minutes(a) - TimeSpentField.minutes(b);
+        };
+    }
+
+    private static minutes(task: Task): number {
+        return task.timeSpent ?? 0;
+    }
+}
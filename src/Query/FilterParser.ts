@@ -1,5 +1,7 @@
 import { DescriptionField } from './Filter/DescriptionField';
 import { DoneDateField } from './Filter/DoneDateField';
+import { CreatedDateField } from './Filter/CreatedDateField';
+import { CancelledDateField } from './Filter/CancelledDateField';
 import { DueDateField } from './Filter/DueDateField';
 import { ExcludeSubItemsField } from './Filter/ExcludeSubItemsField';
 import { HeadingField } from './Filter/HeadingField';
@@ -9,11 +11,15 @@ import { ScheduledDateField } from './Filter/ScheduledDateField';
 import { StartDateField } from './Filter/StartDateField';
 import { HappensDateField } from './Filter/HappensDateField';
 import { RecurringField } from './Filter/RecurringField';
+import { BlockedField } from './Filter/BlockedField';
+import { SubtasksField } from './Filter/SubtasksField';
 import { StatusField } from './Filter/StatusField';
 import { TagsField } from './Filter/TagsField';
 import { BooleanField } from './Filter/BooleanField';
 import { FilenameField } from './Filter/FilenameField';
 import { UrgencyField } from './Filter/UrgencyField';
+import { TimeSpentField } from './Filter/TimeSpentField';
+import { EstimateAccuracyField } from './Filter/EstimateAccuracyField';
 import { StatusNameField } from './Filter/StatusNameField';
 import { StatusTypeField } from './Filter/StatusTypeField';
 
@@ -27,12 +33,16 @@ const fieldCreators = [
     () => new StatusTypeField(), // status.type is before status, to avoid ambiguity
     () => new StatusField(),
     () => new RecurringField(),
+    () => new BlockedField(),
+    () => new SubtasksField(),
     () => new PriorityField(),
     () => new HappensDateField(),
     () => new StartDateField(),
     () => new ScheduledDateField(),
     () => new DueDateField(),
     () => new DoneDateField(),
+    () => new CreatedDateField(),
+    () => new CancelledDateField(),
     () => new PathField(),
     () => new DescriptionField(),
     () => new TagsField(),
@@ -41,6 +51,8 @@ const fieldCreators = [
     () => new BooleanField(),
     () => new FilenameField(),
     () => new UrgencyField(),
+    () => new TimeSpentField(),
+    () => new EstimateAccuracyField(),
     () => new RecurrenceField(),
 ];
 
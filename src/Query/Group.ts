@@ -4,6 +4,7 @@ import { TaskGroups } from './TaskGroups';
 import { HappensDateField } from './Filter/HappensDateField';
 import { Grouper } from './Grouper';
 import type { GrouperFunction, GroupingProperty } from './Grouper';
+import type { SearchInfo } from './SearchInfo';
 
 /**
  * Implementation of the 'group by' instruction.
@@ -19,9 +20,10 @@ export class Group {
      * Group a list of tasks, according to one or more task properties
      * @param grouping 0 or more Grouping values, one per 'group by' line
      * @param tasks The tasks that match the task block's Query
+     * @param searchInfo Information about the search, for groupers that need more than the task itself
      */
-    public static by(grouping: Grouper[], tasks: Task[]): TaskGroups {
-        return new TaskGroups(grouping, tasks);
+    public static by(grouping: Grouper[], tasks: Task[], searchInfo: SearchInfo): TaskGroups {
+        return new TaskGroups(grouping, tasks, searchInfo);
     }
 
     /**
@@ -31,9 +33,10 @@ export class Group {
      *
      * @param grouping
      * @param task
+     * @param searchInfo
      */
-    public static getGroupNamesForTask(grouping: Grouper, task: Task): string[] {
-        return grouping.grouper(task);
+    public static getGroupNamesForTask(grouping: Grouper, task: Task, searchInfo: SearchInfo): string[] {
+        return grouping.grouper(task, searchInfo);
     }
 
     public static grouperForProperty(property: GroupingProperty): GrouperFunction {
@@ -85,6 +88,11 @@ export class Group {
 
     private static groupByRecurrence(task: Task): string[] {
         if (task.recurrence !== null) {
+            const remaining = task.recurrence.remainingOccurrences;
+            if (remaining !== null) {
+                const occurrences = remaining === 1 ? 'occurrence' : 'occurrences';
+                return [`${task.recurrence.toText()} (${remaining} ${occurrences} left)`];
+            }
             return [task.recurrence!.toText()];
         } else {
             return ['None'];
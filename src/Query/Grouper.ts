@@ -1,9 +1,12 @@
 import type { Task } from '../Task';
+import type { SearchInfo } from './SearchInfo';
 
 /**
  * A naming function, that takes a Task object and returns the corresponding group property name
+ *
+ * The {@link SearchInfo} gives access to the other tasks being searched, for the few groupers that need them.
  */
-export type GrouperFunction = (task: Task) => string[];
+export type GrouperFunction = (task: Task, searchInfo: SearchInfo) => string[];
 
 export type GroupingProperty =
     | 'backlink'
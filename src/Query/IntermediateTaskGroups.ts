@@ -1,6 +1,7 @@
 import type { Task } from '../Task';
 import { Group } from './Group';
 import type { Grouper } from './Grouper';
+import type { SearchInfo } from './SearchInfo';
 import { GroupingTreeNode } from './GroupingTreeNode';
 
 /**
@@ -55,9 +56,10 @@ export class IntermediateTaskGroups {
      * Group a list of tasks, according to one or more task properties
      * @param groupings 0 or more Grouping values, one per 'group by' line
      * @param tasks The tasks that match the task block's Query
+     * @param searchInfo Information about the search, for groupers that need it
      */
-    constructor(groupings: Grouper[], tasks: Task[]) {
-        const tree = this.buildGroupingTree(groupings, tasks);
+    constructor(groupings: Grouper[], tasks: Task[], searchInfo: SearchInfo) {
+        const tree = this.buildGroupingTree(groupings, tasks, searchInfo);
         this.groups = tree.generateAllPaths();
         this.groups = this.getSortedGroups();
     }
@@ -65,7 +67,7 @@ export class IntermediateTaskGroups {
     /**
      * Returns a grouping tree that groups the passed @tasks by the passed @groupings.
      */
-    private buildGroupingTree(groupings: Grouper[], tasks: Task[]): TaskGroupingTreeNode {
+    private buildGroupingTree(groupings: Grouper[], tasks: Task[], searchInfo: SearchInfo): TaskGroupingTreeNode {
         // The tree is build layer by layer, starting from the root.
         // At every level, we iterate on the nodes of that level to generate
         // the next one using the next grouping.
@@ -78,7 +80,7 @@ export class IntermediateTaskGroups {
             const nextTreeLevel = [];
             for (const currentTreeNode of currentTreeLevel) {
                 for (const task of currentTreeNode.values) {
-                    const groupNames = Group.getGroupNamesForTask(grouping, task);
+                    const groupNames = Group.getGroupNamesForTask(grouping, task, searchInfo);
                     for (const groupName of groupNames) {
                         let child = currentTreeNode.children.get(groupName);
                         if (child === undefined) {
@@ -1,7 +1,10 @@
+import type { Moment } from 'moment';
 import { LayoutOptions } from '../TaskLayout';
-import type { Task } from '../Task';
+import type { CalendarDateField, CalendarPeriod } from '../TaskLayout';
+import { Task } from '../Task';
 import type { IQuery } from '../IQuery';
 import { getSettings } from '../Config/Settings';
+import { Urgency } from '../Urgency';
 import { Sort } from './Sort';
 import type { Sorter } from './Sorter';
 import type { TaskGroups } from './TaskGroups';
@@ -10,6 +13,8 @@ import { Group } from './Group';
 import type { Grouper } from './Grouper';
 import type { GroupingProperty } from './Grouper';
 import type { Filter } from './Filter/Filter';
+import { SearchInfo } from './SearchInfo';
+import { DateParser } from './DateParser';
 
 export class Query implements IQuery {
     public source: string;
@@ -20,56 +25,160 @@ export class Query implements IQuery {
     private _error: string | undefined = undefined;
     private _sorting: Sorter[] = [];
     private _grouping: Grouper[] = [];
+    private _occurrencesUntil: Moment | null = null;
 
     private readonly groupByRegexp =
         /^group by (backlink|done|due|filename|folder|happens|heading|path|priority|recurrence|recurring|root|scheduled|start|status|tags)/;
 
     private readonly hideOptionsRegexp =
-        /^(hide|show) (task count|backlink|priority|start date|scheduled date|done date|due date|recurrence rule|edit button|urgency)/;
+        /^(hide|show) (task count|backlink|priority|start date|scheduled date|done date|cancelled date|created date|due date|recurrence rule|edit button|urgency|tree|id|depends on|time spent)/;
+    private readonly showTotalsRegexp = /^show totals (estimated time|time spent|overdue)$/;
+    private readonly summarizeByRegexp = /^summarize by (status)$/;
+    private readonly layoutRegexp = /^layout (list|board|calendar (month|week)(?: by (due|scheduled|happens))?)$/;
     private readonly shortModeRegexp = /^short/;
     private readonly explainQueryRegexp = /^explain/;
 
     private readonly limitRegexp = /^limit (to )?(\d+)( tasks?)?/;
 
+    private readonly showOccurrencesRegexp = /^show occurrences until (.*)/;
+
     private readonly commentRegexp = /^#.*/;
 
-    constructor({ source }: { source: string }) {
+    private readonly includeRegexp = /^include (.*)/;
+
+    private readonly placeholderRegexp = /{{\s*query\.file\.(\w+)\s*}}/g;
+
+    /**
+     * @param source - the instructions of the query, one per line.
+     * @param path - the path of the note containing the query, used by placeholders such as `{{query.file.path}}`.
+     *               Queries without a path, such as those run by other plugins, cannot use placeholders.
+     */
+    constructor({ source, path }: { source: string; path?: string }) {
         this.source = source;
-        source
-            .split('\n')
-            .map((line: string) => line.trim())
-            .forEach((line: string) => {
-                switch (true) {
-                    case line === '':
-                        break;
-                    case this.shortModeRegexp.test(line):
-                        this._layoutOptions.shortMode = true;
-                        break;
-                    case this.explainQueryRegexp.test(line):
-                        this._layoutOptions.explainQuery = true;
-                        break;
-                    case this.limitRegexp.test(line):
-                        this.parseLimit({ line });
-                        break;
-                    case this.parseSortBy({ line }):
-                        break;
-                    case this.parseGroupBy2({ line }):
-                        break;
-                    case this.groupByRegexp.test(line):
-                        this.parseGroupBy({ line });
-                        break;
-                    case this.hideOptionsRegexp.test(line):
-                        this.parseHideOptions({ line });
-                        break;
-                    case this.commentRegexp.test(line):
-                        // Comment lines are ignored
-                        break;
-                    case this.parseFilter(line):
-                        break;
-                    default:
-                        this._error = `do not understand query: ${line}`;
+        const includedLines = this.expandIncludes(Query.linesOf(source), []);
+        const lines = this.expandPlaceholders(includedLines, path);
+        if (this._error !== undefined) {
+            return;
+        }
+
+        lines.forEach((line: string) => {
+            switch (true) {
+                case line === '':
+                    break;
+                case this.shortModeRegexp.test(line):
+                    this._layoutOptions.shortMode = true;
+                    break;
+                case this.explainQueryRegexp.test(line):
+                    this._layoutOptions.explainQuery = true;
+                    break;
+                case this.limitRegexp.test(line):
+                    this.parseLimit({ line });
+                    break;
+                case this.parseSortBy({ line }):
+                    break;
+                case this.parseGroupBy2({ line }):
+                    break;
+                case this.groupByRegexp.test(line):
+                    this.parseGroupBy({ line });
+                    break;
+                case this.hideOptionsRegexp.test(line):
+                    this.parseHideOptions({ line });
+                    break;
+                case this.showOccurrencesRegexp.test(line):
+                    this.parseShowOccurrences({ line });
+                    break;
+                case this.showTotalsRegexp.test(line):
+                    this.parseShowTotals({ line });
+                    break;
+                case this.summarizeByRegexp.test(line):
+                    this._layoutOptions.summarizeByStatus = true;
+                    break;
+                case this.layoutRegexp.test(line):
+                    this.parseLayout({ line });
+                    break;
+                case this.commentRegexp.test(line):
+                    // Comment lines are ignored
+                    break;
+                case this.parseFilter(line):
+                    break;
+                default:
+                    this._error = `do not understand query: ${line}`;
+            }
+        });
+    }
+
+    /**
+     * Replace each `include <name>` line with the lines of the saved query of that name, in settings.
+     *
+     * Saved queries may include other saved queries, but not themselves.
+     *
+     * @param lines - the trimmed lines of a query.
+     * @param including - the names of the saved queries being expanded, outermost first, to detect cycles.
+     */
+    private expandIncludes(lines: string[], including: string[]): string[] {
+        const { savedQueries } = getSettings();
+        return lines.flatMap((line) => {
+            const match = line.match(this.includeRegexp);
+            if (match === null) {
+                return [line];
+            }
+
+            const name = match[1].trim();
+            if (including.includes(name)) {
+                this._error = `cannot include "${name}", as it includes itself: ${[...including, name].join(' > ')}`;
+                return [];
+            }
+
+            const savedQuery = savedQueries.find((savedQuery) => savedQuery.name === name);
+            if (savedQuery === undefined) {
+                this._error = `cannot include "${name}": there is no saved query with this name`;
+                return [];
+            }
+
+            return this.expandIncludes(Query.linesOf(savedQuery.query), [...including, name]);
+        });
+    }
+
+    /**
+     * Replace the placeholders for the note containing the query, such as `{{query.file.folder}}`.
+     */
+    private expandPlaceholders(lines: string[], path: string | undefined): string[] {
+        return lines.map((line) =>
+            line.replace(this.placeholderRegexp, (placeholder: string, property: string) => {
+                if (path === undefined) {
+                    this._error = `cannot expand ${placeholder}, as this query is not in a note`;
+                    return placeholder;
                 }
-            });
+                const value = Query.fileProperties(path).get(property);
+                if (value === undefined) {
+                    this._error = `unknown placeholder ${placeholder}: use query.file.path, query.file.folder or query.file.filename`;
+                    return placeholder;
+                }
+                return value;
+            }),
+        );
+    }
+
+    /**
+     * The values of the `{{query.file.*}}` placeholders, for a query in the note at the given path.
+     *
+     * For the path 'Projects/Garden/Plan.md', these are:
+     * - path: 'Projects/Garden/Plan.md'
+     * - folder: 'Projects/Garden/', as used by 'group by folder', or '/' for notes at the top of the vault
+     * - filename: 'Plan', without the extension, as in {@link Task.filename}
+     */
+    private static fileProperties(path: string): Map<string, string> {
+        const filenameWithExtension = path.substring(path.lastIndexOf('/') + 1);
+        const folder = path.substring(0, path.length - filenameWithExtension.length);
+        return new Map([
+            ['path', path],
+            ['folder', folder === '' ? '/' : folder],
+            ['filename', filenameWithExtension.replace(/\.md$/, '')],
+        ]);
+    }
+
+    private static linesOf(source: string): string[] {
+        return source.split('\n').map((line: string) => line.trim());
     }
 
     public explainQuery(): string {
@@ -94,6 +203,12 @@ export class Query implements IQuery {
             }
         }
 
+        if (this._occurrencesUntil !== null) {
+            const until = this._occurrencesUntil.format('YYYY-MM-DD');
+            const maximum = Task.maximumProjectedOccurrences;
+            result += `\n\nIncluding future occurrences of recurring tasks, until ${until}, at most ${maximum} of each task.`;
+        }
+
         if (this._limit !== undefined) {
             result += `\n\nAt most ${this._limit} task`;
             if (this._limit !== 1) {
@@ -102,6 +217,11 @@ export class Query implements IQuery {
             result += '.\n';
         }
 
+        if (this._sorting.some((sorter) => sorter.property === 'urgency')) {
+            result += result.endsWith('\n') ? '\n' : '\n\n';
+            result += Urgency.explainCoefficients() + '\n';
+        }
+
         return result;
     }
 
@@ -129,13 +249,39 @@ export class Query implements IQuery {
         return this._error;
     }
 
+    /**
+     * The last date for which future occurrences of recurring tasks are added to the results,
+     * or null if they are not.
+     */
+    public get occurrencesUntil(): Moment | null {
+        return this._occurrencesUntil;
+    }
+
+    /**
+     * Whether the results can change during the day, not just at midnight: with filters on a time of day,
+     * such as 'due before in 2 hours', or with urgency, which changes during the day for tasks with times.
+     */
+    public get dependsOnTimeOfDay(): boolean {
+        return (
+            this._filters.some((filter) => filter.dependsOnTimeOfDay) ||
+            this._sorting.some((sorter) => sorter.property === 'urgency') ||
+            !this._layoutOptions.hideUrgency
+        );
+    }
+
     public applyQueryToTasks(tasks: Task[]): TaskGroups {
+        const searchInfo = SearchInfo.fromAllTasks(tasks);
+        const occurrencesUntil = this._occurrencesUntil;
+        if (occurrencesUntil !== null) {
+            tasks = tasks.flatMap((task) => [task, ...task.projectOccurrences(occurrencesUntil)]);
+        }
+
         this.filters.forEach((filter) => {
-            tasks = tasks.filter(filter.filterFunction);
+            tasks = tasks.filter((task) => filter.filterFunction(task, searchInfo));
         });
 
         const tasksSortedLimited = Sort.by(this.sorting, tasks).slice(0, this.limit);
-        return Group.by(this.grouping, tasksSortedLimited);
+        return Group.by(this.grouping, tasksSortedLimited, searchInfo);
     }
 
     private parseHideOptions({ line }: { line: string }): void {
@@ -166,6 +312,12 @@ export class Query implements IQuery {
                 case 'done date':
                     this._layoutOptions.hideDoneDate = hide;
                     break;
+                case 'cancelled date':
+                    this._layoutOptions.hideCancelledDate = hide;
+                    break;
+                case 'created date':
+                    this._layoutOptions.hideCreatedDate = hide;
+                    break;
                 case 'recurrence rule':
                     this._layoutOptions.hideRecurrenceRule = hide;
                     break;
@@ -175,12 +327,69 @@ export class Query implements IQuery {
                 case 'urgency':
                     this._layoutOptions.hideUrgency = hide;
                     break;
+                case 'tree':
+                    this._layoutOptions.hideTree = hide;
+                    break;
+                case 'id':
+                    this._layoutOptions.hideId = hide;
+                    break;
+                case 'depends on':
+                    this._layoutOptions.hideDependsOn = hide;
+                    break;
+                case 'time spent':
+                    this._layoutOptions.hideTimeSpent = hide;
+                    break;
                 default:
                     this._error = 'do not understand hide/show option';
             }
         }
     }
 
+    private parseShowTotals({ line }: { line: string }): void {
+        const showTotalsMatch = line.match(this.showTotalsRegexp);
+        switch (showTotalsMatch?.[1]) {
+            case 'estimated time':
+                this._layoutOptions.showTotalEstimatedTime = true;
+                break;
+            case 'time spent':
+                this._layoutOptions.showTotalTimeSpent = true;
+                break;
+            case 'overdue':
+                this._layoutOptions.showTotalOverdue = true;
+                break;
+            default:
+                this._error = 'do not understand show totals option';
+        }
+    }
+
+    private parseShowOccurrences({ line }: { line: string }): void {
+        const showOccurrencesMatch = line.match(this.showOccurrencesRegexp);
+        const until = showOccurrencesMatch === null ? null : DateParser.parseDate(showOccurrencesMatch[1]);
+        if (until === null || !until.isValid()) {
+            this._error = 'do not understand show occurrences date';
+            return;
+        }
+
+        this._occurrencesUntil = until;
+    }
+
+    private parseLayout({ line }: { line: string }): void {
+        const layoutMatch = line.match(this.layoutRegexp);
+        if (layoutMatch === null) {
+            this._error = 'do not understand layout';
+            return;
+        }
+
+        if (layoutMatch[1] === 'list' || layoutMatch[1] === 'board') {
+            this._layoutOptions.layout = layoutMatch[1];
+            return;
+        }
+
+        this._layoutOptions.layout = 'calendar';
+        this._layoutOptions.calendarPeriod = layoutMatch[2] as CalendarPeriod;
+        this._layoutOptions.calendarDateField = (layoutMatch[3] ?? 'happens') as CalendarDateField;
+    }
+
     private parseFilter(line: string) {
         const filterOrError = FilterParser.parseFilter(line);
         if (filterOrError != null) {
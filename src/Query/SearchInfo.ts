@@ -0,0 +1,33 @@
+import type { Task } from '../Task';
+import { TaskDependencies } from '../TaskDependencies';
+import { Lazy } from '../lib/Lazy';
+
+/**
+ * Information about the search being run, which is passed to every {@link FilterFunction}
+ * and {@link GrouperFunction}.
+ *
+ * Most filters only need the task being tested, but some, such as `is blocked`,
+ * need to know about other tasks too.
+ */
+export class SearchInfo {
+    /** All the tasks being searched, before any filtering. */
+    public readonly allTasks: Readonly<Task[]>;
+
+    private readonly _dependencies: Lazy<TaskDependencies>;
+
+    constructor(allTasks: Readonly<Task[]>) {
+        this.allTasks = allTasks;
+        this._dependencies = new Lazy(() => new TaskDependencies(this.allTasks));
+    }
+
+    public static fromAllTasks(tasks: Readonly<Task[]>): SearchInfo {
+        return new SearchInfo([...tasks]);
+    }
+
+    /**
+     * The dependencies between {@link allTasks}, which are only looked up when first needed.
+     */
+    public get dependencies(): TaskDependencies {
+        return this._dependencies.value;
+    }
+}
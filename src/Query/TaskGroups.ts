@@ -1,5 +1,6 @@
 import type { Task } from '../Task';
 import type { Grouper } from './Grouper';
+import type { SearchInfo } from './SearchInfo';
 import { GroupHeadings } from './GroupHeadings';
 import { IntermediateTaskGroups } from './IntermediateTaskGroups';
 import { TaskGroup } from './TaskGroup';
@@ -11,6 +12,7 @@ import { TaskGroup } from './TaskGroup';
 export class TaskGroups {
     private _groups: TaskGroup[] = new Array<TaskGroup>();
     private _totalTaskCount = 0;
+    private _tasks: Task[];
 
     /**
      * Constructor for TaskGroups
@@ -18,13 +20,15 @@ export class TaskGroups {
      *                              1 per 'group by' line in the task query block
      * @param {Task[]} tasks - 0 more more Task objects, with all the tasks
      *                         matching the query, already in sort order
+     * @param {SearchInfo} searchInfo - information about the search, for groupers that need it
      */
-    constructor(groups: Grouper[], tasks: Task[]) {
+    constructor(groups: Grouper[], tasks: Task[], searchInfo: SearchInfo) {
         // Grouping doesn't change the number of tasks, and all the tasks
         // will be shown in at least one group.
         this._totalTaskCount = tasks.length;
+        this._tasks = tasks;
 
-        const initialGroups = new IntermediateTaskGroups(groups, tasks);
+        const initialGroups = new IntermediateTaskGroups(groups, tasks, searchInfo);
         this.addTasks(initialGroups);
     }
 
@@ -36,6 +40,16 @@ export class TaskGroups {
         return this._groups;
     }
 
+    /**
+     * All the tasks matching the query, in sort order.
+     *
+     * Unlike the tasks in {@link groups}, each task appears exactly once,
+     * even if it is in more than one group.
+     */
+    public get tasks(): Task[] {
+        return this._tasks;
+    }
+
     /**
      * The total number of tasks matching the query.
      */
@@ -0,0 +1,95 @@
+import type { Task } from '../Task';
+import type { LayoutOptions } from '../TaskLayout';
+import { StatusType } from '../StatusConfiguration';
+
+/**
+ * Build the aggregate rows shown below query results, such as
+ * "12 tasks, 14h 30m estimated, 3 overdue".
+ *
+ * The contents are controlled by the `show totals` and `summarize by` instructions,
+ * which set flags in {@link LayoutOptions}.
+ */
+export class TaskSummary {
+    /**
+     * Return whether any of the `show totals` or `summarize by` instructions were used.
+     */
+    public static isRequested(layoutOptions: LayoutOptions): boolean {
+        return (
+            layoutOptions.showTotalEstimatedTime ||
+            layoutOptions.showTotalTimeSpent ||
+            layoutOptions.showTotalOverdue ||
+            layoutOptions.summarizeByStatus
+        );
+    }
+
+    /**
+     * Summarise the given tasks, as a comma-separated list of the requested totals.
+     *
+     * @param tasks - the tasks to summarise. Tasks should not be repeated.
+     * @param layoutOptions - the options which say which totals to show.
+     * @param includeCount - whether to start with the number of tasks.
+     */
+    public static summarize(tasks: Task[], layoutOptions: LayoutOptions, includeCount: boolean = true): string {
+        const parts: string[] = [];
+
+        if (includeCount) {
+            parts.push(`${tasks.length} task${tasks.length !== 1 ? 's' : ''}`);
+        }
+
+        if (layoutOptions.showTotalEstimatedTime) {
+            const minutes = TaskSummary.sum(tasks, (task) => task.estimatedTimeToComplete ?? 0);
+            parts.push(`${TaskSummary.formatMinutes(minutes)} estimated`);
+        }
+
+        if (layoutOptions.showTotalTimeSpent) {
+            const minutes = TaskSummary.sum(tasks, (task) => task.timeSpent ?? 0);
+            parts.push(`${TaskSummary.formatMinutes(minutes)} spent`);
+        }
+
+        if (layoutOptions.showTotalOverdue) {
+            const overdue = tasks.filter(TaskSummary.isOverdue).length;
+            parts.push(`${overdue} overdue`);
+        }
+
+        if (layoutOptions.summarizeByStatus) {
+            parts.push(...TaskSummary.countsByStatus(tasks));
+        }
+
+        return parts.join(', ');
+    }
+
+    /**
+     * Format a number of minutes as hours and minutes, such as `14h 30m`.
+     */
+    public static formatMinutes(minutes: number): string {
+        const hours = Math.floor(minutes / 60);
+        const remainder = minutes % 60;
+        return `${hours}h ${remainder.toString().padStart(2, '0')}m`;
+    }
+
+    /**
+     * Return whether a task is due before today, and still needs doing.
+     */
+    private static isOverdue(task: Task): boolean {
+        const type = task.status.type;
+        if (type !== StatusType.TODO && type !== StatusType.IN_PROGRESS) {
+            return false;
+        }
+        return task.dueDate !== null && task.dueDate.isBefore(window.moment().startOf('day'));
+    }
+
+    /**
+     * Return counts such as `5 Todo` for each status name used by the tasks, in alphabetical order of name.
+     */
+    private static countsByStatus(tasks: Task[]): string[] {
+        const counts = new Map<string, number>();
+        for (const task of tasks) {
+            counts.set(task.status.name, (counts.get(task.status.name) ?? 0) + 1);
+        }
+        return [...counts.entries()].sort().map(([name, count]) => `${count} ${name}`);
+    }
+
+    private static sum(tasks: Task[], value: (task: Task) => number): number {
+        return tasks.reduce((total, task) => total + value(task), 0);
+    }
+}
@@ -0,0 +1,54 @@
+import type { Task } from '../Task';
+
+/**
+ * A task in query results, with the results that are nested below it.
+ */
+export class TaskTreeNode {
+    public readonly task: Task;
+    public readonly children: TaskTreeNode[] = [];
+
+    constructor(task: Task) {
+        this.task = task;
+    }
+}
+
+/**
+ * Nest query results below their parent tasks, for the `show tree` instruction.
+ */
+export class TaskTree {
+    /**
+     * Arrange tasks so that each is below its nearest ancestor that is also in the list.
+     *
+     * Tasks whose ancestors are not in the list are at the top level.
+     * Tasks keep their relative order at each level, so children are sorted with their parent.
+     *
+     * @param tasks - the query results, already sorted.
+     */
+    public static fromTasks(tasks: Task[]): TaskTreeNode[] {
+        const nodes = new Map<Task, TaskTreeNode>();
+        for (const task of tasks) {
+            nodes.set(task, new TaskTreeNode(task));
+        }
+
+        const roots: TaskTreeNode[] = [];
+        for (const [task, node] of nodes) {
+            const ancestorNode = TaskTree.nearestAncestorNode(task, nodes);
+            if (ancestorNode === undefined) {
+                roots.push(node);
+            } else {
+                ancestorNode.children.push(node);
+            }
+        }
+        return roots;
+    }
+
+    private static nearestAncestorNode(task: Task, nodes: Map<Task, TaskTreeNode>): TaskTreeNode | undefined {
+        for (let ancestor = task.parent; ancestor !== null; ancestor = ancestor.parent) {
+            const node = nodes.get(ancestor);
+            if (node !== undefined) {
+                return node;
+            }
+        }
+        return undefined;
+    }
+}
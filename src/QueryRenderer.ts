@@ -5,11 +5,24 @@ import type { IQuery } from './IQuery';
 import { State } from './Cache';
 import { replaceTaskWithTasks } from './File';
 import { Query } from './Query/Query';
+import { QuerySql } from './QuerySql/QuerySql';
 import type { GroupHeading } from './Query/GroupHeading';
+import type { TaskGroups } from './Query/TaskGroups';
+import { TaskSummary } from './Query/TaskSummary';
+import { Calendar } from './Query/Calendar';
+import { TaskTree } from './Query/TaskTree';
+import type { TaskTreeNode } from './Query/TaskTree';
+import { Board } from './Query/Board';
+import { StatusRegistry } from './StatusRegistry';
+import type { Status } from './Status';
 import { TaskModal } from './TaskModal';
 import type { TasksEvents } from './TasksEvents';
+import { TaskRegularExpressions } from './Task';
 import type { Task } from './Task';
 import { DateFallback } from './DateFallback';
+import { InlineEdit } from './InlineEdit';
+import type { InlineEditableDate } from './InlineEdit';
+import { Urgency } from './Urgency';
 
 export class QueryRenderer {
     private readonly app: App;
@@ -20,6 +33,7 @@ export class QueryRenderer {
         this.events = events;
 
         plugin.registerMarkdownCodeBlockProcessor('tasks', this._addQueryRenderChild.bind(this));
+        plugin.registerMarkdownCodeBlockProcessor('tasks-sql', this._addQueryRenderChild.bind(this));
     }
 
     public addQueryRenderChild = this._addQueryRenderChild.bind(this);
@@ -47,6 +61,15 @@ class QueryRenderChild extends MarkdownRenderChild {
 
     private renderEventRef: EventRef | undefined;
     private queryReloadTimeout: NodeJS.Timeout | undefined;
+    // Must divide 60, so that a refresh falls on every hour, including midnight.
+    // Only used for queries that depend on the time of day: others are only reloaded at midnight.
+    private static readonly refreshIntervalMinutes = 5;
+
+    // The number of months or weeks that the user has moved a 'layout calendar' away from the current one.
+    private calendarOffset: number = 0;
+
+    // The task being dragged on a 'layout board', if any.
+    private draggedTask: Task | undefined = undefined;
 
     constructor({
         app,
@@ -68,20 +91,30 @@ class QueryRenderChild extends MarkdownRenderChild {
         this.source = source;
         this.filePath = filePath;
 
-        // The engine is chosen on the basis of the code block language. Currently
-        // there is only the main engine for the plugin, this allows others to be
-        // added later.
+        // The engine is chosen on the basis of the code block language.
         switch (this.containerEl.className) {
-            case 'block-language-tasks':
-                this.query = new Query({ source });
-                this.queryType = 'tasks';
+            case 'block-language-tasks-sql':
+                this.queryType = 'tasks-sql';
                 break;
 
+            case 'block-language-tasks':
             default:
-                this.query = new Query({ source });
                 this.queryType = 'tasks';
                 break;
         }
+        this.query = this.createQuery();
+    }
+
+    /**
+     * Create a new query object from the source, using the engine for this block's language.
+     */
+    private createQuery(): IQuery {
+        switch (this.queryType) {
+            case 'tasks-sql':
+                return new QuerySql({ source: this.source });
+            default:
+                return new Query({ source: this.source, path: this.filePath });
+        }
     }
 
     onload() {
@@ -90,7 +123,7 @@ class QueryRenderChild extends MarkdownRenderChild {
         // Listen to future cache changes:
         this.renderEventRef = this.events.onCacheUpdate(this.render.bind(this));
 
-        this.reloadQueryAtMidnight();
+        this.reloadQueryAtNextRefresh();
     }
 
     onunload() {
@@ -104,26 +137,37 @@ class QueryRenderChild extends MarkdownRenderChild {
     }
 
     /**
-     * Reloads the query after midnight to update results from relative date queries.
+     * Reloads the query after midnight to update results from relative date queries,
+     * or every few minutes if the query depends on the time of day.
      *
      * For example, the query `due today` changes every day. This makes sure that all query results
      * are re-rendered after midnight every day to ensure up-to-date results without having to
-     * reload obsidian. Creating a new query object from the source re-applies the relative dates
-     * to "now".
+     * reload obsidian. Queries such as `due before in 2 hours`, and the urgency of tasks due at a time of day,
+     * change during the day, so those are re-rendered at every {@link QueryRenderChild.refreshIntervalMinutes}
+     * minutes on the clock, which includes midnight.
+     * Creating a new query object from the source re-applies the relative dates to "now",
+     * and the urgency of each task is calculated again for the new time.
      */
-    private reloadQueryAtMidnight(): void {
-        const midnight = new Date();
-        midnight.setHours(24, 0, 0, 0);
+    private reloadQueryAtNextRefresh(): void {
+        const nextRefresh = new Date();
+        if (this.query.dependsOnTimeOfDay) {
+            const minutes = nextRefresh.getMinutes();
+            const interval = QueryRenderChild.refreshIntervalMinutes;
+            nextRefresh.setMinutes(minutes - (minutes % interval) + interval, 0, 0);
+        } else {
+            nextRefresh.setHours(24, 0, 0, 0);
+        }
         const now = new Date();
 
-        const millisecondsToMidnight = midnight.getTime() - now.getTime();
+        const millisecondsToNextRefresh = nextRefresh.getTime() - now.getTime();
 
         this.queryReloadTimeout = setTimeout(() => {
-            this.query = new Query({ source: this.source });
+            this.query = this.createQuery();
+            Urgency.recalculateAll();
             // Process the current cache state:
             this.events.triggerRequestCacheUpdate(this.render.bind(this));
-            this.reloadQueryAtMidnight();
-        }, millisecondsToMidnight + 1000); // Add buffer to be sure to run after midnight.
+            this.reloadQueryAtNextRefresh();
+        }, millisecondsToNextRefresh + 1000); // Add buffer to be sure to run after the refresh time.
     }
 
     private async render({ tasks, state }: { tasks: Task[]; state: State }) {
@@ -142,20 +186,31 @@ class QueryRenderChild extends MarkdownRenderChild {
             }
 
             const tasksSortedLimitedGrouped = this.query.applyQueryToTasks(tasks);
-            for (const group of tasksSortedLimitedGrouped.groups) {
-                // If there were no 'group by' instructions, group.groupHeadings
-                // will be empty, and no headings will be added.
-                this.addGroupHeadings(content, group.groupHeadings);
-
-                const { taskList } = await this.createTasksList({
-                    tasks: group.tasks,
-                    content: content,
-                });
-                content.appendChild(taskList);
+            if (this.query.layoutOptions.layout === 'board') {
+                await this.addBoard(content, tasksSortedLimitedGrouped, tasks);
+            } else {
+                for (const group of tasksSortedLimitedGrouped.groups) {
+                    // If there were no 'group by' instructions, group.groupHeadings
+                    // will be empty, and no headings will be added.
+                    this.addGroupHeadings(content, group.groupHeadings);
+
+                    if (this.query.layoutOptions.layout === 'calendar') {
+                        await this.addCalendar(content, group.tasks, tasks);
+                    } else {
+                        const { taskList } = await this.createTasksList({
+                            tasks: group.tasks,
+                            allTasks: tasks,
+                            content: content,
+                        });
+                        content.appendChild(taskList);
+                    }
+
+                    this.addGroupSummary(content, group.tasks);
+                }
             }
             const totalTasksCount = tasksSortedLimitedGrouped.totalTasksCount();
             console.debug(`${totalTasksCount} of ${tasks.length} tasks displayed in a block in "${this.filePath}"`);
-            this.addTaskCount(content, totalTasksCount);
+            this.addTaskCount(content, tasksSortedLimitedGrouped);
         } else if (this.query.error !== undefined) {
             content.createDiv().innerHTML =
                 '<pre>' + `Tasks query: ${this.query.error.replace(/\n/g, '<br>')}` + '</pre>';
@@ -178,51 +233,236 @@ class QueryRenderChild extends MarkdownRenderChild {
 
     private async createTasksList({
         tasks,
+        allTasks,
         content,
     }: {
         tasks: Task[];
+        allTasks: Task[];
         content: HTMLDivElement;
-    }): Promise<{ taskList: HTMLUListElement; tasksCount: number }> {
+    }): Promise<{ taskList: HTMLUListElement; tasksCount: number; listItems: Map<HTMLLIElement, Task> }> {
         const tasksCount = tasks.length;
 
         const taskList = content.createEl('ul');
         taskList.addClasses(['contains-task-list', 'plugin-tasks-query-result']);
-        for (let i = 0; i < tasksCount; i++) {
-            const task = tasks[i];
-            const isFilenameUnique = this.isFilenameUnique({ task });
-
-            const listItem = await task.toLi({
-                parentUlElement: taskList,
-                listIndex: i,
-                layoutOptions: this.query.layoutOptions,
-                isFilenameUnique,
-            });
-
-            // Remove all footnotes. They don't re-appear in another document.
-            const footnotes = listItem.querySelectorAll('[data-footnote-id]');
-            footnotes.forEach((footnote) => footnote.remove());
+        // The task shown by each list item, including those nested in other list items by 'show tree'.
+        const listItems = new Map<HTMLLIElement, Task>();
+        if (this.query.layoutOptions.hideTree) {
+            for (let i = 0; i < tasksCount; i++) {
+                listItems.set(await this.addTaskToList(taskList, tasks[i], i, allTasks), tasks[i]);
+            }
+        } else {
+            await this.addTaskTreeToList(taskList, TaskTree.fromTasks(tasks), allTasks, listItems);
+        }
 
-            const shortMode = this.query.layoutOptions.shortMode;
+        return { taskList, tasksCount, listItems };
+    }
 
-            if (!this.query.layoutOptions.hideUrgency) {
-                this.addUrgency(listItem, task);
+    /**
+     * Add tasks to a list, with the tasks nested below each one in a list inside its list item,
+     * for the 'show tree' instruction.
+     */
+    private async addTaskTreeToList(
+        taskList: HTMLUListElement,
+        nodes: TaskTreeNode[],
+        allTasks: Task[],
+        listItems: Map<HTMLLIElement, Task>,
+    ) {
+        for (let i = 0; i < nodes.length; i++) {
+            const listItem = await this.addTaskToList(taskList, nodes[i].task, i, allTasks);
+            listItems.set(listItem, nodes[i].task);
+            if (nodes[i].children.length > 0) {
+                const childList = listItem.createEl('ul');
+                childList.addClasses(['contains-task-list', 'plugin-tasks-query-result-subtasks']);
+                await this.addTaskTreeToList(childList, nodes[i].children, allTasks, listItems);
             }
+        }
+    }
+
+    private async addTaskToList(
+        taskList: HTMLUListElement,
+        task: Task,
+        listIndex: number,
+        allTasks: Task[],
+    ): Promise<HTMLLIElement> {
+        const isFilenameUnique = this.isFilenameUnique({ task });
+
+        const listItem = await task.toLi({
+            parentUlElement: taskList,
+            listIndex,
+            layoutOptions: this.query.layoutOptions,
+            isFilenameUnique,
+        });
+
+        // Remove all footnotes. They don't re-appear in another document.
+        const footnotes = listItem.querySelectorAll('[data-footnote-id]');
+        footnotes.forEach((footnote) => footnote.remove());
+
+        const shortMode = this.query.layoutOptions.shortMode;
 
-            if (!this.query.layoutOptions.hideBacklinks) {
-                this.addBacklinks(listItem, task, shortMode, isFilenameUnique);
+        if (!this.query.layoutOptions.hideUrgency) {
+            this.addUrgency(listItem, task);
+        }
+
+        if (!this.query.layoutOptions.hideBacklinks) {
+            this.addBacklinks(listItem, task, shortMode, isFilenameUnique);
+        }
+
+        if (!this.query.layoutOptions.hideEditButton && task.projectedFrom === null) {
+            this.addEditButton(listItem, task, allTasks);
+            this.addInlineEditing(listItem, task);
+        }
+
+        taskList.appendChild(listItem);
+        return listItem;
+    }
+
+    /**
+     * Display tasks on a grid of days, for the 'layout calendar' instruction,
+     * followed by any tasks that do not have the date that places them on the grid.
+     */
+    private async addCalendar(content: HTMLDivElement, tasks: Task[], allTasks: Task[]) {
+        const { calendarPeriod, calendarDateField } = this.query.layoutOptions;
+        const today = window.moment().startOf('day');
+        const calendar = new Calendar(
+            tasks,
+            calendarPeriod,
+            calendarDateField,
+            today.clone().add(this.calendarOffset, calendarPeriod),
+        );
+
+        const calendarEl = content.createDiv({ cls: 'tasks-calendar' });
+
+        const header = calendarEl.createDiv({ cls: 'tasks-calendar-header' });
+        this.addCalendarButton(header, '‹', `Previous ${calendarPeriod}`, this.calendarOffset - 1);
+        header.createSpan({ text: calendar.title, cls: 'tasks-calendar-title' });
+        this.addCalendarButton(header, '›', `Next ${calendarPeriod}`, this.calendarOffset + 1);
+        if (this.calendarOffset !== 0) {
+            this.addCalendarButton(header, 'Today', `Current ${calendarPeriod}`, 0);
+        }
+
+        const grid = calendarEl.createDiv({ cls: 'tasks-calendar-grid' });
+        for (const weekday of window.moment.weekdaysShort(true)) {
+            grid.createDiv({ text: weekday, cls: 'tasks-calendar-weekday' });
+        }
+        for (const week of calendar.weeks) {
+            for (const day of week) {
+                const cell = grid.createDiv({ cls: 'tasks-calendar-day' });
+                if (!day.isInPeriod) {
+                    cell.addClass('tasks-calendar-day-outside');
+                }
+                if (day.date.isSame(today, 'day')) {
+                    cell.addClass('tasks-calendar-today');
+                }
+                cell.createDiv({ text: day.date.format('D'), cls: 'tasks-calendar-date' });
+                if (day.tasks.length > 0) {
+                    const { taskList } = await this.createTasksList({ tasks: day.tasks, allTasks, content });
+                    cell.appendChild(taskList);
+                }
             }
+        }
 
-            if (!this.query.layoutOptions.hideEditButton) {
-                this.addEditButton(listItem, task);
+        if (calendar.undatedTasks.length > 0) {
+            calendarEl.createDiv({ text: `No ${calendarDateField} date`, cls: 'tasks-calendar-undated' });
+            const { taskList } = await this.createTasksList({ tasks: calendar.undatedTasks, allTasks, content });
+            calendarEl.appendChild(taskList);
+        }
+    }
+
+    /**
+     * Display tasks in columns, for the 'layout board' instruction.
+     *
+     * Without 'group by' instructions, there is one column per status, and tasks can be dragged
+     * between columns to change their status. Otherwise, there is one column per group.
+     */
+    private async addBoard(content: HTMLDivElement, taskGroups: TaskGroups, allTasks: Task[]) {
+        const columns =
+            this.query.grouping.length === 0
+                ? Board.columnsByStatus(taskGroups.tasks, StatusRegistry.getInstance())
+                : Board.columnsByGroup(taskGroups);
+
+        const boardEl = content.createDiv({ cls: 'tasks-board' });
+        for (const column of columns) {
+            const columnEl = boardEl.createDiv({ cls: 'tasks-board-column' });
+
+            const header = columnEl.createDiv({ cls: 'tasks-board-column-title' });
+            await MarkdownRenderer.renderMarkdown(column.title, header, this.filePath, this);
+            header.createSpan({ text: `${column.tasks.length}`, cls: 'tasks-board-column-count' });
+
+            const { taskList, listItems } = await this.createTasksList({ tasks: column.tasks, allTasks, content });
+            columnEl.appendChild(taskList);
+
+            // Only columns of statuses say how to change a task that is dropped on them.
+            if (column.status !== null) {
+                this.makeBoardCardsDraggable(listItems);
+                this.makeBoardColumnDroppable(columnEl, column.status);
             }
 
-            taskList.appendChild(listItem);
+            if (TaskSummary.isRequested(this.query.layoutOptions)) {
+                columnEl.createDiv({
+                    text: TaskSummary.summarize(column.tasks, this.query.layoutOptions),
+                    cls: 'tasks-group-summary',
+                });
+            }
         }
+    }
+
+    private makeBoardCardsDraggable(listItems: Map<HTMLLIElement, Task>) {
+        listItems.forEach((task, listItem) => {
+            listItem.addClass('tasks-board-card');
+            if (task.projectedFrom !== null) {
+                // Future occurrences cannot change status.
+                return;
+            }
+            listItem.draggable = true;
+            listItem.addEventListener('dragstart', (event: DragEvent) => {
+                // Subtasks are inside their parent's card, which would otherwise be dragged too.
+                event.stopPropagation();
+                this.draggedTask = task;
+                event.dataTransfer?.setData('text/plain', task.originalMarkdown);
+            });
+            listItem.addEventListener('dragend', () => {
+                this.draggedTask = undefined;
+            });
+        });
+    }
+
+    private makeBoardColumnDroppable(columnEl: HTMLDivElement, status: Status) {
+        columnEl.addEventListener('dragover', (event: DragEvent) => {
+            if (this.draggedTask !== undefined) {
+                event.preventDefault();
+                columnEl.addClass('tasks-board-column-drop-target');
+            }
+        });
+        columnEl.addEventListener('dragleave', () => {
+            columnEl.removeClass('tasks-board-column-drop-target');
+        });
+        columnEl.addEventListener('drop', (event: DragEvent) => {
+            event.preventDefault();
+            columnEl.removeClass('tasks-board-column-drop-target');
+
+            const task = this.draggedTask;
+            this.draggedTask = undefined;
+            if (task === undefined || task.status.symbol === status.symbol) {
+                return;
+            }
+            replaceTaskWithTasks({
+                originalTask: task,
+                newTasks: task.handleNewStatus(status),
+            });
+        });
+    }
 
-        return { taskList, tasksCount };
+    private addCalendarButton(header: HTMLDivElement, text: string, label: string, offset: number) {
+        const button = header.createEl('button', { text, cls: 'tasks-calendar-button' });
+        button.setAttribute('aria-label', label);
+        button.onClickEvent((event: MouseEvent) => {
+            event.preventDefault();
+            this.calendarOffset = offset;
+            this.events.triggerRequestCacheUpdate(this.render.bind(this));
+        });
     }
 
-    private addEditButton(listItem: HTMLElement, task: Task) {
+    private addEditButton(listItem: HTMLElement, task: Task, allTasks: Task[]) {
         const editTaskPencil = listItem.createEl('a', {
             cls: 'tasks-edit',
         });
@@ -240,12 +480,103 @@ class QueryRenderChild extends MarkdownRenderChild {
             const taskModal = new TaskModal({
                 app: this.app,
                 task,
+                allTasks,
                 onSubmit,
             });
             taskModal.open();
         });
     }
 
+    /**
+     * Let the priority be changed by clicking it, and the start, scheduled and due dates by typing a new date,
+     * without opening the edit task modal.
+     */
+    private addInlineEditing(listItem: HTMLElement, task: Task) {
+        const prioritySpan = listItem.querySelector<HTMLSpanElement>('.task-priority');
+        if (prioritySpan !== null) {
+            prioritySpan.addClass('tasks-inline-edit');
+            prioritySpan.setAttribute('aria-label', 'Click to change priority');
+            prioritySpan.onClickEvent((event: MouseEvent) => {
+                event.preventDefault();
+                replaceTaskWithTasks({
+                    originalTask: task,
+                    newTasks: InlineEdit.cyclePriority(task),
+                });
+            });
+        }
+
+        const dateSpans: [string, InlineEditableDate][] = [
+            ['.task-start', 'startDate'],
+            ['.task-scheduled', 'scheduledDate'],
+            ['.task-due', 'dueDate'],
+        ];
+        for (const [selector, field] of dateSpans) {
+            const dateSpan = listItem.querySelector<HTMLSpanElement>(selector);
+            if (dateSpan === null) {
+                continue;
+            }
+            dateSpan.addClass('tasks-inline-edit');
+            dateSpan.setAttribute('aria-label', 'Click to change date');
+            dateSpan.onClickEvent((event: MouseEvent) => {
+                event.preventDefault();
+                this.editDateInline(dateSpan, task, field);
+            });
+        }
+    }
+
+    /**
+     * Replace a date with a text box for a new date, showing the date that will be set as it is typed.
+     * `Enter` saves the date, and `Esc` or clicking elsewhere cancels.
+     */
+    private editDateInline(dateSpan: HTMLSpanElement, task: Task, field: InlineEditableDate) {
+        const editor = createSpan({ cls: 'tasks-inline-date-editor' });
+        const input = editor.createEl('input', {
+            type: 'text',
+            cls: 'tasks-inline-date-input',
+            value: task[field]?.format(TaskRegularExpressions.dateFormat) ?? '',
+            placeholder: 'tomorrow, next friday, 2023-07-21',
+        });
+        const preview = editor.createSpan({ cls: 'tasks-inline-date-preview' });
+        dateSpan.replaceWith(editor);
+        input.select();
+
+        const updatedTask = () => InlineEdit.setDate(task, field, input.value);
+        let finished = false;
+        const finish = (save: boolean) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            editor.replaceWith(dateSpan);
+
+            const updated = save ? updatedTask() : null;
+            if (updated !== null) {
+                replaceTaskWithTasks({
+                    originalTask: task,
+                    newTasks: DateFallback.removeInferredStatusIfNeeded(task, [updated]),
+                });
+            }
+        };
+
+        input.addEventListener('input', () => {
+            const updated = updatedTask();
+            if (updated === null) {
+                preview.setText('invalid date');
+            } else {
+                const date = updated[field];
+                preview.setText(date === null ? 'no date' : date.format('ddd Do MMM YYYY'));
+            }
+        });
+        input.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Enter' || event.key === 'Escape') {
+                event.preventDefault();
+                event.stopPropagation();
+                finish(event.key === 'Enter');
+            }
+        });
+        input.addEventListener('blur', () => finish(false));
+    }
+
     private addUrgency(listItem: HTMLElement, task: Task) {
         const text = new Intl.NumberFormat().format(task.urgency);
         listItem.createSpan({ text, cls: 'tasks-urgency' });
@@ -324,13 +655,32 @@ class QueryRenderChild extends MarkdownRenderChild {
         }
     }
 
-    private addTaskCount(content: HTMLDivElement, tasksCount: number) {
-        if (!this.query.layoutOptions.hideTaskCount) {
-            content.createDiv({
-                text: `${tasksCount} task${tasksCount !== 1 ? 's' : ''}`,
-                cls: 'tasks-count',
-            });
+    /**
+     * Display the totals for one group of tasks, if any were requested and the results are grouped.
+     *
+     * Without grouping, there is only one group, and its totals would repeat those shown by {@link addTaskCount}.
+     */
+    private addGroupSummary(content: HTMLDivElement, tasks: Task[]) {
+        const layoutOptions = this.query.layoutOptions;
+        if (this.query.grouping.length === 0 || !TaskSummary.isRequested(layoutOptions)) {
+            return;
+        }
+        content.createDiv({
+            text: TaskSummary.summarize(tasks, layoutOptions),
+            cls: 'tasks-group-summary',
+        });
+    }
+
+    private addTaskCount(content: HTMLDivElement, taskGroups: TaskGroups) {
+        const layoutOptions = this.query.layoutOptions;
+        const includeCount = !layoutOptions.hideTaskCount;
+        if (!includeCount && !TaskSummary.isRequested(layoutOptions)) {
+            return;
         }
+        content.createDiv({
+            text: TaskSummary.summarize(taskGroups.tasks, layoutOptions, includeCount),
+            cls: 'tasks-count',
+        });
     }
 
     private isFilenameUnique({ task }: { task: Task }): boolean | undefined {
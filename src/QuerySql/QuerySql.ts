@@ -0,0 +1,373 @@
+import type { Moment } from 'moment';
+import { LayoutOptions } from '../TaskLayout';
+import type { Task } from '../Task';
+import type { IQuery } from '../IQuery';
+import { getSettings } from '../Config/Settings';
+import { Sort } from '../Query/Sort';
+import { Sorter } from '../Query/Sorter';
+import type { TaskGroups } from '../Query/TaskGroups';
+import { Group } from '../Query/Group';
+import { Grouper } from '../Query/Grouper';
+import { Explanation } from '../Query/Explain/Explanation';
+import type { FilterFunction } from '../Query/Filter/Filter';
+import { SearchInfo } from '../Query/SearchInfo';
+import * as RegExpTools from '../lib/RegExpTools';
+import { SqlParser } from './SqlParser';
+import type { SqlComparisonOperator, SqlExpression, SqlStatement, SqlValue } from './SqlParser';
+import { TaskTable } from './TaskTable';
+import type { SqlCellValue, SqlColumn } from './TaskTable';
+
+type SingleValue = string | number | Moment;
+
+/**
+ * A compiled WHERE clause, or one of its sub-expressions.
+ */
+type SqlCondition = {
+    filterFunction: FilterFunction;
+    explanation: Explanation;
+};
+
+/**
+ * Query engine for ```tasks-sql``` blocks, where tasks are rows of a virtual
+ * `tasks` table and are selected with a SQL `SELECT` statement.
+ *
+ * The statement is compiled once, when the block is rendered, in to the same
+ * {@link Sorter}, {@link Grouper} and filter building blocks used by {@link Query},
+ * so that results go through the standard {@link TaskGroups} rendering.
+ *
+ * @see TaskTable for the available columns.
+ */
+export class QuerySql implements IQuery {
+    public source: string;
+
+    private _limit: number | undefined = undefined;
+    private _layoutOptions: LayoutOptions = new LayoutOptions();
+    private _condition: SqlCondition | null = null;
+    private _error: string | undefined = undefined;
+    private _sorting: Sorter[] = [];
+    private _grouping: Grouper[] = [];
+
+    constructor({ source }: { source: string }) {
+        this.source = source;
+
+        try {
+            const statement = SqlParser.parse(source);
+            this.applyStatement(statement);
+        } catch (e) {
+            this._error = e instanceof Error ? e.message : `${e}`;
+        }
+    }
+
+    public get limit(): number | undefined {
+        return this._limit;
+    }
+
+    public get layoutOptions(): LayoutOptions {
+        return this._layoutOptions;
+    }
+
+    public get sorting(): Sorter[] {
+        return this._sorting;
+    }
+
+    public get grouping(): Grouper[] {
+        return this._grouping;
+    }
+
+    public get error(): string | undefined {
+        return this._error;
+    }
+
+    /**
+     * CURRENT_DATE only changes at midnight, but urgency changes during the day for tasks with times.
+     */
+    public get dependsOnTimeOfDay(): boolean {
+        return this._sorting.some((sorter) => sorter.property === 'urgency') || !this._layoutOptions.hideUrgency;
+    }
+
+    public applyQueryToTasks(tasks: Task[]): TaskGroups {
+        const searchInfo = SearchInfo.fromAllTasks(tasks);
+        const condition = this._condition;
+        if (condition !== null) {
+            tasks = tasks.filter((task) => condition.filterFunction(task, searchInfo));
+        }
+
+        const tasksSortedLimited = Sort.by(this.sorting, tasks).slice(0, this.limit);
+        return Group.by(this.grouping, tasksSortedLimited, searchInfo);
+    }
+
+    public explainQuery(): string {
+        let result = 'Explanation of this Tasks SQL query:\n\n';
+
+        const { globalFilter } = getSettings();
+        if (globalFilter.length !== 0) {
+            result += `Only tasks containing the global filter '${globalFilter}'.\n\n`;
+        }
+
+        if (this._condition === null) {
+            result += 'No WHERE clause supplied. All tasks will match the query.';
+        } else {
+            result += this._condition.explanation.asString();
+        }
+
+        if (this._grouping.length > 0) {
+            result += `\n\nGrouped by ${this._grouping.map((grouper) => grouper.property).join(', ')}.`;
+        }
+
+        if (this._sorting.length > 0) {
+            result += `\n\nSorted by ${this._sorting.map((sorter) => sorter.property).join(', ')}.`;
+        }
+
+        if (this._limit !== undefined) {
+            result += `\n\nAt most ${this._limit} task${this._limit !== 1 ? 's' : ''}.`;
+        }
+
+        return result + '\n';
+    }
+
+    private applyStatement(statement: SqlStatement) {
+        if (statement.table !== TaskTable.tableName) {
+            throw new Error(`unknown table '${statement.table}'. The only table is '${TaskTable.tableName}'`);
+        }
+
+        if (statement.columns !== '*') {
+            this.applySelectedColumns(statement.columns.map((name) => TaskTable.requireColumn(name)));
+        }
+
+        if (statement.where !== null) {
+            this._condition = this.compile(statement.where);
+        }
+
+        for (const name of statement.groupBy) {
+            const column = TaskTable.requireColumn(name);
+            this._grouping.push(new Grouper(column.name, (task: Task) => QuerySql.groupNames(column, task)));
+        }
+
+        for (const { column: name, descending } of statement.orderBy) {
+            const column = TaskTable.requireColumn(name);
+            const comparator = (a: Task, b: Task) => TaskTable.compareCells(column, a, b, descending);
+            this._sorting.push(new Sorter(column.name + (descending ? ' DESC' : ''), comparator, false));
+        }
+
+        this._limit = statement.limit;
+        this._layoutOptions.explainQuery = statement.explain;
+    }
+
+    /**
+     * An explicit column list hides the parts of the rendered task line for columns that were not selected.
+     */
+    private applySelectedColumns(columns: SqlColumn[]) {
+        const isSelected = (name: string) => columns.some((column) => column.name === name);
+        this._layoutOptions.hidePriority = !isSelected('priority');
+        this._layoutOptions.hideStartDate = !isSelected('start_date');
+        this._layoutOptions.hideScheduledDate = !isSelected('scheduled_date');
+        this._layoutOptions.hideDueDate = !isSelected('due_date');
+        this._layoutOptions.hideDoneDate = !isSelected('done_date');
+        this._layoutOptions.hideCreatedDate = !isSelected('created_date');
+        this._layoutOptions.hideCancelledDate = !isSelected('cancelled_date');
+        this._layoutOptions.hideRecurrenceRule = !isSelected('recurrence');
+        this._layoutOptions.hideEstimatedTimeToComplete = !isSelected('estimated_time');
+        this._layoutOptions.hideTimeSpent = !isSelected('time_spent');
+        this._layoutOptions.hideBacklinks = !isSelected('path');
+        this._layoutOptions.hideUrgency = !isSelected('urgency');
+    }
+
+    private compile(expression: SqlExpression): SqlCondition {
+        switch (expression.kind) {
+            case 'and': {
+                const left = this.compile(expression.left);
+                const right = this.compile(expression.right);
+                return {
+                    filterFunction: (task, searchInfo) =>
+                        left.filterFunction(task, searchInfo) && right.filterFunction(task, searchInfo),
+                    explanation: Explanation.booleanAnd([left.explanation, right.explanation]),
+                };
+            }
+            case 'or': {
+                const left = this.compile(expression.left);
+                const right = this.compile(expression.right);
+                return {
+                    filterFunction: (task, searchInfo) =>
+                        left.filterFunction(task, searchInfo) || right.filterFunction(task, searchInfo),
+                    explanation: Explanation.booleanOr([left.explanation, right.explanation]),
+                };
+            }
+            case 'not': {
+                const operand = this.compile(expression.operand);
+                return {
+                    filterFunction: (task, searchInfo) => !operand.filterFunction(task, searchInfo),
+                    explanation: Explanation.booleanNot([operand.explanation]),
+                };
+            }
+            case 'isNull': {
+                const column = TaskTable.requireColumn(expression.column);
+                const isNull = (task: Task) => QuerySql.values(column, task).length === 0;
+                return {
+                    filterFunction: expression.negate ? (task) => !isNull(task) : isNull,
+                    explanation: new Explanation(`${column.name} IS ${expression.negate ? 'NOT ' : ''}NULL`),
+                };
+            }
+            case 'comparison': {
+                const column = TaskTable.requireColumn(expression.column);
+                const value = QuerySql.coerce(column, expression.value);
+                const operator = expression.operator;
+                return {
+                    filterFunction: (task) =>
+                        QuerySql.values(column, task).some((cell) =>
+                            QuerySql.satisfies(TaskTable.compareValues(column.type, cell, value), operator),
+                        ),
+                    explanation: new Explanation(`${column.name} ${operator} ${QuerySql.describe(column, value)}`),
+                };
+            }
+            case 'like': {
+                const column = TaskTable.requireColumn(expression.column);
+                const regex = QuerySql.likePatternToRegExp(expression.pattern);
+                const matches = (task: Task) =>
+                    QuerySql.values(column, task).some((cell) => regex.test(TaskTable.valueToText(column.type, cell)));
+                return {
+                    filterFunction: expression.negate ? QuerySql.negate(column, matches) : matches,
+                    explanation: new Explanation(
+                        `${column.name} ${expression.negate ? 'NOT ' : ''}LIKE '${expression.pattern}'`,
+                    ),
+                };
+            }
+            case 'in': {
+                const column = TaskTable.requireColumn(expression.column);
+                const values = expression.values.map((value) => QuerySql.coerce(column, value));
+                const matches = (task: Task) =>
+                    QuerySql.values(column, task).some((cell) =>
+                        values.some((value) => TaskTable.compareValues(column.type, cell, value) === 0),
+                    );
+                const described = values.map((value) => QuerySql.describe(column, value)).join(', ');
+                return {
+                    filterFunction: expression.negate ? QuerySql.negate(column, matches) : matches,
+                    explanation: new Explanation(`${column.name} ${expression.negate ? 'NOT ' : ''}IN (${described})`),
+                };
+            }
+            case 'between': {
+                const column = TaskTable.requireColumn(expression.column);
+                const low = QuerySql.coerce(column, expression.low);
+                const high = QuerySql.coerce(column, expression.high);
+                const matches = (task: Task) =>
+                    QuerySql.values(column, task).some(
+                        (cell) =>
+                            TaskTable.compareValues(column.type, cell, low) >= 0 &&
+                            TaskTable.compareValues(column.type, cell, high) <= 0,
+                    );
+                return {
+                    filterFunction: expression.negate ? QuerySql.negate(column, matches) : matches,
+                    explanation: new Explanation(
+                        `${column.name} ${expression.negate ? 'NOT ' : ''}BETWEEN ${QuerySql.describe(
+                            column,
+                            low,
+                        )} AND ${QuerySql.describe(column, high)}`,
+                    ),
+                };
+            }
+        }
+    }
+
+    /**
+     * Return the task's non-null values for the column: list columns may have several,
+     * and other columns have zero or one.
+     *
+     * Conditions on list columns, such as tags, match if any of the values match.
+     */
+    private static values(column: SqlColumn, task: Task): SingleValue[] {
+        const value: SqlCellValue = column.value(task);
+        if (value === null) {
+            return [];
+        }
+        if (Array.isArray(value)) {
+            return value;
+        }
+        return [value];
+    }
+
+    /**
+     * Negate a condition as SQL does for NULL: tasks without a value match neither the condition nor its negation.
+     */
+    private static negate(column: SqlColumn, matches: (task: Task) => boolean): (task: Task) => boolean {
+        return (task) => QuerySql.values(column, task).length > 0 && !matches(task);
+    }
+
+    private static coerce(column: SqlColumn, value: SqlValue): SingleValue {
+        switch (value.kind) {
+            case 'string': {
+                const coerced = TaskTable.coerceText(column, value.value);
+                return coerced as SingleValue;
+            }
+            case 'number':
+                if (column.type === 'date') {
+                    throw new Error(`cannot compare date column '${column.name}' with the number ${value.value}`);
+                }
+                return column.type === 'number' ? value.value : value.value.toString();
+            case 'currentDate':
+                if (column.type !== 'date') {
+                    throw new Error(`CURRENT_DATE can only be compared with date columns, not '${column.name}'`);
+                }
+                return window.moment().startOf('day');
+            case 'null':
+                throw new Error(`use IS NULL or IS NOT NULL to test whether '${column.name}' has a value`);
+            case 'boolean':
+                throw new Error(`column '${column.name}' cannot be compared with TRUE or FALSE`);
+        }
+    }
+
+    private static satisfies(comparison: number, operator: SqlComparisonOperator): boolean {
+        switch (operator) {
+            case '=':
+                return comparison === 0;
+            case '!=':
+                return comparison !== 0;
+            case '<':
+                return comparison < 0;
+            case '<=':
+                return comparison <= 0;
+            case '>':
+                return comparison > 0;
+            case '>=':
+                return comparison >= 0;
+        }
+    }
+
+    private static describe(column: SqlColumn, value: SingleValue): string {
+        if (column.type === 'date') {
+            // Example of formatted date: '2024-01-02 (Tuesday 2nd January 2024)', as for DateField explanations.
+            return (value as Moment).format('YYYY-MM-DD (dddd Do MMMM YYYY)');
+        }
+        if (typeof value === 'number') {
+            return value.toString();
+        }
+        return `'${value}'`;
+    }
+
+    /**
+     * Convert a SQL LIKE pattern to a case-insensitive regular expression:
+     * `%` matches any run of characters and `_` matches any single character.
+     */
+    private static likePatternToRegExp(pattern: string): RegExp {
+        const source = pattern
+            .split('')
+            .map((character) => {
+                if (character === '%') return '[\\s\\S]*';
+                if (character === '_') return '[\\s\\S]';
+                return RegExpTools.escapeRegExp(character);
+            })
+            .join('');
+        return new RegExp(`^${source}$`, 'i');
+    }
+
+    private static groupNames(column: SqlColumn, task: Task): string[] {
+        const values = QuerySql.values(column, task);
+        if (values.length === 0) {
+            return [`No ${column.name}`];
+        }
+        return values.map((value) => {
+            if (column.type === 'date') {
+                return (value as Moment).format('YYYY-MM-DD dddd');
+            }
+            return TaskTable.valueToText(column.type, value);
+        });
+    }
+}
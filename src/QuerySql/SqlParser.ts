@@ -0,0 +1,299 @@
+import { tokenize } from './SqlTokenizer';
+import type { SqlToken } from './SqlTokenizer';
+
+/**
+ * A literal value in a SQL expression.
+ *
+ * `CURRENT_DATE` is kept symbolic, so that it is evaluated when the query is created,
+ * not when it is parsed.
+ */
+export type SqlValue =
+    | { kind: 'string'; value: string }
+    | { kind: 'number'; value: number }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'null' }
+    | { kind: 'currentDate' };
+
+export type SqlComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type SqlExpression =
+    | { kind: 'and' | 'or'; left: SqlExpression; right: SqlExpression }
+    | { kind: 'not'; operand: SqlExpression }
+    | { kind: 'comparison'; column: string; operator: SqlComparisonOperator; value: SqlValue }
+    | { kind: 'like'; column: string; pattern: string; negate: boolean }
+    | { kind: 'in'; column: string; values: SqlValue[]; negate: boolean }
+    | { kind: 'between'; column: string; low: SqlValue; high: SqlValue; negate: boolean }
+    | { kind: 'isNull'; column: string; negate: boolean };
+
+export type SqlOrderBy = {
+    column: string;
+    descending: boolean;
+};
+
+/**
+ * The parsed form of a single `SELECT` statement.
+ */
+export type SqlStatement = {
+    /** True if the statement was prefixed with EXPLAIN. */
+    explain: boolean;
+    /** The selected column names, or '*' for all columns. */
+    columns: string[] | '*';
+    table: string;
+    where: SqlExpression | null;
+    groupBy: string[];
+    orderBy: SqlOrderBy[];
+    limit: number | undefined;
+};
+
+/**
+ * A recursive-descent parser for the subset of SQL supported in ```tasks-sql``` blocks:
+ *
+ *     [EXPLAIN] SELECT <* | column, ...> FROM tasks
+ *     [WHERE <expression>]
+ *     [GROUP BY column, ...]
+ *     [ORDER BY column [ASC|DESC], ...]
+ *     [LIMIT n]
+ *
+ * Column names are only checked for syntax here. Checking them against the
+ * available columns is done by {@link QuerySql}.
+ */
+export class SqlParser {
+    private readonly tokens: SqlToken[];
+    private index = 0;
+
+    private constructor(source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    /**
+     * @throws Error with a user-facing message, if the source is not a valid statement.
+     */
+    public static parse(source: string): SqlStatement {
+        return new SqlParser(source).parseStatement();
+    }
+
+    private parseStatement(): SqlStatement {
+        const explain = this.acceptKeyword('EXPLAIN');
+        this.expectKeyword('SELECT');
+        const columns = this.parseColumnList();
+
+        this.expectKeyword('FROM');
+        const table = this.expectIdentifier();
+
+        let where: SqlExpression | null = null;
+        if (this.acceptKeyword('WHERE')) {
+            where = this.parseOr();
+        }
+
+        let groupBy: string[] = [];
+        if (this.acceptKeyword('GROUP')) {
+            this.expectKeyword('BY');
+            groupBy = this.parseIdentifierList();
+        }
+
+        const orderBy: SqlOrderBy[] = [];
+        if (this.acceptKeyword('ORDER')) {
+            this.expectKeyword('BY');
+            do {
+                const column = this.expectIdentifier();
+                let descending = false;
+                if (this.acceptKeyword('DESC')) {
+                    descending = true;
+                } else {
+                    this.acceptKeyword('ASC');
+                }
+                orderBy.push({ column, descending });
+            } while (this.acceptPunctuation(','));
+        }
+
+        let limit: number | undefined = undefined;
+        if (this.acceptKeyword('LIMIT')) {
+            const token = this.next();
+            if (token === undefined || token.type !== 'number' || token.value.includes('.')) {
+                throw this.error('LIMIT must be followed by a whole number', token);
+            }
+            limit = Number.parseInt(token.value, 10);
+        }
+
+        this.acceptPunctuation(';');
+        const trailing = this.peek();
+        if (trailing !== undefined) {
+            throw this.error('expected the end of the query', trailing);
+        }
+
+        return { explain, columns, table, where, groupBy, orderBy, limit };
+    }
+
+    private parseColumnList(): string[] | '*' {
+        if (this.acceptPunctuation('*')) {
+            return '*';
+        }
+        return this.parseIdentifierList();
+    }
+
+    private parseIdentifierList(): string[] {
+        const identifiers: string[] = [];
+        do {
+            identifiers.push(this.expectIdentifier());
+        } while (this.acceptPunctuation(','));
+        return identifiers;
+    }
+
+    private parseOr(): SqlExpression {
+        let left = this.parseAnd();
+        while (this.acceptKeyword('OR')) {
+            left = { kind: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): SqlExpression {
+        let left = this.parseNot();
+        while (this.acceptKeyword('AND')) {
+            left = { kind: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): SqlExpression {
+        if (this.acceptKeyword('NOT')) {
+            return { kind: 'not', operand: this.parseNot() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): SqlExpression {
+        if (this.acceptPunctuation('(')) {
+            const expression = this.parseOr();
+            this.expectPunctuation(')');
+            return expression;
+        }
+
+        const column = this.expectIdentifier();
+
+        if (this.acceptKeyword('IS')) {
+            const negate = this.acceptKeyword('NOT');
+            this.expectKeyword('NULL');
+            return { kind: 'isNull', column, negate };
+        }
+
+        const negate = this.acceptKeyword('NOT');
+
+        if (this.acceptKeyword('LIKE')) {
+            const token = this.next();
+            if (token === undefined || token.type !== 'string') {
+                throw this.error('LIKE must be followed by a quoted pattern', token);
+            }
+            return { kind: 'like', column, pattern: token.value, negate };
+        }
+
+        if (this.acceptKeyword('IN')) {
+            this.expectPunctuation('(');
+            const values: SqlValue[] = [];
+            do {
+                values.push(this.parseValue());
+            } while (this.acceptPunctuation(','));
+            this.expectPunctuation(')');
+            return { kind: 'in', column, values, negate };
+        }
+
+        if (this.acceptKeyword('BETWEEN')) {
+            const low = this.parseValue();
+            this.expectKeyword('AND');
+            const high = this.parseValue();
+            return { kind: 'between', column, low, high, negate };
+        }
+
+        if (negate) {
+            throw this.error('NOT must be followed by LIKE, IN or BETWEEN here', this.peek());
+        }
+
+        const token = this.next();
+        if (token === undefined || token.type !== 'operator') {
+            throw this.error(`expected a comparison after '${column}'`, token);
+        }
+        const operator = (token.value === '<>' ? '!=' : token.value) as SqlComparisonOperator;
+        return { kind: 'comparison', column, operator, value: this.parseValue() };
+    }
+
+    private parseValue(): SqlValue {
+        const token = this.next();
+        if (token !== undefined) {
+            switch (token.type) {
+                case 'string':
+                    return { kind: 'string', value: token.value };
+                case 'number':
+                    return { kind: 'number', value: Number.parseFloat(token.value) };
+                case 'keyword':
+                    switch (token.value) {
+                        case 'NULL':
+                            return { kind: 'null' };
+                        case 'TRUE':
+                            return { kind: 'boolean', value: true };
+                        case 'FALSE':
+                            return { kind: 'boolean', value: false };
+                        case 'CURRENT_DATE':
+                            return { kind: 'currentDate' };
+                    }
+            }
+        }
+        throw this.error('expected a value', token);
+    }
+
+    private peek(): SqlToken | undefined {
+        return this.tokens[this.index];
+    }
+
+    private next(): SqlToken | undefined {
+        const token = this.tokens[this.index];
+        if (token !== undefined) {
+            this.index++;
+        }
+        return token;
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        const token = this.peek();
+        if (token !== undefined && token.type === 'keyword' && token.value === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private acceptPunctuation(punctuation: string): boolean {
+        const token = this.peek();
+        if (token !== undefined && token.type === 'punctuation' && token.value === punctuation) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectKeyword(keyword: string): void {
+        if (!this.acceptKeyword(keyword)) {
+            throw this.error(`expected ${keyword}`, this.peek());
+        }
+    }
+
+    private expectPunctuation(punctuation: string): void {
+        if (!this.acceptPunctuation(punctuation)) {
+            throw this.error(`expected '${punctuation}'`, this.peek());
+        }
+    }
+
+    private expectIdentifier(): string {
+        const token = this.next();
+        if (token === undefined || token.type !== 'identifier') {
+            throw this.error('expected a column or table name', token);
+        }
+        return token.value;
+    }
+
+    private error(message: string, token: SqlToken | undefined): Error {
+        if (token === undefined) {
+            return new Error(`${message}, but the query ended`);
+        }
+        return new Error(`${message}, but found '${token.value}' at position ${token.position}`);
+    }
+}
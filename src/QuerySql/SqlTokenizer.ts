@@ -0,0 +1,115 @@
+export type SqlTokenType = 'keyword' | 'identifier' | 'string' | 'number' | 'operator' | 'punctuation';
+
+export type SqlToken = {
+    type: SqlTokenType;
+    /** Keywords are upper-cased, identifiers are lower-cased, everything else is as written. */
+    value: string;
+    /** Offset of the first character of the token in the source. */
+    position: number;
+};
+
+const keywords = [
+    'AND',
+    'ASC',
+    'BETWEEN',
+    'BY',
+    'CURRENT_DATE',
+    'DESC',
+    'EXPLAIN',
+    'FALSE',
+    'FROM',
+    'GROUP',
+    'IN',
+    'IS',
+    'LIKE',
+    'LIMIT',
+    'NOT',
+    'NULL',
+    'OR',
+    'ORDER',
+    'SELECT',
+    'TRUE',
+    'WHERE',
+];
+
+/**
+ * Split the text of a ```tasks-sql``` block in to tokens.
+ *
+ * Supports single-quoted strings (with `''` as an escaped quote), double-quoted identifiers,
+ * integer and decimal numbers, and `--` comments to the end of the line.
+ *
+ * @throws Error if the source contains a character that cannot start a token, or an unterminated string.
+ */
+export function tokenize(source: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+        const rest = source.slice(position);
+
+        const whitespace = rest.match(/^\s+/);
+        if (whitespace) {
+            position += whitespace[0].length;
+            continue;
+        }
+
+        const comment = rest.match(/^--[^\n]*/);
+        if (comment) {
+            position += comment[0].length;
+            continue;
+        }
+
+        if (rest.startsWith("'")) {
+            const string = rest.match(/^'((?:[^']|'')*)'/);
+            if (string === null) {
+                throw new Error(`unterminated string starting at position ${position}`);
+            }
+            tokens.push({ type: 'string', value: string[1].replace(/''/g, "'"), position });
+            position += string[0].length;
+            continue;
+        }
+
+        const quotedIdentifier = rest.match(/^"([^"]+)"/);
+        if (quotedIdentifier) {
+            tokens.push({ type: 'identifier', value: quotedIdentifier[1].toLowerCase(), position });
+            position += quotedIdentifier[0].length;
+            continue;
+        }
+
+        const number = rest.match(/^\d+(\.\d+)?/);
+        if (number) {
+            tokens.push({ type: 'number', value: number[0], position });
+            position += number[0].length;
+            continue;
+        }
+
+        const word = rest.match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
+        if (word) {
+            const upper = word[0].toUpperCase();
+            if (keywords.includes(upper)) {
+                tokens.push({ type: 'keyword', value: upper, position });
+            } else {
+                tokens.push({ type: 'identifier', value: word[0].toLowerCase(), position });
+            }
+            position += word[0].length;
+            continue;
+        }
+
+        const operator = rest.match(/^(<=|>=|<>|!=|=|<|>)/);
+        if (operator) {
+            tokens.push({ type: 'operator', value: operator[0], position });
+            position += operator[0].length;
+            continue;
+        }
+
+        if ('(),*;'.includes(rest[0])) {
+            tokens.push({ type: 'punctuation', value: rest[0], position });
+            position += 1;
+            continue;
+        }
+
+        throw new Error(`unexpected character '${rest[0]}' at position ${position}`);
+    }
+
+    return tokens;
+}
@@ -0,0 +1,177 @@
+import type { Moment } from 'moment';
+import { PriorityUtils, Task, TaskRegularExpressions } from '../Task';
+import { DateParser } from '../Query/DateParser';
+import { compareByDate } from '../lib/DateTools';
+
+export type SqlColumnType = 'text' | 'number' | 'date' | 'list';
+
+export type SqlCellValue = string | number | Moment | string[] | null;
+
+/**
+ * One column of the virtual `tasks` table that ```tasks-sql``` blocks select from.
+ */
+export interface SqlColumn {
+    readonly name: string;
+    readonly type: SqlColumnType;
+
+    value(task: Task): SqlCellValue;
+
+    /**
+     * Optionally convert a quoted string in a query to this column's type,
+     * for columns that accept more than the default conversions.
+     * Return null if the text is not understood.
+     */
+    parseText?(text: string): number | null;
+}
+
+const priorityNames: { [name: string]: number } = {
+    high: 1,
+    medium: 2,
+    none: 3,
+    low: 4,
+};
+
+/**
+ * The columns of the virtual `tasks` table, in the order they are documented.
+ */
+export const taskColumns: SqlColumn[] = [
+    { name: 'status', type: 'text', value: (task) => task.status.name },
+    { name: 'status_symbol', type: 'text', value: (task) => task.status.symbol },
+    { name: 'status_type', type: 'text', value: (task) => task.status.type },
+    { name: 'description', type: 'text', value: (task) => task.description },
+    { name: 'path', type: 'text', value: (task) => task.path },
+    { name: 'filename', type: 'text', value: (task) => task.filename },
+    { name: 'heading', type: 'text', value: (task) => task.precedingHeader },
+    { name: 'start_date', type: 'date', value: (task) => task.startDate },
+    { name: 'scheduled_date', type: 'date', value: (task) => task.scheduledDate },
+    { name: 'due_date', type: 'date', value: (task) => task.dueDate },
+    { name: 'done_date', type: 'date', value: (task) => task.doneDate },
+    { name: 'cancelled_date', type: 'date', value: (task) => task.cancelledDate },
+    { name: 'created_date', type: 'date', value: (task) => task.createdDate },
+    {
+        name: 'priority',
+        type: 'number',
+        value: (task) => PriorityUtils.toNumber(task.priority),
+        parseText: (text) => priorityNames[text.toLowerCase()] ?? null,
+    },
+    { name: 'tags', type: 'list', value: (task) => task.tags },
+    {
+        name: 'estimated_time',
+        type: 'number',
+        value: (task) => task.estimatedTimeToComplete ?? null,
+        parseText: (text) => Task.estimatedTimeToCompleteFromString(text) ?? null,
+    },
+    {
+        name: 'time_spent',
+        type: 'number',
+        value: (task) => task.timeSpent,
+        parseText: (text) => Task.timeSpentFromString(text),
+    },
+    { name: 'recurrence', type: 'text', value: (task) => (task.recurrence ? task.recurrence.toText() : null) },
+    { name: 'urgency', type: 'number', value: (task) => task.urgency },
+];
+
+export class TaskTable {
+    public static readonly tableName = 'tasks';
+
+    public static column(name: string): SqlColumn | undefined {
+        return taskColumns.find((column) => column.name === name);
+    }
+
+    /**
+     * Return the named column, or throw an Error listing the available columns.
+     */
+    public static requireColumn(name: string): SqlColumn {
+        const column = TaskTable.column(name);
+        if (column === undefined) {
+            const names = taskColumns.map((column) => column.name).join(', ');
+            throw new Error(`unknown column '${name}'. Available columns: ${names}`);
+        }
+        return column;
+    }
+
+    /**
+     * Convert a quoted string from a query to a value that can be compared with the given column.
+     *
+     * Dates may be written as `YYYY-MM-DD`, or in any form understood by the 'due' filters,
+     * such as 'next monday'.
+     *
+     * @throws Error if the text cannot be interpreted for this column.
+     */
+    public static coerceText(column: SqlColumn, text: string): SqlCellValue {
+        switch (column.type) {
+            case 'date': {
+                let date = window.moment(text, TaskRegularExpressions.dateFormat, true);
+                if (!date.isValid()) {
+                    date = DateParser.parseDate(text);
+                }
+                if (!date.isValid()) {
+                    throw new Error(`cannot interpret '${text}' as a date for column '${column.name}'`);
+                }
+                return date;
+            }
+            case 'number': {
+                const parsed = column.parseText ? column.parseText(text) : null;
+                if (parsed !== null) {
+                    return parsed;
+                }
+                const number = Number(text);
+                if (text.trim() === '' || !Number.isFinite(number)) {
+                    throw new Error(`cannot interpret '${text}' as a number for column '${column.name}'`);
+                }
+                return number;
+            }
+            default:
+                return text;
+        }
+    }
+
+    /**
+     * Compare two non-null single values of the given column type.
+     *
+     * Returns a negative number, zero or a positive number, in the manner of {@link Comparator}.
+     */
+    public static compareValues(type: SqlColumnType, a: string | number | Moment, b: string | number | Moment): number {
+        switch (type) {
+            case 'date':
+                return compareByDate(a as Moment, b as Moment);
+            case 'number':
+                return (a as number) - (b as number);
+            default:
+                return (a as string).localeCompare(b as string, undefined, { numeric: true });
+        }
+    }
+
+    /**
+     * Compare the values of a column for two tasks, for use in ORDER BY.
+     *
+     * Tasks without a value sort after tasks with one, in either direction.
+     */
+    public static compareCells(column: SqlColumn, a: Task, b: Task, descending: boolean = false): number {
+        const valueA = TaskTable.sortableValue(column, a);
+        const valueB = TaskTable.sortableValue(column, b);
+        if (valueA === null && valueB === null) return 0;
+        if (valueA === null) return 1;
+        if (valueB === null) return -1;
+        const comparison = TaskTable.compareValues(column.type, valueA, valueB);
+        return descending ? -comparison : comparison;
+    }
+
+    /**
+     * Convert a value to the text used to display it in group headings and to match it with LIKE.
+     */
+    public static valueToText(type: SqlColumnType, value: string | number | Moment): string {
+        if (type === 'date') {
+            return (value as Moment).format(TaskRegularExpressions.dateFormat);
+        }
+        return value.toString();
+    }
+
+    private static sortableValue(column: SqlColumn, task: Task): string | number | Moment | null {
+        const value = column.value(task);
+        if (Array.isArray(value)) {
+            return value.length > 0 ? value.join(' ') : null;
+        }
+        return value;
+    }
+}
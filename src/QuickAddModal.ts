@@ -0,0 +1,55 @@
+import { App, Modal } from 'obsidian';
+import { taskFromQuickAddText } from './Commands/QuickAddParser';
+import type { Task } from './Task';
+
+/**
+ * A single-line text box for the 'Quick add task' command,
+ * showing the task that the text will be turned into as it is typed.
+ */
+export class QuickAddModal extends Modal {
+    public readonly path: string;
+    public readonly onSubmit: (task: Task) => void;
+
+    constructor({ app, path, onSubmit }: { app: App; path: string; onSubmit: (task: Task) => void }) {
+        super(app);
+
+        this.path = path;
+        this.onSubmit = (task: Task) => {
+            onSubmit(task);
+            this.close();
+        };
+    }
+
+    public onOpen(): void {
+        this.titleEl.setText('Quick add task');
+        const { contentEl } = this;
+
+        const input = contentEl.createEl('input', {
+            type: 'text',
+            cls: 'tasks-quick-add-input',
+            placeholder: 'Send invoice next friday high priority every month #finance',
+        });
+        const preview = contentEl.createEl('p', { cls: 'tasks-quick-add-preview' });
+
+        const readTask = () => taskFromQuickAddText({ text: input.value, path: this.path });
+        input.addEventListener('input', () => {
+            preview.setText(readTask()?.toFileLineString() ?? '');
+        });
+        input.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key !== 'Enter') {
+                return;
+            }
+            event.preventDefault();
+            const task = readTask();
+            if (task !== null) {
+                this.onSubmit(task);
+            }
+        });
+        input.focus();
+    }
+
+    public onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
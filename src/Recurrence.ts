@@ -1,6 +1,11 @@
 import type { Moment } from 'moment';
 import { RRule } from 'rrule';
+import type { Options } from 'rrule';
 import { compareByDate } from './lib/DateTools';
+import { BusinessDays } from './BusinessDays';
+import { getSettings } from './Config/Settings';
+
+const dateFormat = 'YYYY-MM-DD';
 
 export class Recurrence {
     public readonly rrule: RRule;
@@ -8,6 +13,13 @@ export class Recurrence {
     private readonly startDate: Moment | null;
     private readonly scheduledDate: Moment | null;
     private readonly dueDate: Moment | null;
+    /** Dates on which the rule would recur, but which are skipped. */
+    private readonly exceptions: Moment[];
+    /**
+     * Whether this is an 'every N business days' rule, which RRule cannot express.
+     * Its {@link rrule} is daily, and is used only for the interval, number of times and end date.
+     */
+    private readonly businessDays: boolean;
 
     /**
      * The reference date is used to calculate future occurrences.
@@ -31,6 +43,8 @@ export class Recurrence {
         startDate,
         scheduledDate,
         dueDate,
+        exceptions,
+        businessDays,
     }: {
         rrule: RRule;
         baseOnToday: boolean;
@@ -38,6 +52,8 @@ export class Recurrence {
         startDate: Moment | null;
         scheduledDate: Moment | null;
         dueDate: Moment | null;
+        exceptions: Moment[];
+        businessDays: boolean;
     }) {
         this.rrule = rrule;
         this.baseOnToday = baseOnToday;
@@ -45,6 +61,8 @@ export class Recurrence {
         this.startDate = startDate;
         this.scheduledDate = scheduledDate;
         this.dueDate = dueDate;
+        this.exceptions = exceptions;
+        this.businessDays = businessDays;
     }
 
     public static fromText({
@@ -59,39 +77,41 @@ export class Recurrence {
         dueDate: Moment | null;
     }): Recurrence | null {
         try {
-            const match = recurrenceRuleText.match(/^([a-zA-Z0-9, !]+?)( when done)?$/i);
+            const match = recurrenceRuleText.match(
+                /^([a-zA-Z0-9, !]+?)(?: until (\d{4}-\d{2}-\d{2}))?(?: except (\d{4}-\d{2}-\d{2}(?:, ?\d{4}-\d{2}-\d{2})*))?( when done)?$/i,
+            );
             if (match == null) {
                 return null;
             }
 
             const isolatedRuleText = match[1].trim();
-            const baseOnToday = match[2] !== undefined;
-
-            const options = RRule.parseText(isolatedRuleText);
+            const untilText = match[2];
+            const exceptionsText = match[3];
+            const baseOnToday = match[4] !== undefined;
+
+            const businessDaysMatch = isolatedRuleText.match(
+                /^every (?:(\d+) )?(?:business|working) days?(?: for (\d+) times?)?$/i,
+            );
+            const options =
+                businessDaysMatch === null
+                    ? RRule.parseText(isolatedRuleText)
+                    : Recurrence.businessDaysOptions(businessDaysMatch[1], businessDaysMatch[2]);
             if (options !== null) {
-                // Pick the reference date for recurrence based on importance.
-                // Assuming due date has the highest priority.
-                let referenceDate: Moment | null = null;
-                // Clone the moment objects.
-                if (dueDate) {
-                    referenceDate = window.moment(dueDate);
-                } else if (scheduledDate) {
-                    referenceDate = window.moment(scheduledDate);
-                } else if (startDate) {
-                    referenceDate = window.moment(startDate);
+                if (untilText !== undefined) {
+                    // The end date is inclusive, so the rule runs until the end of that day.
+                    options.until = window.moment(untilText, dateFormat).endOf('day').utc(true).toDate();
                 }
 
-                if (!baseOnToday && referenceDate !== null) {
-                    options.dtstart = window.moment(referenceDate).startOf('day').utc(true).toDate();
-                } else {
-                    options.dtstart = window.moment().startOf('day').utc(true).toDate();
-                }
+                const exceptions =
+                    exceptionsText === undefined
+                        ? []
+                        : exceptionsText.split(',').map((exception) => window.moment(exception.trim(), dateFormat));
 
-                const rrule = new RRule(options);
-                return new Recurrence({
-                    rrule,
+                return Recurrence.fromOptions({
+                    options,
                     baseOnToday,
-                    referenceDate,
+                    exceptions,
+                    businessDays: businessDaysMatch !== null,
                     startDate,
                     scheduledDate,
                     dueDate,
@@ -104,8 +124,89 @@ export class Recurrence {
         return null;
     }
 
+    private static businessDaysOptions(intervalText: string | undefined, countText: string | undefined) {
+        const options: Partial<Options> = {
+            freq: RRule.DAILY,
+            interval: intervalText === undefined ? 1 : Number.parseInt(intervalText, 10),
+        };
+        if (countText !== undefined) {
+            options.count = Number.parseInt(countText, 10);
+        }
+        return options;
+    }
+
+    private static fromOptions({
+        options,
+        baseOnToday,
+        exceptions,
+        businessDays,
+        startDate,
+        scheduledDate,
+        dueDate,
+    }: {
+        options: Partial<Options>;
+        baseOnToday: boolean;
+        exceptions: Moment[];
+        businessDays: boolean;
+        startDate: Moment | null;
+        scheduledDate: Moment | null;
+        dueDate: Moment | null;
+    }): Recurrence {
+        // Pick the reference date for recurrence based on importance.
+        // Assuming due date has the highest priority.
+        let referenceDate: Moment | null = null;
+        // Clone the moment objects.
+        if (dueDate) {
+            referenceDate = window.moment(dueDate);
+        } else if (scheduledDate) {
+            referenceDate = window.moment(scheduledDate);
+        } else if (startDate) {
+            referenceDate = window.moment(startDate);
+        }
+
+        if (!baseOnToday && referenceDate !== null) {
+            options.dtstart = window.moment(referenceDate).startOf('day').utc(true).toDate();
+        } else {
+            options.dtstart = window.moment().startOf('day').utc(true).toDate();
+        }
+
+        const rrule = new RRule(options);
+        return new Recurrence({
+            rrule,
+            baseOnToday,
+            referenceDate,
+            startDate,
+            scheduledDate,
+            dueDate,
+            exceptions,
+            businessDays,
+        });
+    }
+
+    /**
+     * The rule as written in a task, which {@link fromText} reads back.
+     *
+     * Any end date is written as 'until YYYY-MM-DD', followed by any exceptions
+     * as 'except YYYY-MM-DD, YYYY-MM-DD'.
+     */
     public toText(): string {
-        let text = this.rrule.toText();
+        const { until, ...optionsWithoutUntil } = this.rrule.origOptions;
+        let text: string;
+        if (this.businessDays) {
+            const { interval, count } = optionsWithoutUntil;
+            text = interval && interval > 1 ? `every ${interval} business days` : 'every business day';
+            if (count) {
+                text += count === 1 ? ' for 1 time' : ` for ${count} times`;
+            }
+        } else {
+            text = until ? new RRule(optionsWithoutUntil).toText() : this.rrule.toText();
+        }
+        if (until) {
+            text += ' until ' + window.moment.utc(until).format(dateFormat);
+        }
+        if (this.exceptions.length > 0) {
+            text += ' except ' + this.exceptions.map((exception) => exception.format(dateFormat)).join(', ');
+        }
         if (this.baseOnToday) {
             text += ' when done';
         }
@@ -113,34 +214,61 @@ export class Recurrence {
         return text;
     }
 
+    /**
+     * The number of occurrences left, including this one, or null if the rule
+     * has neither an end date nor a number of times.
+     *
+     * Exceptions are not counted, so 'for N times' leaves fewer than N occurrences
+     * if some of them are skipped.
+     */
+    public get remainingOccurrences(): number | null {
+        const { count, until } = this.rrule.origOptions;
+        if (!count && !until) {
+            return null;
+        }
+
+        return this.allOccurrences(this.rrule).filter((occurrence) => !this.isException(occurrence)).length;
+    }
+
     /**
      * Returns the dates of the next occurrence or null if there is no next occurrence.
+     *
+     * Dates given as exceptions are skipped. There is no next occurrence after the end date of
+     * an 'until' rule, or for the last of the occurrences of a 'for N times' rule.
+     *
+     * The recurrence of the next occurrence is also returned, as it counts down the occurrences left.
      */
     public next(): {
         startDate: Moment | null;
         scheduledDate: Moment | null;
         dueDate: Moment | null;
+        recurrence: Recurrence;
     } | null {
-        let next: Date;
+        let rrule: RRule;
+        let after: Moment;
         if (this.baseOnToday) {
             // The next occurrence should happen based off the current date.
             const today = window.moment();
-            const ruleBasedOnToday = new RRule({
+            rrule = new RRule({
                 ...this.rrule.origOptions,
                 dtstart: today.startOf('day').utc(true).toDate(),
             });
-            next = this.nextAfter(today.endOf('day'), ruleBasedOnToday);
+            after = today.endOf('day');
         } else {
             // The next occurrence should happen based on the original reference
             // date if possible. Otherwise, base it on today if we do not have a
             // reference date.
-            const after = window
+            after = window
                 // Reference date can be `undefined` to mean "today".
                 // Moment only accepts `undefined`, not `null`.
                 .moment(this.referenceDate ?? undefined)
                 .endOf('day');
+            rrule = this.rrule;
+        }
 
-            next = this.nextAfter(after, this.rrule);
+        let next = this.nextOccurrenceAfter(after, rrule);
+        while (next !== null && this.isException(window.moment(next))) {
+            next = this.nextOccurrenceAfter(window.moment(next).endOf('day'), rrule);
         }
 
         if (next !== null) {
@@ -179,10 +307,28 @@ export class Recurrence {
                 }
             }
 
+            // The recurrence keeps the due date before it is moved to a working day,
+            // so that moving it does not move the occurrences after it.
+            const recurrence = Recurrence.fromOptions({
+                options: { ...this.rrule.origOptions, count: this.countFrom(rrule, next) },
+                baseOnToday: this.baseOnToday,
+                exceptions: this.exceptions,
+                businessDays: this.businessDays,
+                startDate,
+                scheduledDate,
+                dueDate,
+            });
+
+            const { moveRecurringDueDatesToWorkingDays } = getSettings();
+            if (moveRecurringDueDatesToWorkingDays && dueDate !== null) {
+                dueDate = BusinessDays.onOrAfter(dueDate);
+            }
+
             return {
                 startDate,
                 scheduledDate,
                 dueDate,
+                recurrence,
             };
         }
 
@@ -209,7 +355,8 @@ export class Recurrence {
     }
 
     /**
-     * nextAfter returns the next occurrence's date after `after`, based on the given rrule.
+     * nextAfter returns the next occurrence's date after `after`, based on the given rrule,
+     * or null if the rule has ended.
      *
      * The common case is that `rrule.after` calculates the next date and it
      * can be used as is.
@@ -228,12 +375,17 @@ export class Recurrence {
      * eventually calculate the next occurrence based on `2022-01-28`, ending up
      * in February as the user would expect.
      */
-    private nextAfter(after: Moment, rrule: RRule): Date {
+    private nextAfter(after: Moment, rrule: RRule): Date | null {
         // We need to remove the timezone, as rrule does not regard timezones and always
         // calculates in UTC.
         // The timezone is added again before returning the next date.
         after.utc(true);
-        let next = window.moment(rrule.after(after.toDate()));
+        const firstAfter = rrule.after(after.toDate());
+        if (firstAfter === null) {
+            // The rule has ended.
+            return null;
+        }
+        let next = window.moment(firstAfter);
 
         // If this is a monthly recurrence, treat it special.
         const asText = this.toText();
@@ -251,10 +403,78 @@ export class Recurrence {
             next = Recurrence.nextAfterYears(after, next, rrule, yearMatch[1]);
         }
 
+        if (!next.isValid()) {
+            // The rule ended while looking for a date in the right month or year.
+            return null;
+        }
+
         // Here we add the timezone again that we removed in the beginning of this method.
         return Recurrence.addTimezone(next).toDate();
     }
 
+    private isException(date: Moment): boolean {
+        const day = date.format(dateFormat);
+        return this.exceptions.some((exception) => exception.format(dateFormat) === day);
+    }
+
+    /**
+     * The number of occurrences of a 'for N times' rule on or after the given date,
+     * or undefined if the rule is not limited to a number of times.
+     */
+    private countFrom(rrule: RRule, date: Date): number | undefined {
+        if (!rrule.origOptions.count) {
+            return undefined;
+        }
+
+        const day = window.moment(date).format(dateFormat);
+        const remaining = this.allOccurrences(rrule).filter((occurrence) => occurrence.format(dateFormat) >= day);
+        return Math.max(remaining.length, 1);
+    }
+
+    /**
+     * All the occurrences of a rule that has an end date or a number of times.
+     *
+     * Like the dates from rrule, these are in UTC, standing for the same day in the local time zone.
+     */
+    private allOccurrences(rrule: RRule): Moment[] {
+        if (this.businessDays) {
+            return Array.from(Recurrence.businessDayOccurrences(rrule));
+        }
+        return rrule.all().map((occurrence) => window.moment.utc(occurrence));
+    }
+
+    private nextOccurrenceAfter(after: Moment, rrule: RRule): Date | null {
+        if (!this.businessDays) {
+            return this.nextAfter(after, rrule);
+        }
+
+        const afterDay = after.format(dateFormat);
+        for (const occurrence of Recurrence.businessDayOccurrences(rrule)) {
+            const day = occurrence.format(dateFormat);
+            if (day > afterDay) {
+                return window.moment(day, dateFormat).toDate();
+            }
+        }
+        return null;
+    }
+
+    /**
+     * The dates of an 'every N business days' rule, starting from its start date,
+     * and going on for ever if it has neither an end date nor a number of times.
+     */
+    private static *businessDayOccurrences(rrule: RRule): Generator<Moment> {
+        const { dtstart, interval, count, until } = rrule.origOptions;
+        const lastDay = until ? window.moment.utc(until).format(dateFormat) : null;
+        let occurrence = window.moment.utc(dtstart).startOf('day');
+        for (let index = 0; !count || index < count; index++) {
+            if (lastDay !== null && occurrence.format(dateFormat) > lastDay) {
+                return;
+            }
+            yield occurrence;
+            occurrence = BusinessDays.add(occurrence, interval ?? 1);
+        }
+    }
+
     /**
      * nextAfterMonths calculates the next date after `skippingMonths` months.
      *
@@ -0,0 +1,54 @@
+import { App, Modal } from 'obsidian';
+import type { Moment } from 'moment';
+import { DateParser } from './Query/DateParser';
+
+/**
+ * A single-line text box for the 'Snooze task until date' command,
+ * showing the date that the text will be read as while it is typed.
+ */
+export class SnoozeModal extends Modal {
+    public readonly onSubmit: (date: Moment) => void;
+
+    constructor({ app, onSubmit }: { app: App; onSubmit: (date: Moment) => void }) {
+        super(app);
+
+        this.onSubmit = (date: Moment) => {
+            onSubmit(date);
+            this.close();
+        };
+    }
+
+    public onOpen(): void {
+        this.titleEl.setText('Snooze task until');
+        const { contentEl } = this;
+
+        const input = contentEl.createEl('input', {
+            type: 'text',
+            cls: 'tasks-quick-add-input',
+            placeholder: 'next monday, in 2 weeks, 2023-07-21',
+        });
+        const preview = contentEl.createEl('p', { cls: 'tasks-quick-add-preview' });
+
+        const readDate = () => DateParser.parseDate(input.value, true);
+        input.addEventListener('input', () => {
+            const date = readDate();
+            preview.setText(date.isValid() ? date.format('ddd Do MMM YYYY') : '');
+        });
+        input.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key !== 'Enter') {
+                return;
+            }
+            event.preventDefault();
+            const date = readDate();
+            if (date.isValid()) {
+                this.onSubmit(date);
+            }
+        });
+        input.focus();
+    }
+
+    public onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
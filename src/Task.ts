@@ -4,7 +4,8 @@ import type { TaskLayoutComponent } from './TaskLayout';
 import { Recurrence } from './Recurrence';
 import { getSettings } from './Config/Settings';
 import { StatusRegistry } from './StatusRegistry';
-import type { Status } from './Status';
+import { Status } from './Status';
+import { StatusType } from './StatusConfiguration';
 import { Urgency } from './Urgency';
 import { renderTaskLine } from './TaskLineRenderer';
 import type { TaskLineRenderDetails } from './TaskLineRenderer';
@@ -66,10 +67,17 @@ export const startDateSymbol = '🛫';
 export const scheduledDateSymbol = '⏳';
 export const dueDateSymbol = '📅';
 export const doneDateSymbol = '✅';
+export const createdDateSymbol = '➕';
+export const cancelledDateSymbol = '❌';
 export const estimatedTimeToCompleteSymbol = '⏱';
+export const timeSpentSymbol = '⏲';
+export const timerStartedSymbol = '▶';
+export const idSymbol = '🆔';
+export const dependsOnSymbol = '⛔';
 
 export class TaskRegularExpressions {
     public static readonly dateFormat = 'YYYY-MM-DD';
+    public static readonly timeOfDayFormat = 'HH:mm';
 
     // Matches indentation before a list marker (including > for potentially nested blockquotes or Obsidian callouts)
     public static readonly indentationRegex = /^([\s\t>]*)/;
@@ -119,11 +127,22 @@ export class TaskRegularExpressions {
     // The following regex's end with `$` because they will be matched and
     // removed from the end until none are left.
     public static readonly priorityRegex = /([⏫🔼🔽])$/u;
-    public static readonly startDateRegex = /🛫 *(\d{4}-\d{2}-\d{2})$/u;
-    public static readonly scheduledDateRegex = /[⏳⌛] *(\d{4}-\d{2}-\d{2})$/u;
-    public static readonly dueDateRegex = /[📅📆🗓] *(\d{4}-\d{2}-\d{2})$/u;
+    // Start, scheduled and due dates may be followed by a time of day, such as `📅 2023-07-14 15:30`.
+    public static readonly startDateRegex = /🛫 *(\d{4}-\d{2}-\d{2})(?: +((?:[01]\d|2[0-3]):[0-5]\d))?$/u;
+    public static readonly scheduledDateRegex = /[⏳⌛] *(\d{4}-\d{2}-\d{2})(?: +((?:[01]\d|2[0-3]):[0-5]\d))?$/u;
+    public static readonly dueDateRegex = /[📅📆🗓] *(\d{4}-\d{2}-\d{2})(?: +((?:[01]\d|2[0-3]):[0-5]\d))?$/u;
     public static readonly doneDateRegex = /✅ *(\d{4}-\d{2}-\d{2})$/u;
-    public static readonly recurrenceRegex = /🔁 ?([a-zA-Z0-9, !]+)$/iu;
+    public static readonly createdDateRegex = /➕ *(\d{4}-\d{2}-\d{2})$/u;
+    public static readonly cancelledDateRegex = /❌ *(\d{4}-\d{2}-\d{2})$/u;
+    public static readonly recurrenceRegex = /🔁 ?([a-zA-Z0-9, !-]+)$/iu;
+
+    // Task ids are letters, digits, '-' and '_', and 'depends on' is a comma-separated list of ids.
+    public static readonly idCharacters = '[a-zA-Z0-9_-]+';
+    public static readonly idRegex = new RegExp(`${idSymbol} *(${TaskRegularExpressions.idCharacters})$`, 'u');
+    public static readonly dependsOnRegex = new RegExp(
+        `${dependsOnSymbol}\uFE0F? *(${TaskRegularExpressions.idCharacters}( *, *${TaskRegularExpressions.idCharacters})*)$`,
+        'u',
+    );
 
     public static readonly estimatedTimeToCompleteRegexShortform = '\\d{1,2}:(?:[0-5]\\d|\\d)';
     public static readonly estimatedTimeToCompleteRegex = new RegExp(
@@ -131,6 +150,15 @@ export class TaskRegularExpressions {
         'u',
     ); // HH:mm
 
+    // Time spent may run to more than 99 hours, as it accumulates over many sessions.
+    public static readonly timeSpentRegexShortform = '\\d+:[0-5]\\d';
+    public static readonly timeSpentRegex = new RegExp(
+        `${timeSpentSymbol}\uFE0F? *(${TaskRegularExpressions.timeSpentRegexShortform})$`,
+        'u',
+    ); // H:mm
+    public static readonly timerStartedFormat = 'YYYY-MM-DDTHH:mm';
+    public static readonly timerStartedRegex = /▶\uFE0F? *(\d{4}-\d{2}-\d{2}T\d{2}:\d{2})$/u;
+
     // Regex to match all hash tags, basically hash followed by anything but the characters in the negation.
     // To ensure URLs are not caught it is looking of beginning of string tag and any
     // tag that has a space in front of it. Any # that has a character in front
@@ -177,8 +205,56 @@ export class Task {
         return null;
     }
 
+    /**
+     * Format a number of minutes spent on a task as `HH:mm`. Hours are not limited to two digits.
+     */
+    public static timeSpentToString(timeSpent: number): string {
+        const hours = Math.floor(timeSpent / 60);
+        const minutes = timeSpent % 60;
+        return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Format a date as written in a task line, followed by its time of day, if it has one.
+     */
+    public static dateToString(date: Moment, time: string | null): string {
+        const dateText = date.format(TaskRegularExpressions.dateFormat);
+        return time !== null ? `${dateText} ${time}` : dateText;
+    }
+
+    /**
+     * Combine a date with its time of day, as `HH:mm`.
+     *
+     * Dates without a time are returned unchanged, at the start of their day.
+     *
+     * @return A new Moment if there is a time: the given date is not changed.
+     */
+    public static dateWithTime(date: Moment | null, time: string | null): Moment | null {
+        if (date === null || time === null) {
+            return date;
+        }
+        const timeOfDay = window.moment(time, TaskRegularExpressions.timeOfDayFormat);
+        return date.clone().set({ hour: timeOfDay.hour(), minute: timeOfDay.minute(), second: 0, millisecond: 0 });
+    }
+
+    /**
+     * Parse a time spent in the form `H:mm`, returning the number of minutes, or null if the text is not understood.
+     */
+    public static timeSpentFromString(timeSpent: string): number | null {
+        const regex = new RegExp(`^${TaskRegularExpressions.timeSpentRegexShortform}$`);
+        if (!regex.test(timeSpent)) {
+            return null;
+        }
+        const times = timeSpent.split(':');
+        return parseInt(times[0]) * 60 + parseInt(times[1]);
+    }
+
     // TODO: giving write access for now.
     public estimatedTimeToComplete: number | null | undefined;
+    /** The number of minutes recorded as spent on the task, or null if no time has been recorded. */
+    public readonly timeSpent: number | null;
+    /** When the currently running timer was started, or null if no timer is running. */
+    public readonly timerStarted: Moment | null;
 
     public readonly status: Status;
     public readonly description: string;
@@ -198,12 +274,27 @@ export class Task {
     public readonly startDate: Moment | null;
     public readonly scheduledDate: Moment | null;
     public readonly dueDate: Moment | null;
+    /** The time of day of the start date, as `HH:mm`, or null if it has none. */
+    public readonly startTime: string | null;
+    /** The time of day of the scheduled date, as `HH:mm`, or null if it has none. */
+    public readonly scheduledTime: string | null;
+    /** The time of day of the due date, as `HH:mm`, or null if it has none. */
+    public readonly dueTime: string | null;
     public readonly doneDate: Moment | null;
+    /** The date the task was moved to a {@link StatusType.CANCELLED} status, if enabled in settings. */
+    public readonly cancelledDate: Moment | null;
+    /** The date the task was added, stamped by 'Create or edit task' if enabled in settings. */
+    public readonly createdDate: Moment | null;
 
     public readonly recurrence: Recurrence | null;
     /** The blockLink is a "^" annotation after the dates/recurrence rules. */
     public readonly blockLink: string;
 
+    /** An optional identifier, for other tasks to refer to in {@link dependsOn}. Empty if not set. */
+    public readonly id: string;
+    /** The ids of the tasks that must be completed before this task can be started. */
+    public readonly dependsOn: string[];
+
     /** The original line read from file.
      *
      * Will be empty if Task was created programmatically
@@ -212,10 +303,19 @@ export class Task {
 
     public readonly scheduledDateIsInferred: boolean;
 
-    private _urgency: number | null = null;
+    private _urgency: { value: number; generation: number } | null = null;
+
+    // Set by the cache when the file containing the task is read, and not copied to new tasks made from this one.
+    private _parent: Task | null = null;
+    private readonly _children: Task[] = [];
+
+    // Set on the future occurrences made by projectOccurrences(), which exist only in query results.
+    private _projectedFrom: Task | null = null;
 
     constructor({
         estimatedTimeToComplete,
+        timeSpent,
+        timerStarted,
         status,
         description,
         path,
@@ -228,14 +328,23 @@ export class Task {
         startDate,
         scheduledDate,
         dueDate,
+        startTime,
+        scheduledTime,
+        dueTime,
         doneDate,
+        createdDate,
+        cancelledDate,
         recurrence,
         blockLink,
+        id,
+        dependsOn,
         tags,
         originalMarkdown,
         scheduledDateIsInferred,
     }: {
         estimatedTimeToComplete: number | null | undefined;
+        timeSpent: number | null;
+        timerStarted: Moment | null;
         status: Status;
         description: string;
         path: string;
@@ -248,9 +357,16 @@ export class Task {
         startDate: moment.Moment | null;
         scheduledDate: moment.Moment | null;
         dueDate: moment.Moment | null;
+        startTime: string | null;
+        scheduledTime: string | null;
+        dueTime: string | null;
         doneDate: moment.Moment | null;
+        createdDate: moment.Moment | null;
+        cancelledDate: moment.Moment | null;
         recurrence: Recurrence | null;
         blockLink: string;
+        id: string;
+        dependsOn: string[];
         tags: string[] | [];
         originalMarkdown: string;
         scheduledDateIsInferred: boolean;
@@ -271,15 +387,25 @@ export class Task {
         this.startDate = startDate;
         this.scheduledDate = scheduledDate;
         this.dueDate = dueDate;
+        // A time is only kept with its date.
+        this.startTime = startDate ? startTime : null;
+        this.scheduledTime = scheduledDate ? scheduledTime : null;
+        this.dueTime = dueDate ? dueTime : null;
         this.doneDate = doneDate;
+        this.createdDate = createdDate;
+        this.cancelledDate = cancelledDate;
 
         this.recurrence = recurrence;
         this.blockLink = blockLink;
+        this.id = id;
+        this.dependsOn = dependsOn;
         this.originalMarkdown = originalMarkdown;
 
         this.scheduledDateIsInferred = scheduledDateIsInferred;
 
         this.estimatedTimeToComplete = estimatedTimeToComplete;
+        this.timeSpent = timeSpent;
+        this.timerStarted = timerStarted;
     }
 
     /**
@@ -352,10 +478,19 @@ export class Task {
         let scheduledDate: Moment | null = null;
         let scheduledDateIsInferred = false;
         let dueDate: Moment | null = null;
+        let startTime: string | null = null;
+        let scheduledTime: string | null = null;
+        let dueTime: string | null = null;
         let doneDate: Moment | null = null;
+        let createdDate: Moment | null = null;
+        let cancelledDate: Moment | null = null;
         let estimatedTimeToComplete: number | null | undefined = undefined;
+        let timeSpent: number | null = null;
+        let timerStarted: Moment | null = null;
         let recurrenceRule: string = '';
         let recurrence: Recurrence | null = null;
+        let id: string = '';
+        let dependsOn: string[] = [];
         let tags: any = [];
         // Tags that are removed from the end while parsing, but we want to add them back for being part of the description.
         // In the original task description they are possibly mixed with other components
@@ -392,6 +527,34 @@ export class Task {
                 matched = true;
             }
 
+            const timerStartedMatch = description.match(TaskRegularExpressions.timerStartedRegex);
+            if (timerStartedMatch !== null) {
+                timerStarted = window.moment(timerStartedMatch[1], TaskRegularExpressions.timerStartedFormat);
+                description = description.replace(TaskRegularExpressions.timerStartedRegex, '').trim();
+                matched = true;
+            }
+
+            const timeSpentMatch = description.match(TaskRegularExpressions.timeSpentRegex);
+            if (timeSpentMatch !== null) {
+                timeSpent = Task.timeSpentFromString(timeSpentMatch[1]);
+                description = description.replace(TaskRegularExpressions.timeSpentRegex, '').trim();
+                matched = true;
+            }
+
+            const idMatch = description.match(TaskRegularExpressions.idRegex);
+            if (idMatch !== null) {
+                id = idMatch[1];
+                description = description.replace(TaskRegularExpressions.idRegex, '').trim();
+                matched = true;
+            }
+
+            const dependsOnMatch = description.match(TaskRegularExpressions.dependsOnRegex);
+            if (dependsOnMatch !== null) {
+                dependsOn = dependsOnMatch[1].split(',').map((dependency) => dependency.trim());
+                description = description.replace(TaskRegularExpressions.dependsOnRegex, '').trim();
+                matched = true;
+            }
+
             const doneDateMatch = description.match(TaskRegularExpressions.doneDateRegex);
             if (doneDateMatch !== null) {
                 doneDate = window.moment(doneDateMatch[1], TaskRegularExpressions.dateFormat);
@@ -399,9 +562,24 @@ export class Task {
                 matched = true;
             }
 
+            const cancelledDateMatch = description.match(TaskRegularExpressions.cancelledDateRegex);
+            if (cancelledDateMatch !== null) {
+                cancelledDate = window.moment(cancelledDateMatch[1], TaskRegularExpressions.dateFormat);
+                description = description.replace(TaskRegularExpressions.cancelledDateRegex, '').trim();
+                matched = true;
+            }
+
+            const createdDateMatch = description.match(TaskRegularExpressions.createdDateRegex);
+            if (createdDateMatch !== null) {
+                createdDate = window.moment(createdDateMatch[1], TaskRegularExpressions.dateFormat);
+                description = description.replace(TaskRegularExpressions.createdDateRegex, '').trim();
+                matched = true;
+            }
+
             const dueDateMatch = description.match(TaskRegularExpressions.dueDateRegex);
             if (dueDateMatch !== null) {
                 dueDate = window.moment(dueDateMatch[1], TaskRegularExpressions.dateFormat);
+                dueTime = dueDateMatch[2] ?? null;
                 description = description.replace(TaskRegularExpressions.dueDateRegex, '').trim();
                 matched = true;
             }
@@ -409,6 +587,7 @@ export class Task {
             const scheduledDateMatch = description.match(TaskRegularExpressions.scheduledDateRegex);
             if (scheduledDateMatch !== null) {
                 scheduledDate = window.moment(scheduledDateMatch[1], TaskRegularExpressions.dateFormat);
+                scheduledTime = scheduledDateMatch[2] ?? null;
                 description = description.replace(TaskRegularExpressions.scheduledDateRegex, '').trim();
                 matched = true;
             }
@@ -416,6 +595,7 @@ export class Task {
             const startDateMatch = description.match(TaskRegularExpressions.startDateRegex);
             if (startDateMatch !== null) {
                 startDate = window.moment(startDateMatch[1], TaskRegularExpressions.dateFormat);
+                startTime = startDateMatch[2] ?? null;
                 description = description.replace(TaskRegularExpressions.startDateRegex, '').trim();
                 matched = true;
             }
@@ -477,6 +657,8 @@ export class Task {
 
         return new Task({
             estimatedTimeToComplete,
+            timeSpent,
+            timerStarted,
             status,
             description,
             path,
@@ -489,9 +671,16 @@ export class Task {
             startDate,
             scheduledDate,
             dueDate,
+            startTime,
+            scheduledTime,
+            dueTime,
             doneDate,
+            createdDate,
+            cancelledDate,
             recurrence,
             blockLink,
+            id,
+            dependsOn,
             tags,
             originalMarkdown: line,
             scheduledDateIsInferred,
@@ -544,12 +733,22 @@ export class Task {
                 if (!this.startDate) return '';
                 return layout.options.shortMode
                     ? ' ' + startDateSymbol
-                    : ` ${startDateSymbol} ${this.startDate.format(TaskRegularExpressions.dateFormat)}`;
+                    : ` ${startDateSymbol} ${Task.dateToString(this.startDate, this.startTime)}`;
             case 'scheduledDate':
                 if (!this.scheduledDate || this.scheduledDateIsInferred) return '';
                 return layout.options.shortMode
                     ? ' ' + scheduledDateSymbol
-                    : ` ${scheduledDateSymbol} ${this.scheduledDate.format(TaskRegularExpressions.dateFormat)}`;
+                    : ` ${scheduledDateSymbol} ${Task.dateToString(this.scheduledDate, this.scheduledTime)}`;
+            case 'cancelledDate':
+                if (!this.cancelledDate) return '';
+                return layout.options.shortMode
+                    ? ' ' + cancelledDateSymbol
+                    : ` ${cancelledDateSymbol} ${this.cancelledDate.format(TaskRegularExpressions.dateFormat)}`;
+            case 'createdDate':
+                if (!this.createdDate) return '';
+                return layout.options.shortMode
+                    ? ' ' + createdDateSymbol
+                    : ` ${createdDateSymbol} ${this.createdDate.format(TaskRegularExpressions.dateFormat)}`;
             case 'doneDate':
                 if (!this.doneDate) return '';
                 return layout.options.shortMode
@@ -559,12 +758,20 @@ export class Task {
                 if (!this.dueDate) return '';
                 return layout.options.shortMode
                     ? ' ' + dueDateSymbol
-                    : ` ${dueDateSymbol} ${this.dueDate.format(TaskRegularExpressions.dateFormat)}`;
+                    : ` ${dueDateSymbol} ${Task.dateToString(this.dueDate, this.dueTime)}`;
             case 'recurrenceRule':
                 if (!this.recurrence) return '';
                 return layout.options.shortMode
                     ? ' ' + recurrenceSymbol
                     : ` ${recurrenceSymbol} ${this.recurrence.toText()}`;
+            case 'dependsOn':
+                if (this.dependsOn.length === 0) return '';
+                return layout.options.shortMode
+                    ? ' ' + dependsOnSymbol
+                    : ` ${dependsOnSymbol} ${this.dependsOn.join(',')}`;
+            case 'id':
+                if (!this.id) return '';
+                return layout.options.shortMode ? ' ' + idSymbol : ` ${idSymbol} ${this.id}`;
             case 'blockLink':
                 return this.blockLink ?? '';
             case 'estimatedTimeToComplete':
@@ -574,6 +781,22 @@ export class Task {
                     : ` ${estimatedTimeToCompleteSymbol} ${Task.estimatedTimeToCompleteToString(
                           this.estimatedTimeToComplete,
                       )}`;
+            case 'timeSpent': {
+                let timeSpent = '';
+                if (this.timeSpent !== null) {
+                    timeSpent += layout.options.shortMode
+                        ? ' ' + timeSpentSymbol
+                        : ` ${timeSpentSymbol} ${Task.timeSpentToString(this.timeSpent)}`;
+                }
+                if (this.timerStarted) {
+                    timeSpent += layout.options.shortMode
+                        ? ' ' + timerStartedSymbol
+                        : ` ${timerStartedSymbol} ${this.timerStarted.format(
+                              TaskRegularExpressions.timerStartedFormat,
+                          )}`;
+                }
+                return timeSpent;
+            }
             default:
                 throw new Error(`Don't know how to render task component of type '${component}'`);
         }
@@ -589,6 +812,15 @@ export class Task {
         return `${this.indentation}${this.listMarker} [${this.status.symbol}] ${this.toString()}`;
     }
 
+    /**
+     * The created date to give a task that is being added now: today,
+     * or null if stamping created dates is disabled in settings.
+     */
+    public static newCreatedDate(): Moment | null {
+        const { setCreatedDate } = getSettings();
+        return setCreatedDate ? window.moment().startOf('day') : null;
+    }
+
     /**
      * Toggles this task and returns the resulting tasks.
      *
@@ -599,13 +831,24 @@ export class Task {
      */
     public toggle(): Task[] {
         const newStatus = StatusRegistry.getInstance().getNextStatusOrCreate(this.status);
+        return this.handleNewStatus(newStatus);
+    }
 
+    /**
+     * Changes this task to the given status and returns the resulting tasks,
+     * exactly as {@link toggle} does when it moves to that status: the done and cancelled dates
+     * are set or cleared, and a completed recurring task is returned with its next occurrence.
+     * A cancelled recurring task is also returned with its next occurrence, if enabled in settings.
+     */
+    public handleNewStatus(newStatus: Status): Task[] {
         let newDoneDate = null;
+        let newCancelledDate = null;
 
         let nextOccurrence: {
             startDate: Moment | null;
             scheduledDate: Moment | null;
             dueDate: Moment | null;
+            recurrence: Recurrence;
         } | null = null;
 
         if (newStatus.isCompleted()) {
@@ -619,12 +862,23 @@ export class Task {
             if (this.recurrence !== null) {
                 nextOccurrence = this.recurrence.next();
             }
+        } else if (newStatus.type === StatusType.CANCELLED) {
+            const { setCancelledDate, recurCancelledTasks } = getSettings();
+            if (setCancelledDate) {
+                newCancelledDate = window.moment();
+            }
+
+            // Cancelling one occurrence only ends the recurrence if the user wants it to:
+            if (this.recurrence !== null && recurCancelledTasks) {
+                nextOccurrence = this.recurrence.next();
+            }
         }
 
         const toggledTask = new Task({
             ...this,
             status: newStatus,
             doneDate: newDoneDate,
+            cancelledDate: newCancelledDate,
         });
 
         const newTasks: Task[] = [];
@@ -638,6 +892,12 @@ export class Task {
                 // New occurrences cannot have the same block link.
                 // And random block links don't help.
                 blockLink: '',
+                // Nor the same id, which would make tasks that depend on it ambiguous.
+                id: '',
+                // Time is tracked separately for each occurrence.
+                timeSpent: null,
+                timerStarted: null,
+                cancelledDate: null,
             });
             newTasks.push(nextTask);
         }
@@ -648,12 +908,132 @@ export class Task {
         return newTasks;
     }
 
+    /**
+     * The most future occurrences projected for each task, so that a distant date on a frequent rule,
+     * such as 'every day', does not make thousands of tasks each time a query is rendered.
+     */
+    public static readonly maximumProjectedOccurrences = 100;
+
+    /**
+     * The future occurrences of this recurring task, up to and including the given date,
+     * as they would be created by completing this task and each occurrence after it in turn,
+     * up to {@link maximumProjectedOccurrences}.
+     *
+     * The occurrences are for display only: see {@link projectedFrom}.
+     *
+     * Nothing is projected for tasks that are done or cancelled, as their next occurrence already exists,
+     * nor for tasks that recur 'when done', whose later occurrences depend on when each is completed.
+     */
+    public projectOccurrences(until: Moment): Task[] {
+        const isOpen = this.status.type === StatusType.TODO || this.status.type === StatusType.IN_PROGRESS;
+        if (this.recurrence === null || !isOpen || this.recurrence.toText().endsWith(' when done')) {
+            return [];
+        }
+
+        const occurrences: Task[] = [];
+        let previous: Task = this;
+        let recurrence: Recurrence | null = this.recurrence;
+        while (recurrence !== null && occurrences.length < Task.maximumProjectedOccurrences) {
+            const nextOccurrence = recurrence.next();
+            const happens = nextOccurrence?.dueDate ?? nextOccurrence?.scheduledDate ?? nextOccurrence?.startDate;
+            // Tasks with no dates recur from today, so have no series of future dates.
+            if (!nextOccurrence || !happens || happens.isAfter(until, 'day')) {
+                break;
+            }
+
+            const occurrence = new Task({
+                ...previous,
+                ...nextOccurrence,
+                status: StatusRegistry.getInstance().getNextStatusOrCreate(Status.DONE),
+                blockLink: '',
+                id: '',
+                timeSpent: null,
+                timerStarted: null,
+                doneDate: null,
+                cancelledDate: null,
+            });
+            occurrence._projectedFrom = this;
+            occurrences.push(occurrence);
+
+            previous = occurrence;
+            recurrence = nextOccurrence.recurrence;
+        }
+
+        return occurrences;
+    }
+
+    /**
+     * Start the timer on this task if it is not running, or stop it if it is,
+     * adding the whole minutes elapsed since it was started to {@link timeSpent}.
+     *
+     * @param now - the time to start or stop the timer at.
+     */
+    public toggleTimer(now: Moment = window.moment()): Task {
+        if (this.timerStarted === null) {
+            return new Task({ ...this, timerStarted: now.clone().startOf('minute') });
+        }
+
+        const elapsed = Math.max(0, now.diff(this.timerStarted, 'minutes'));
+        return new Task({
+            ...this,
+            timeSpent: (this.timeSpent ?? 0) + elapsed,
+            timerStarted: null,
+        });
+    }
+
+    /** The start date, at its time of day if it has one. */
+    public get startDateTime(): Moment | null {
+        return Task.dateWithTime(this.startDate, this.startTime);
+    }
+
+    /** The scheduled date, at its time of day if it has one. */
+    public get scheduledDateTime(): Moment | null {
+        return Task.dateWithTime(this.scheduledDate, this.scheduledTime);
+    }
+
+    /** The due date, at its time of day if it has one. */
+    public get dueDateTime(): Moment | null {
+        return Task.dateWithTime(this.dueDate, this.dueTime);
+    }
+
     public get urgency(): number {
-        if (this._urgency === null) {
-            this._urgency = Urgency.calculate(this);
+        if (this._urgency === null || this._urgency.generation !== Urgency.generation) {
+            this._urgency = { value: Urgency.calculate(this), generation: Urgency.generation };
         }
 
-        return this._urgency;
+        return this._urgency.value;
+    }
+
+    /**
+     * The nearest task above this one in its nested list, or null if it is not a subtask.
+     *
+     * List items between the two that are not tasks are skipped.
+     */
+    public get parent(): Task | null {
+        return this._parent;
+    }
+
+    /**
+     * The tasks whose {@link parent} is this task, in the order they appear in the file.
+     */
+    public get children(): Task[] {
+        return this._children;
+    }
+
+    /**
+     * Record that one task is nested below another, as found when reading a file.
+     */
+    public static linkParentAndChild(parent: Task, child: Task) {
+        child._parent = parent;
+        parent._children.push(child);
+    }
+
+    /**
+     * The recurring task that this is a future occurrence of, made by {@link projectOccurrences},
+     * or null if this task is in a file.
+     */
+    public get projectedFrom(): Task | null {
+        return this._projectedFrom;
     }
 
     /**
@@ -746,7 +1126,12 @@ export class Task {
             'precedingHeader',
             'priority',
             'estimatedTimeToComplete',
+            'timeSpent',
+            'startTime',
+            'scheduledTime',
+            'dueTime',
             'blockLink',
+            'id',
             'scheduledDateIsInferred',
         ];
         for (const el of args) {
@@ -766,8 +1151,22 @@ export class Task {
             return false;
         }
 
+        // Compare dependencies
+        if (this.dependsOn.join(',') !== other.dependsOn.join(',')) {
+            return false;
+        }
+
+        // Compare nesting, by location, as parent tasks are new objects each time a file is read
+        if (
+            this.parent?.sectionStart !== other.parent?.sectionStart ||
+            this.parent?.sectionIndex !== other.parent?.sectionIndex ||
+            this.children.length !== other.children.length
+        ) {
+            return false;
+        }
+
         // Compare Date fields
-        args = ['startDate', 'scheduledDate', 'dueDate', 'doneDate'];
+        args = ['startDate', 'scheduledDate', 'dueDate', 'doneDate', 'createdDate', 'cancelledDate', 'timerStarted'];
         for (const el of args) {
             const date1 = this[el] as Moment | null;
             const date2 = other[el] as Moment | null;
@@ -0,0 +1,102 @@
+import type { Task } from './Task';
+import { StatusType } from './StatusConfiguration';
+
+/**
+ * Look up the relationships between tasks, as defined by their {@link Task.id} and {@link Task.dependsOn} fields.
+ *
+ * Several tasks may share an id, for example if a task line was copied: a dependency on that id
+ * is satisfied only when all of them are completed.
+ */
+export class TaskDependencies {
+    private readonly tasksById = new Map<string, Task[]>();
+
+    /**
+     * @param allTasks - all the tasks that dependencies may refer to. Typically every task in the vault.
+     */
+    constructor(allTasks: Readonly<Task[]>) {
+        for (const task of allTasks) {
+            if (task.id === '') {
+                continue;
+            }
+            const tasksWithId = this.tasksById.get(task.id);
+            if (tasksWithId === undefined) {
+                this.tasksById.set(task.id, [task]);
+            } else {
+                tasksWithId.push(task);
+            }
+        }
+    }
+
+    /**
+     * Return whether a task still needs doing: that is, it is neither done nor cancelled.
+     */
+    public static isOpen(task: Task): boolean {
+        const type = task.status.type;
+        return type === StatusType.TODO || type === StatusType.IN_PROGRESS;
+    }
+
+    /**
+     * Return the tasks that this task depends on, which are not yet done or cancelled.
+     *
+     * Ids in {@link Task.dependsOn} that do not match any task are ignored.
+     */
+    public blockingTasks(task: Task): Task[] {
+        return task.dependsOn.flatMap((id) => this.tasksById.get(id) ?? []).filter(TaskDependencies.isOpen);
+    }
+
+    /**
+     * Return whether a task cannot be started yet, because it is open and depends on at least one open task.
+     */
+    public isBlocked(task: Task): boolean {
+        return TaskDependencies.isOpen(task) && this.blockingTasks(task).length > 0;
+    }
+
+    /**
+     * Find a cycle of dependencies that would pass through a task, if it replaced an existing one.
+     *
+     * @param allTasks - all the tasks that dependencies may refer to.
+     * @param originalTask - the task being edited, which is ignored if found in allTasks.
+     *                       Tasks with the same non-empty id in the same file are also ignored, as the
+     *                       task being edited may have been re-read from the editor, and so not be in allTasks.
+     * @param editedTask - the new version of the task.
+     * @return The ids in the cycle, starting and ending with the edited task's id,
+     *         or null if there is no cycle.
+     *
+     * @example
+     *     // Task 'a' depends on 'b', and 'b' depends on 'a':
+     *     TaskDependencies.findCycle(allTasks, original, edited); // ['a', 'b', 'a']
+     */
+    public static findCycle(allTasks: Readonly<Task[]>, originalTask: Task, editedTask: Task): string[] | null {
+        const startId = editedTask.id;
+        if (startId === '') {
+            return null;
+        }
+
+        const isOriginal = (task: Task) =>
+            task === originalTask ||
+            (originalTask.id !== '' && task.id === originalTask.id && task.path === originalTask.path);
+        const otherTasks = allTasks.filter((task) => !isOriginal(task));
+        const dependencies = new TaskDependencies([...otherTasks, editedTask]);
+
+        const visited = new Set<string>();
+        const search = (id: string, path: string[]): string[] | null => {
+            for (const task of dependencies.tasksById.get(id) ?? []) {
+                for (const dependency of task.dependsOn) {
+                    if (dependency === startId) {
+                        return [...path, dependency];
+                    }
+                    if (!visited.has(dependency)) {
+                        visited.add(dependency);
+                        const cycle = search(dependency, [...path, dependency]);
+                        if (cycle !== null) {
+                            return cycle;
+                        }
+                    }
+                }
+            }
+            return null;
+        };
+
+        return search(startId, [startId]);
+    }
+}
@@ -0,0 +1,89 @@
+import type { Moment } from 'moment';
+import type { Task } from './Task';
+
+/**
+ * The kinds of change to a task that other plugins can be told about.
+ *
+ * A completed task is also a change of status, so completing a task gives both events.
+ */
+export type TaskEventType = 'task-created' | 'task-deleted' | 'task-status-changed' | 'task-completed';
+
+export interface TaskEvent {
+    type: TaskEventType;
+    // The task as it is now, or as it was before it was deleted.
+    task: Task;
+    // The task before its status changed, or null if the task was created or deleted.
+    previousTask: Task | null;
+}
+
+/**
+ * Work out what happened to the tasks in a file, from the tasks read from it before and after it changed.
+ */
+export class TaskDiff {
+    /**
+     * Tasks whose line is unchanged are the same task. Each of the other old tasks is the new task
+     * with the same description that has the most in common with it, as in the examples below.
+     * Any tasks left over were created or deleted.
+     *
+     * - Completing a task changes its line, but not its description.
+     * - Completing a recurring task adds a new task with the same description.
+     *   The completed task keeps the dates of the old task, so has more in common with it than the new occurrence.
+     * - Changing the description of a task is seen as deleting it and creating a new task.
+     */
+    public static events(oldTasks: Task[], newTasks: Task[]): TaskEvent[] {
+        const unmatchedOld = [...oldTasks];
+        const unmatchedNew = [...newTasks];
+        const pairs: [Task, Task][] = [];
+
+        const takeMatch = (oldTask: Task, newTask: Task | undefined) => {
+            if (newTask === undefined) {
+                return;
+            }
+            unmatchedOld.splice(unmatchedOld.indexOf(oldTask), 1);
+            unmatchedNew.splice(unmatchedNew.indexOf(newTask), 1);
+            pairs.push([oldTask, newTask]);
+        };
+
+        for (const oldTask of [...unmatchedOld]) {
+            takeMatch(
+                oldTask,
+                unmatchedNew.find((newTask) => newTask.originalMarkdown === oldTask.originalMarkdown),
+            );
+        }
+
+        for (const oldTask of [...unmatchedOld]) {
+            const candidates = unmatchedNew.filter((newTask) => newTask.description === oldTask.description);
+            const scores = candidates.map((newTask) => TaskDiff.similarity(oldTask, newTask));
+            takeMatch(oldTask, candidates[scores.indexOf(Math.max(...scores))]);
+        }
+
+        const events: TaskEvent[] = [];
+        for (const [previousTask, task] of pairs) {
+            if (previousTask.status.symbol === task.status.symbol) {
+                continue;
+            }
+            events.push({ type: 'task-status-changed', task, previousTask });
+            if (!previousTask.status.isCompleted() && task.status.isCompleted()) {
+                events.push({ type: 'task-completed', task, previousTask });
+            }
+        }
+        events.push(...unmatchedNew.map((task): TaskEvent => ({ type: 'task-created', task, previousTask: null })));
+        events.push(...unmatchedOld.map((task): TaskEvent => ({ type: 'task-deleted', task, previousTask: null })));
+        return events;
+    }
+
+    /**
+     * The number of fields, other than the description and status, that two tasks have in common.
+     */
+    private static similarity(oldTask: Task, newTask: Task): number {
+        const sameDate = (a: Moment | null, b: Moment | null) => (a === null ? b === null : b !== null && a.isSame(b));
+        return [
+            sameDate(oldTask.startDate, newTask.startDate),
+            sameDate(oldTask.scheduledDate, newTask.scheduledDate),
+            sameDate(oldTask.dueDate, newTask.dueDate),
+            sameDate(oldTask.createdDate, newTask.createdDate),
+            oldTask.blockLink === newTask.blockLink,
+            oldTask.id === newTask.id,
+        ].filter((same) => same).length;
+    }
+}
@@ -0,0 +1,59 @@
+import type { ListItemCache } from 'obsidian';
+import { Task } from './Task';
+
+/**
+ * Link the tasks read from a file to their parents and children, using the
+ * parent pointers of the list items in Obsidian's metadata cache.
+ */
+export class TaskHierarchy {
+    /**
+     * @param tasksByLineNumber - the tasks in the file, keyed by the line they are on, in line order.
+     * @param listItems - all the list items in the file, including those that are not tasks.
+     */
+    public static link(tasksByLineNumber: Map<number, Task>, listItems: ListItemCache[]) {
+        const parentLineNumbers = new Map<number, number>();
+        for (const listItem of listItems) {
+            parentLineNumbers.set(listItem.position.start.line, listItem.parent);
+        }
+
+        for (const [lineNumber, task] of tasksByLineNumber) {
+            const parent = TaskHierarchy.findParentTask(lineNumber, tasksByLineNumber, parentLineNumbers);
+            if (parent !== null) {
+                Task.linkParentAndChild(parent, task);
+            }
+        }
+    }
+
+    /**
+     * Walk up the list from the given line, skipping list items that are not tasks.
+     *
+     * Obsidian gives top-level list items a negative parent, which ends the search.
+     * For a list starting on the first line of a file, that is -0, which is not less than 0.
+     */
+    private static findParentTask(
+        lineNumber: number,
+        tasksByLineNumber: Map<number, Task>,
+        parentLineNumbers: Map<number, number>,
+    ): Task | null {
+        let childLineNumber = lineNumber;
+        let parentLineNumber = parentLineNumbers.get(childLineNumber);
+        // A parent is always above its child, so this also protects against loops in bad cache data.
+        while (
+            parentLineNumber !== undefined &&
+            !TaskHierarchy.isTopLevel(parentLineNumber) &&
+            parentLineNumber < childLineNumber
+        ) {
+            const parent = tasksByLineNumber.get(parentLineNumber);
+            if (parent !== undefined) {
+                return parent;
+            }
+            childLineNumber = parentLineNumber;
+            parentLineNumber = parentLineNumbers.get(childLineNumber);
+        }
+        return null;
+    }
+
+    private static isTopLevel(parentLineNumber: number): boolean {
+        return parentLineNumber < 0 || Object.is(parentLineNumber, -0);
+    }
+}
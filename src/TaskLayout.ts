@@ -1,3 +1,18 @@
+/**
+ * How the results of a query are arranged, as set by the `layout` instruction.
+ */
+export type QueryLayout = 'list' | 'calendar' | 'board';
+
+/**
+ * The period shown by `layout calendar`.
+ */
+export type CalendarPeriod = 'month' | 'week';
+
+/**
+ * The date that places a task on the grid of `layout calendar`.
+ */
+export type CalendarDateField = 'due' | 'scheduled' | 'happens';
+
 /**
  * Various rendering options for a query.
  */
@@ -8,24 +23,42 @@ export class LayoutOptions {
     hideStartDate: boolean = false;
     hideScheduledDate: boolean = false;
     hideDoneDate: boolean = false;
+    hideCreatedDate: boolean = false;
+    hideCancelledDate: boolean = false;
     hideDueDate: boolean = false;
     hideRecurrenceRule: boolean = false;
     hideEditButton: boolean = false;
     hideUrgency: boolean = true;
+    hideTree: boolean = true;
     shortMode: boolean = false;
     explainQuery: boolean = false;
     hideEstimatedTimeToComplete: boolean = false;
+    hideTimeSpent: boolean = false;
+    showTotalEstimatedTime: boolean = false;
+    showTotalTimeSpent: boolean = false;
+    showTotalOverdue: boolean = false;
+    summarizeByStatus: boolean = false;
+    hideId: boolean = false;
+    hideDependsOn: boolean = false;
+    layout: QueryLayout = 'list';
+    calendarPeriod: CalendarPeriod = 'month';
+    calendarDateField: CalendarDateField = 'happens';
 }
 
 export type TaskLayoutComponent =
     | 'description'
     | 'priority'
     | 'recurrenceRule'
+    | 'createdDate'
     | 'startDate'
     | 'scheduledDate'
     | 'dueDate'
     | 'doneDate'
+    | 'cancelledDate'
     | 'estimatedTimeToComplete'
+    | 'timeSpent'
+    | 'dependsOn'
+    | 'id'
     | 'blockLink';
 
 /**
@@ -38,11 +71,16 @@ export class TaskLayout {
         'description',
         'priority',
         'recurrenceRule',
+        'createdDate',
         'startDate',
         'scheduledDate',
         'dueDate',
         'doneDate',
+        'cancelledDate',
         'estimatedTimeToComplete',
+        'timeSpent',
+        'dependsOn',
+        'id',
         'blockLink',
     ];
     public layoutComponents: TaskLayoutComponent[];
@@ -88,7 +126,12 @@ export class TaskLayout {
         newComponents = removeIf(newComponents, layoutOptions.hideScheduledDate, 'scheduledDate');
         newComponents = removeIf(newComponents, layoutOptions.hideDueDate, 'dueDate');
         newComponents = removeIf(newComponents, layoutOptions.hideDoneDate, 'doneDate');
+        newComponents = removeIf(newComponents, layoutOptions.hideCreatedDate, 'createdDate');
+        newComponents = removeIf(newComponents, layoutOptions.hideCancelledDate, 'cancelledDate');
         newComponents = removeIf(newComponents, layoutOptions.hideEstimatedTimeToComplete, 'estimatedTimeToComplete');
+        newComponents = removeIf(newComponents, layoutOptions.hideTimeSpent, 'timeSpent');
+        newComponents = removeIf(newComponents, layoutOptions.hideDependsOn, 'dependsOn');
+        newComponents = removeIf(newComponents, layoutOptions.hideId, 'id');
         return newComponents;
     }
 }
@@ -1,10 +1,12 @@
-import { Component, MarkdownRenderer } from 'obsidian';
+import { Component, MarkdownRenderer, Notice } from 'obsidian';
 import type { Moment } from 'moment';
 import type { Task } from './Task';
 import * as taskModule from './Task';
 import type { LayoutOptions, TaskLayoutComponent } from './TaskLayout';
 import { TaskLayout } from './TaskLayout';
-import { replaceTaskWithTasks } from './File';
+import { replaceTasksWithTasks } from './File';
+import type { TaskReplacement } from './File';
+import { CompletionPropagation } from './CompletionPropagation';
 import { getSettings } from './Config/Settings';
 
 export type TaskLineRenderDetails = {
@@ -64,20 +66,32 @@ export async function renderTaskLine(
         li.classList.add('is-checked');
     }
 
-    checkbox.addEventListener('click', (event: MouseEvent) => {
-        event.preventDefault();
-        // It is required to stop propagation so that obsidian won't write the file with the
-        // checkbox (un)checked. Obsidian would write after us and overwrite our change.
-        event.stopPropagation();
-
-        // Should be re-rendered as enabled after update in file.
+    if (task.projectedFrom !== null) {
+        // Future occurrences are shown by 'show occurrences until', and are not in any file to be updated.
         checkbox.disabled = true;
-        const toggledTasks = task.toggle();
-        replaceTaskWithTasks({
-            originalTask: task,
-            newTasks: toggledTasks,
+        li.classList.add('plugin-tasks-list-item-projection');
+        li.title = 'Future occurrence of a recurring task';
+    } else {
+        checkbox.addEventListener('click', async (event: MouseEvent) => {
+            event.preventDefault();
+            // It is required to stop propagation so that obsidian won't write the file with the
+            // checkbox (un)checked. Obsidian would write after us and overwrite our change.
+            event.stopPropagation();
+
+            // Should be re-rendered as enabled after update in file.
+            checkbox.disabled = true;
+            const replacements = CompletionPropagation.toggle(task);
+            if (!(await writeReplacements(replacements))) {
+                checkbox.disabled = false;
+                return;
+            }
+
+            const parent = CompletionPropagation.parentToOffer(replacements);
+            if (parent !== null) {
+                offerToCompleteParent(parent, replacements);
+            }
         });
-    });
+    }
 
     li.prepend(checkbox);
 
@@ -93,6 +107,33 @@ export async function renderTaskLine(
     return li;
 }
 
+/**
+ * Write replacements to their file, telling the user if the file has changed so that they could not be made.
+ */
+async function writeReplacements(replacements: TaskReplacement[]): Promise<boolean> {
+    const written = await replaceTasksWithTasks(replacements);
+    if (!written) {
+        new Notice('Tasks: the task was not updated, as its file has changed. Please try again.');
+    }
+    return written;
+}
+
+/**
+ * Show a notice with a button to complete a parent task whose subtasks are all done.
+ *
+ * @param toggled - the replacements written by the toggle that completed the last subtask.
+ */
+function offerToCompleteParent(parent: Task, toggled: TaskReplacement[]) {
+    const message = document.createDocumentFragment();
+    message.append('All subtasks are done. ');
+    const button = message.createEl('button', { text: `Complete '${parent.description}'` });
+    const notice = new Notice(message, 8000);
+    button.addEventListener('click', async () => {
+        notice.hide();
+        await writeReplacements(CompletionPropagation.complete(parent, toggled));
+    });
+}
+
 async function taskToHtml(
     task: Task,
     renderDetails: TaskLineRenderDetails,
@@ -110,6 +151,53 @@ async function taskToHtml(
     }
 
     await renderComponentText(parentElement, taskAsString, 'description', task, textRenderer);
+
+    for (const component of taskLayout.layoutComponents) {
+        const className = componentClasses[component];
+        const componentString = task.componentToString(taskLayout, component).trim();
+        if (className !== undefined && componentString !== '') {
+            wrapComponentText(parentElement, componentString, className);
+        }
+    }
+}
+
+/**
+ * The classes of the spans around the components that can be clicked to edit them in query results.
+ */
+const componentClasses: Partial<Record<TaskLayoutComponent, string>> = {
+    priority: 'task-priority',
+    startDate: 'task-start',
+    scheduledDate: 'task-scheduled',
+    dueDate: 'task-due',
+};
+
+/**
+ * Put the rendered text of a component in a span of its own, so it can be styled and clicked.
+ *
+ * The whole task is rendered as Markdown at once, so the text is found after rendering,
+ * searching from the end, as the components follow the description.
+ */
+function wrapComponentText(parentElement: HTMLElement, componentString: string, className: string) {
+    const walker = document.createTreeWalker(parentElement, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+        textNodes.push(walker.currentNode as Text);
+    }
+
+    for (const textNode of textNodes.reverse()) {
+        const index = textNode.data.lastIndexOf(componentString);
+        if (index === -1) {
+            continue;
+        }
+
+        const componentNode = textNode.splitText(index);
+        componentNode.splitText(componentString.length);
+        const span = document.createElement('span');
+        span.classList.add(className);
+        componentNode.replaceWith(span);
+        span.appendChild(componentNode);
+        return;
+    }
 }
 
 async function renderComponentText(
@@ -177,6 +265,7 @@ function addTooltip({
                 toTooltipDate({
                     signifier: taskModule.startDateSymbol,
                     date: task.startDate,
+                    time: task.startTime,
                 }),
             );
         }
@@ -187,6 +276,7 @@ function addTooltip({
                 toTooltipDate({
                     signifier: taskModule.scheduledDateSymbol,
                     date: task.scheduledDate,
+                    time: task.scheduledTime,
                 }),
             );
         }
@@ -197,6 +287,7 @@ function addTooltip({
                 toTooltipDate({
                     signifier: taskModule.dueDateSymbol,
                     date: task.dueDate,
+                    time: task.dueTime,
                 }),
             );
         }
@@ -211,6 +302,26 @@ function addTooltip({
             );
         }
 
+        if (task.cancelledDate) {
+            const cancelledDateDiv = tooltip.createDiv();
+            cancelledDateDiv.setText(
+                toTooltipDate({
+                    signifier: taskModule.cancelledDateSymbol,
+                    date: task.cancelledDate,
+                }),
+            );
+        }
+
+        if (task.createdDate) {
+            const createdDateDiv = tooltip.createDiv();
+            createdDateDiv.setText(
+                toTooltipDate({
+                    signifier: taskModule.createdDateSymbol,
+                    date: task.createdDate,
+                }),
+            );
+        }
+
         if (task.estimatedTimeToComplete) {
             // TODO: When rendering this setting would be better to render the HH:mm kind of deal.
             const estimatedTimeToCompleteDiv = tooltip.createDiv();
@@ -233,7 +344,19 @@ function addTooltip({
     });
 }
 
-function toTooltipDate({ signifier, date }: { signifier: string; date: Moment }): string {
+function toTooltipDate({
+    signifier,
+    date,
+    time = null,
+}: {
+    signifier: string;
+    date: Moment;
+    time?: string | null;
+}): string {
+    if (time !== null) {
+        const dateTime = taskModule.Task.dateWithTime(date, time)!;
+        return `${signifier} ${taskModule.Task.dateToString(date, time)} (${dateTime.fromNow()})`;
+    }
     return `${signifier} ${date.format(taskModule.TaskRegularExpressions.dateFormat)} (${date.from(
         window.moment().startOf('day'),
     )})`;
@@ -6,12 +6,27 @@ import { Status } from './Status';
 
 export class TaskModal extends Modal {
     public readonly task: Task;
+    public readonly allTasks: Task[];
     public readonly onSubmit: (updatedTasks: Task[]) => void;
 
-    constructor({ app, task, onSubmit }: { app: App; task: Task; onSubmit: (updatedTasks: Task[]) => void }) {
+    /**
+     * @param allTasks - the tasks in the vault, used to warn about cycles of task dependencies.
+     */
+    constructor({
+        app,
+        task,
+        allTasks,
+        onSubmit,
+    }: {
+        app: App;
+        task: Task;
+        allTasks: Task[];
+        onSubmit: (updatedTasks: Task[]) => void;
+    }) {
         super(app);
 
         this.task = task;
+        this.allTasks = allTasks;
         this.onSubmit = (updatedTasks: Task[]) => {
             updatedTasks.length && onSubmit(updatedTasks);
             this.close();
@@ -26,7 +41,7 @@ export class TaskModal extends Modal {
 
         new EditTask({
             target: contentEl,
-            props: { task: this.task, statusOptions: statusOptions, onSubmit: this.onSubmit },
+            props: { task: this.task, statusOptions: statusOptions, allTasks: this.allTasks, onSubmit: this.onSubmit },
         });
     }
 
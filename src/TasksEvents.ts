@@ -2,6 +2,7 @@ import type { EventRef, Events as ObsidianEvents } from 'obsidian';
 
 import type { State } from './Cache';
 import type { Task } from './Task';
+import type { TaskEvent, TaskEventType } from './TaskDiff';
 
 enum Event {
     CacheUpdate = 'obsidian-tasks-plugin:cache-update',
@@ -36,7 +37,23 @@ export class TasksEvents {
         this.obsidianEvents.trigger(Event.RequestCacheUpdate, fn);
     }
 
+    /**
+     * Listen for one kind of change to individual tasks, such as 'task-completed'.
+     * The changes are only reported once the vault has been read.
+     */
+    public onTaskEvent(type: TaskEventType, handler: (taskEvent: TaskEvent) => void): EventRef {
+        return this.obsidianEvents.on(TasksEvents.taskEventName(type), handler);
+    }
+
+    public triggerTaskEvent(taskEvent: TaskEvent): void {
+        this.obsidianEvents.trigger(TasksEvents.taskEventName(taskEvent.type), taskEvent);
+    }
+
     public off(eventRef: EventRef): void {
         this.obsidianEvents.offref(eventRef);
     }
+
+    private static taskEventName(type: TaskEventType): string {
+        return `obsidian-tasks-plugin:${type}`;
+    }
 }
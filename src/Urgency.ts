@@ -1,19 +1,44 @@
 import type { Task } from './Task';
+import { getSettings } from './Config/Settings';
+import type { UrgencySettings } from './Config/UrgencySettings';
 
 export class Urgency {
-    private static readonly dueCoefficient = 12.0;
-    private static readonly scheduledCoefficient = 5.0;
-    private static readonly startedCoefficient = -3.0;
-    private static readonly priorityCoefficient = 6.0;
-
     private static readonly milliSecondsPerDay = 1000 * 60 * 60 * 24;
+    private static readonly daysForMaximumAge = 365;
+
+    private static _generation = 0;
+
+    /**
+     * Tasks remember their urgency once calculated, until this changes.
+     */
+    public static get generation(): number {
+        return Urgency._generation;
+    }
 
-    public static calculate(task: Task): number {
+    /**
+     * Make every task calculate its urgency again the next time it is read,
+     * as the settings or the time it was calculated with are out of date.
+     */
+    public static recalculateAll(): void {
+        Urgency._generation++;
+    }
+
+    /**
+     * Calculate the urgency score of a task.
+     *
+     * @param task
+     * @param urgencySettings - the coefficients to use. Defaults to those in the user's settings.
+     */
+    public static calculate(task: Task, urgencySettings: UrgencySettings = getSettings().urgencySettings): number {
         let urgency = 0.0;
 
-        if (task.dueDate !== null) {
+        const dueDateTime = task.dueDateTime;
+        if (dueDateTime !== null) {
             // Map a range of 21 days to the value 0.2 - 1.0
-            const daysOverdue = Math.round(window.moment().diff(task.dueDate) / Urgency.milliSecondsPerDay);
+            // Days are rounded for dates without a time, but not for those with one,
+            // so that tasks due in an hour are more urgent than those due later the same day.
+            const days = window.moment().diff(dueDateTime) / Urgency.milliSecondsPerDay;
+            const daysOverdue = task.dueTime !== null ? days : Math.round(days);
 
             let dueMultiplier: number;
             if (daysOverdue >= 7.0) {
@@ -25,36 +50,118 @@ export class Urgency {
                 dueMultiplier = 0.2; // > 2 wks
             }
 
-            urgency += dueMultiplier * Urgency.dueCoefficient;
+            urgency += dueMultiplier * urgencySettings.dueCoefficient;
         }
 
-        if (task.scheduledDate !== null) {
-            if (window.moment().isSameOrAfter(task.scheduledDate)) {
-                urgency += 1 * Urgency.scheduledCoefficient;
+        const scheduledDateTime = task.scheduledDateTime;
+        if (scheduledDateTime !== null) {
+            if (window.moment().isSameOrAfter(scheduledDateTime)) {
+                urgency += 1 * urgencySettings.scheduledCoefficient;
             }
         }
 
-        if (task.startDate !== null) {
-            if (window.moment().isBefore(task.startDate)) {
-                urgency += 1 * Urgency.startedCoefficient;
+        const startDateTime = task.startDateTime;
+        if (startDateTime !== null) {
+            if (window.moment().isBefore(startDateTime)) {
+                urgency += 1 * urgencySettings.startedCoefficient;
             }
         }
 
         switch (task.priority) {
             // High
             case '1':
-                urgency += 1.0 * Urgency.priorityCoefficient;
+                urgency += urgencySettings.highPriorityWeight * urgencySettings.priorityCoefficient;
                 break;
             // Medium
             case '2':
-                urgency += 0.65 * Urgency.priorityCoefficient;
+                urgency += urgencySettings.mediumPriorityWeight * urgencySettings.priorityCoefficient;
                 break;
             // None
             case '3':
-                urgency += 0.325 * Urgency.priorityCoefficient;
+                urgency += urgencySettings.nonePriorityWeight * urgencySettings.priorityCoefficient;
+                break;
+            // Low
+            case '4':
+                urgency += urgencySettings.lowPriorityWeight * urgencySettings.priorityCoefficient;
                 break;
         }
 
+        if (task.estimatedTimeToComplete) {
+            urgency += (task.estimatedTimeToComplete / 60) * urgencySettings.estimatedTimeCoefficient;
+        }
+
+        if (task.createdDate !== null) {
+            const daysOld = window.moment().diff(task.createdDate) / Urgency.milliSecondsPerDay;
+            urgency +=
+                Math.min(Math.max(daysOld / Urgency.daysForMaximumAge, 0.0), 1.0) * urgencySettings.ageCoefficient;
+        }
+
+        for (const tag of Urgency.tagsMatchingCoefficients(task, urgencySettings)) {
+            urgency += urgencySettings.tagCoefficients[tag];
+        }
+
+        urgency += urgencySettings.statusCoefficients[task.status.symbol] ?? 0;
+
         return urgency;
     }
+
+    /**
+     * Describe the urgency formula, for 'explain' output of queries that sort by urgency.
+     *
+     * Terms whose coefficients are all zero are omitted.
+     */
+    public static explainCoefficients(urgencySettings: UrgencySettings = getSettings().urgencySettings): string {
+        const terms: string[] = [];
+        const addTerm = (coefficient: number, description: string) => {
+            if (coefficient !== 0) {
+                terms.push(`  ${description}`);
+            }
+        };
+        const { priorityCoefficient } = urgencySettings;
+        const priorityScore = (weight: number) => Urgency.round(weight * priorityCoefficient);
+
+        addTerm(urgencySettings.dueCoefficient, `due date: 0.2 to 1.0 times ${urgencySettings.dueCoefficient}`);
+        addTerm(
+            urgencySettings.scheduledCoefficient,
+            `scheduled today or earlier: ${urgencySettings.scheduledCoefficient}`,
+        );
+        addTerm(urgencySettings.startedCoefficient, `starts after today: ${urgencySettings.startedCoefficient}`);
+        addTerm(
+            priorityCoefficient,
+            `priority: high ${priorityScore(urgencySettings.highPriorityWeight)}, medium ${priorityScore(
+                urgencySettings.mediumPriorityWeight,
+            )}, none ${priorityScore(urgencySettings.nonePriorityWeight)}, low ${priorityScore(
+                urgencySettings.lowPriorityWeight,
+            )}`,
+        );
+        addTerm(
+            urgencySettings.estimatedTimeCoefficient,
+            `estimated time: ${urgencySettings.estimatedTimeCoefficient} per hour`,
+        );
+        addTerm(
+            urgencySettings.ageCoefficient,
+            `age since created date: 0.0 to 1.0 times ${urgencySettings.ageCoefficient}`,
+        );
+        for (const [tag, coefficient] of Object.entries(urgencySettings.tagCoefficients)) {
+            addTerm(coefficient, `tag ${tag}: ${coefficient}`);
+        }
+        for (const [symbol, coefficient] of Object.entries(urgencySettings.statusCoefficients)) {
+            addTerm(coefficient, `status '${symbol}': ${coefficient}`);
+        }
+
+        return ['Urgency is the sum of:', ...terms].join('\n');
+    }
+
+    /**
+     * Return the keys of {@link UrgencySettings.tagCoefficients} that match the task's tags,
+     * ignoring case. Each matching key is returned once, even if the task repeats the tag.
+     */
+    private static tagsMatchingCoefficients(task: Task, urgencySettings: UrgencySettings): string[] {
+        const taskTags = task.tags.map((tag) => tag.toLowerCase());
+        return Object.keys(urgencySettings.tagCoefficients).filter((tag) => taskTags.includes(tag.toLowerCase()));
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 1000) / 1000;
+    }
 }
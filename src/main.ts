@@ -1,10 +1,7 @@
-import { Plugin } from 'obsidian';
+import { Notice, Plugin } from 'obsidian';
+import type { Moment } from 'moment';
 
-import { TaskGroup, TaskGroups } from 'Query/TaskGroup';
-import type { Moment } from 'moment/moment';
-import { Status } from 'Status';
-import type { RRule } from 'rrule';
-import { Query } from './Query/Query';
+import { Archive } from './Archive';
 import { Cache, State } from './Cache';
 import { Commands } from './Commands';
 import { TasksEvents } from './TasksEvents';
@@ -17,83 +14,39 @@ import { SettingsTab } from './Config/SettingsTab';
 import { StatusRegistry } from './StatusRegistry';
 import { EditorSuggestor } from './Suggestor/EditorSuggestorPopup';
 import { StatusSettings } from './Config/StatusSettings';
-
-import { Recurrence } from './Recurrence';
-import { Task } from './Task';
-import { PriorityUtils } from './Task';
-import { TaskRegularExpressions } from './Task';
-
+import type { Task } from './Task';
 import { DateFallback } from './DateFallback';
-import { Lazy } from './lib/Lazy';
-
 import { replaceTaskWithTasks } from './File';
-import { dataset_dev } from 'svelte/internal';
-
 import { TaskModal } from './TaskModal';
-
-export class TaskUID {
-    public readonly path: string; // file path
-    public readonly sectionIndex: number; // which index
-    public readonly taskIndex: number; // which task index in setion
-
-    constructor(path: string, sectionIndex: number, taskIndex: number) {
-        this.path = path;
-        this.sectionIndex = sectionIndex;
-        this.taskIndex = taskIndex;
-    }
-
-    public static fromTask(task: Task): TaskUID {
-        return new TaskUID(task.path, task.sectionStart, task.sectionIndex);
-    }
-}
-
-export class TaskExternal {
-    public readonly isDone: Boolean;
-    public readonly priority: number; // 1 is the highest priority, any larger number is a lower priority.
-
-    public readonly tags: string[]; // a list of ASCII tags, distilled from the description.
-    public readonly originalMarkdown: string; // the original markdown task.
-    public readonly description: string; // the description of the task.
-    public readonly estimatedTimeToComplete: number | null | undefined; // the estimated time to complete the task in minutes
-
-    public readonly startDate: Moment | null;
-    public readonly scheduledDate: Moment | null;
-    public readonly dueDate: Moment | null;
-    public readonly doneDate: Moment | null;
-
-    public readonly uid: TaskUID;
-
-    public readonly recurrenceRrule: RRule | null; ///< RRule as per the lib.
-    
-    /// The date after which the recurrence rule applies, may be
-    ///  null if the RRule itself has a ref date,
-    ///  ex) "every Monday".
-    public readonly recurrenceReferenceDate: Moment | null;
-
-    // TODO:
-    // public readonly recurrence: Recurrence | null;
-    constructor(task: Task) {
-        this.isDone = task.status == Status.DONE; // TODO: enable more statuses.
-        this.priority = PriorityUtils.toNumber(task.priority);
-        this.tags = task.tags;
-        this.originalMarkdown = task.originalMarkdown;
-        this.startDate = task.startDate;
-        this.scheduledDate = task.scheduledDate;
-        this.dueDate = task.dueDate;
-        this.doneDate = task.doneDate;
-        this.description = task.description;
-        this.estimatedTimeToComplete = task.estimatedTimeToComplete;
-        this.recurrenceRrule = task.recurrence ? task.recurrence.rrule : null;
-        this.recurrenceReferenceDate = task.recurrence ? task.recurrence.referenceDate : null;
-        this.uid = TaskUID.fromTask(task);
-    }
-}
+import { TasksApiV1 } from './Api/TasksApiV1';
+import type { TaskExternal } from './Api/TaskExternal';
+import { taskFromTaskExternal } from './Api/TaskChanges';
+
+export {
+    TaskUID,
+    StatusExternal,
+    TaskExternal,
+    TaskGroupExternal,
+    QueryResultExternal,
+    TaskEventExternal,
+} from './Api/TaskExternal';
+export type { GroupHeadingExternal } from './Api/TaskExternal';
+export type { TaskChangesExternal } from './Api/TaskChanges';
+export type { TaskEventType } from './TaskDiff';
+export { TasksApiV1 } from './Api/TasksApiV1';
 
 export default class TasksPlugin extends Plugin {
     private cache: Cache | undefined;
     public inlineRenderer: InlineRenderer | undefined;
     public queryRenderer: QueryRenderer | undefined;
 
+    /**
+     * The versioned API for other plugins. See {@link TasksApiV1}.
+     */
+    public apiV1: TasksApiV1 | undefined;
+
+    private lastAutomaticArchive: Moment | null = null;
+
     async onload() {
         console.log('loading plugin "tasks"');
 
@@ -116,12 +69,37 @@ export default class TasksPlugin extends Plugin {
         });
         this.inlineRenderer = new InlineRenderer({ plugin: this });
         this.queryRenderer = new QueryRenderer({ plugin: this, events });
+        this.apiV1 = new TasksApiV1({ app: this.app, events });
+        this.registerEvent(events.onCacheUpdate(({ state, tasks }) => this.archiveAutomatically(state, tasks)));
 
         this.registerEditorExtension(newLivePreviewExtension());
         this.registerEditorSuggest(new EditorSuggestor(this.app, getSettings()));
         new Commands({ plugin: this });
     }
 
+    /**
+     * Archive completed tasks, if enabled in settings, and not done in the last {@link Archive.automaticIntervalMinutes}.
+     */
+    private async archiveAutomatically(state: State, tasks: Task[]) {
+        if (!getSettings().archiveAutomatically || state !== State.Warm) {
+            return;
+        }
+
+        const now = window.moment();
+        const nextArchive = this.lastAutomaticArchive?.clone().add(Archive.automaticIntervalMinutes, 'minutes');
+        if (nextArchive !== undefined && now.isBefore(nextArchive)) {
+            return;
+        }
+
+        this.lastAutomaticArchive = now;
+        try {
+            await Archive.archive(this.app.vault, tasks);
+        } catch (e) {
+            console.error('Tasks: could not archive completed tasks automatically', e);
+            new Notice(`Tasks: could not archive completed tasks automatically: ${e}`);
+        }
+    }
+
     async loadTaskStatuses() {
         const { statusSettings } = getSettings();
         StatusSettings.applyToStatusRegistry(statusSettings, StatusRegistry.getInstance());
@@ -146,138 +124,55 @@ export default class TasksPlugin extends Plugin {
         return this.cache?.getTasks();
     }
 
-    // HELPER NEEDED WHEN WRITING.
-
-    // TODO: because we need to convert the TaskExternal to a Task, we kind of lose the benefit
-    // of the whole TaskExeternal concept...
+    /**
+     * Build a task from the field values of a {@link TaskExternal}, including any edits made to them.
+     *
+     * @deprecated Use {@link TasksApiV1.updateTask} or {@link TasksApiV1.toggleTask} via {@link apiV1} instead.
+     */
     public taskFromTaskExternal(taskExternal: TaskExternal | null): Task | null {
         if (!taskExternal) return null;
-
-        const line = taskExternal.originalMarkdown;
-        const regexMatch = line.match(TaskRegularExpressions.taskRegex);
-        if (regexMatch === null) {
-            return null;
-        }
-
-        const indentation = regexMatch[1];
-        const listMarker = regexMatch[2];
-        const body = regexMatch[4].trim();
-        const blockLinkMatch = body.match(TaskRegularExpressions.blockLinkRegex);
-        const blockLink = blockLinkMatch?.[0] ?? ''; // the real question is if there is an elvis operator.
-        
-        // Infer the scheduled date from the file name if not set explicitly
-        const fallbackDate = DateFallback.fromPath(taskExternal.uid.path);
-        let scheduledDate = taskExternal.scheduledDate;
-        let scheduledDateIsInferred = false;
-        if (DateFallback.canApplyFallback({
-            startDate: taskExternal.startDate,
-            scheduledDate: taskExternal.scheduledDate,
-            dueDate: taskExternal.dueDate,
-        }) && fallbackDate !== null) {
-            scheduledDate = fallbackDate;
-            scheduledDateIsInferred = true;
-        }
-
-        const recurrenceRule = body.match(TaskRegularExpressions.recurrenceRegex)?.[1]?.trim();
-        let recurrence = recurrenceRule ? Recurrence.fromText({
-            recurrenceRuleText: recurrenceRule,
-            startDate: taskExternal.startDate,
-            scheduledDate,
-            dueDate: taskExternal.dueDate,
-        }) : null;
-
-        return new Task({
-            estimatedTimeToComplete : taskExternal.estimatedTimeToComplete,
-            status :taskExternal.isDone ? Status.DONE : Status.TODO, // TODO:
-            description: taskExternal.description,
-            path: taskExternal.uid.path,
-            indentation,
-            listMarker,
-            sectionStart: taskExternal.uid.sectionIndex,
-            sectionIndex: taskExternal.uid.taskIndex,
-            precedingHeader: '', // TODO:
-            priority: PriorityUtils.fromNumber(taskExternal.priority),
-            startDate: taskExternal.startDate,
-            scheduledDate,
-            dueDate: taskExternal.dueDate,
-            doneDate: taskExternal.doneDate,
-            recurrence,
-            blockLink,
-            tags: taskExternal.tags,
-            originalMarkdown: line,
-            scheduledDateIsInferred,
-        });
+        return taskFromTaskExternal(taskExternal);
     }
 
-    // PUBLIC WRITE INTERFACE.
+    /**
+     * @deprecated Use {@link TasksApiV1.updateTask} or {@link TasksApiV1.toggleTask} via {@link apiV1} instead.
+     */
     public async replaceTaskWithTasks(originalTask: Task, newTasks: Task[]) {
-        return replaceTaskWithTasks({originalTask, newTasks});
+        return replaceTaskWithTasks({ originalTask, newTasks });
     }
 
-    // PUBLIC EDIT TASK INTERFACE.
-    public editTaskWithModal(task: Task) : Promise<void> {
-        return new Promise((resolve, reject) => {
+    /**
+     * @deprecated Use {@link TasksApiV1.editTaskWithModal} via {@link apiV1} instead.
+     */
+    public editTaskWithModal(task: Task): Promise<void> {
+        return new Promise((resolve) => {
             const onSubmit = (updatedTasks: Task[]): void => {
                 replaceTaskWithTasks({
                     originalTask: task,
-                    newTasks: DateFallback.removeInferredStatusIfNeeded(task, updatedTasks), // TODO: why?
+                    newTasks: DateFallback.removeInferredStatusIfNeeded(task, updatedTasks),
                 });
                 resolve();
             };
             const taskModal = new TaskModal({
                 app: this.app,
                 task,
+                allTasks: this.getTasks() ?? [],
                 onSubmit,
             });
             taskModal.open();
         });
     }
 
-    // PUBLIC READ INTERFACE.
-    public async oneHotResolveQueryToTasks(query: string): TaskExternal[] | undefined {
-        return new Promise((resolve, reject) => {
-            this.app.workspace.trigger(
-                'obsidian-tasks-plugin:request-cache-update',
-                ({ tasks, state }: { tasks: Task[]; state: State }) => {
-                    let tasksExternal: TaskExternal[] = [];
-                    const myQuery: Query = new Query({ source: query });
-                    if (myQuery.error !== undefined) {
-                        reject(myQuery.error);
-                    }
-                    if (state === State.Warm) {
-                        const taskGroups: TaskGroups = myQuery.applyQueryToTasks(tasks);
-                        // TODO: Currently this is a hack. we decompose the groups into a flat array for return.
-                        // Should somehow return group information back as well.
-                        taskGroups.groups.forEach((group: TaskGroup) => {
-                            tasksExternal = tasksExternal.concat(
-                                group.tasks.map((task: Task) => new TaskExternal(task)),
-                            );
-                        });
-                    } else {
-                        reject('Cache is not warm, but expected to be so.');
-                    }
-                    resolve(tasksExternal);
-                },
-            );
-        });
-    }
-}
-
-// NOTE: Let's figure out once and for all what the difference between let and var is.
-
-// let = block scope.
-// var is globally to the function regardless of block scope.
-// var is also hoisted.
-// let can only be accessed after it is declared.
-// let is a declaration, var is a statement.
-
-// javascript hositing is when the decl gets hoisted to the top of the scope (function scope).
-function varTest() {
-    var x = 1;
-    {
-        var x = 2; // same variable!
-        console.log(x); // 2
+    /**
+     * Run a query and return all the matching tasks, without their groups.
+     *
+     * @deprecated Use {@link TasksApiV1.query} via {@link apiV1} instead, which also returns the groups.
+     */
+    public async oneHotResolveQueryToTasks(query: string): Promise<TaskExternal[]> {
+        if (this.apiV1 === undefined) {
+            throw new Error('Tasks plugin has not finished loading.');
+        }
+        const result = await this.apiV1.query(query);
+        return result.allTasks();
     }
-    console.log(x); // 2
 }
-// ^ silly example.
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { applyTaskChanges, findTaskForTaskExternal, taskFromTaskExternal } from '../../src/Api/TaskChanges';
+import { TaskExternal } from '../../src/Api/TaskExternal';
+import { Priority } from '../../src/Task';
+import { StatusType } from '../../src/StatusConfiguration';
+import { fromLine } from '../TestHelpers';
+
+window.moment = moment;
+
+describe('findTaskForTaskExternal', () => {
+    const task = fromLine({ line: '- [ ] a task', path: 'a.md' });
+    const other = fromLine({ line: '- [ ] another task', path: 'a.md' });
+
+    it('finds the task that a TaskExternal was created from', () => {
+        expect(findTaskForTaskExternal([other, task], new TaskExternal(task))).toBe(task);
+    });
+
+    it('does not find a task whose line has been edited since', () => {
+        const edited = fromLine({ line: '- [x] a task', path: 'a.md' });
+
+        expect(findTaskForTaskExternal([edited], new TaskExternal(task))).toBeUndefined();
+    });
+});
+
+describe('applyTaskChanges', () => {
+    const task = fromLine({ line: '- [ ] a task 🔼 📅 2023-01-20', path: 'a.md' });
+
+    it('changes only the given fields', () => {
+        const updated = applyTaskChanges(task, { description: 'renamed', dueDate: null });
+
+        expect(updated.description).toEqual('renamed');
+        expect(updated.dueDate).toBeNull();
+        expect(updated.priority).toEqual(Priority.Medium);
+        expect(updated.status).toBe(task.status);
+        expect(updated.path).toEqual('a.md');
+    });
+
+    it('converts status symbols and priority numbers', () => {
+        const updated = applyTaskChanges(task, { statusSymbol: '-', priority: 1 });
+
+        expect(updated.status.type).toEqual(StatusType.CANCELLED);
+        expect(updated.priority).toEqual(Priority.High);
+    });
+});
+
+describe('taskFromTaskExternal', () => {
+    const task = fromLine({ line: '  - [ ] a task 🔁 every week 📅 2023-01-20 ^abc', path: 'a.md' });
+
+    it('builds the same task from an unchanged TaskExternal', () => {
+        const built = taskFromTaskExternal(new TaskExternal(task))!;
+
+        expect(built.toFileLineString()).toEqual(task.originalMarkdown);
+        expect(built.originalMarkdown).toEqual(task.originalMarkdown);
+        expect(built.path).toEqual('a.md');
+    });
+
+    it('keeps edits made to the fields of a TaskExternal', () => {
+        const external = { ...new TaskExternal(task), description: 'renamed', dueDate: moment('2023-01-27') };
+
+        const built = taskFromTaskExternal(external as TaskExternal)!;
+
+        expect(built.toFileLineString()).toEqual('  - [ ] renamed 🔁 every week 📅 2023-01-27 ^abc');
+        expect(built.recurrence!.referenceDate!.format('YYYY-MM-DD')).toEqual('2023-01-27');
+    });
+
+    it('marks the task done or not done from isDone, as plugins written before status did', () => {
+        const external = { ...new TaskExternal(task), isDone: true };
+
+        expect(taskFromTaskExternal(external as TaskExternal)!.status.type).toEqual(StatusType.DONE);
+    });
+});
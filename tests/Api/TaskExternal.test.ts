@@ -0,0 +1,69 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { QueryResultExternal, TaskExternal } from '../../src/Api/TaskExternal';
+import { Query } from '../../src/Query/Query';
+import { StatusType } from '../../src/StatusConfiguration';
+import { fromLine } from '../TestHelpers';
+
+window.moment = moment;
+
+describe('TaskExternal', () => {
+    it('exposes the full status, heading and recurrence of a task', () => {
+        const task = fromLine({
+            line: '- [/] write report 🔁 every week ⏫ 📅 2023-01-20 🆔 abc ⛔ def',
+            path: 'a/b.md',
+            precedingHeader: 'Work',
+        });
+
+        const external = new TaskExternal(task);
+
+        expect(external.status.symbol).toEqual('/');
+        expect(external.status.name).toEqual('In Progress');
+        expect(external.status.type).toEqual(StatusType.IN_PROGRESS);
+        expect(external.status.nextStatusSymbol).toEqual('x');
+        expect(external.isDone).toEqual(false);
+        expect(external.priority).toEqual(1);
+        expect(external.precedingHeader).toEqual('Work');
+        expect(external.description).toEqual('write report');
+        expect(external.dueDate?.format('YYYY-MM-DD')).toEqual('2023-01-20');
+        expect(external.recurrenceRule).toEqual('every week');
+        expect(external.id).toEqual('abc');
+        expect(external.dependsOn).toEqual(['def']);
+        expect(external.uid.path).toEqual('a/b.md');
+    });
+
+    it('treats cancelled tasks as not done', () => {
+        const external = new TaskExternal(fromLine({ line: '- [-] dropped' }));
+
+        expect(external.status.type).toEqual(StatusType.CANCELLED);
+        expect(external.isDone).toEqual(false);
+    });
+});
+
+describe('QueryResultExternal', () => {
+    const tasks = [
+        fromLine({ line: '- [ ] one', path: 'x.md' }),
+        fromLine({ line: '- [ ] two', path: 'y.md' }),
+        fromLine({ line: '- [x] three', path: 'x.md' }),
+    ];
+
+    it('has a single group without headings if the query is not grouped', () => {
+        const result = new QueryResultExternal(new Query({ source: 'not done' }).applyQueryToTasks(tasks));
+
+        expect(result.totalTasksCount).toEqual(2);
+        expect(result.groups.length).toEqual(1);
+        expect(result.groups[0].headings).toEqual([]);
+        expect(result.allTasks().map((task) => task.description)).toEqual(['one', 'two']);
+    });
+
+    it('keeps the group names and headings of grouped queries', () => {
+        const result = new QueryResultExternal(new Query({ source: 'group by path' }).applyQueryToTasks(tasks));
+
+        expect(result.totalTasksCount).toEqual(3);
+        expect(result.groups.map((group) => group.groupNames)).toEqual([['x'], ['y']]);
+        expect(result.groups[0].headings).toEqual([{ nestingLevel: 0, name: 'x' }]);
+        expect(result.groups[0].tasks.map((task) => task.description)).toEqual(['one', 'three']);
+    });
+});
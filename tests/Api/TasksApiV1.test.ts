@@ -0,0 +1,76 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import type { App } from 'obsidian';
+import { TaskExternal } from '../../src/Api/TaskExternal';
+import { TasksApiV1 } from '../../src/Api/TasksApiV1';
+import { State } from '../../src/Cache';
+import type { Task } from '../../src/Task';
+import type { TasksEvents } from '../../src/TasksEvents';
+import { readTasks, useVault } from '../TestingTools/FakeVault';
+
+jest.mock('obsidian', () => ({
+    TFile: class TFile {
+        public path = '';
+        public extension = 'md';
+    },
+}));
+jest.mock('../../src/TaskModal', () => ({}));
+window.moment = moment;
+
+/**
+ * An API whose cache holds the given tasks, as if read from the vault.
+ */
+function apiWithCachedTasks(tasks: Task[]): TasksApiV1 {
+    const events = {
+        triggerRequestCacheUpdate: (fn: (cacheData: { tasks: Task[]; state: State }) => void) => {
+            fn({ tasks, state: State.Warm });
+        },
+    };
+    return new TasksApiV1({ app: {} as App, events: events as unknown as TasksEvents });
+}
+
+describe('TasksApiV1', () => {
+    const markdown = '- [ ] a\n- [ ] b';
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should write an updated task to its file', async () => {
+        const vault = useVault('a.md', markdown);
+        const tasks = readTasks('a.md', markdown);
+        const api = apiWithCachedTasks(tasks);
+
+        await api.updateTask(new TaskExternal(tasks[1]), { description: 'b2' });
+
+        expect(vault.content).toEqual('- [ ] a\n- [ ] b2');
+    });
+
+    it('should reject an update if the task has changed in its file since the cache was read', async () => {
+        const tasks = readTasks('a.md', markdown);
+        const vault = useVault('a.md', '- [ ] a\n- [/] b');
+        const api = apiWithCachedTasks(tasks);
+
+        await expect(api.updateTask(new TaskExternal(tasks[1]), { description: 'b2' })).rejects.toThrow(
+            "Tasks API: task has changed since it was read, in 'a.md': b",
+        );
+        expect(vault.writes).toEqual(0);
+    });
+
+    it('should reject a toggle if the task has changed in its file since the cache was read', async () => {
+        const tasks = readTasks('a.md', markdown);
+        const vault = useVault('a.md', '- [ ] a\n- [/] b');
+        const api = apiWithCachedTasks(tasks);
+
+        await expect(api.toggleTask(new TaskExternal(tasks[1]))).rejects.toThrow(
+            "Tasks API: task has changed since it was read, in 'a.md': b",
+        );
+        expect(vault.writes).toEqual(0);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { Archive } from '../src/Archive';
+import { resetSettings, updateSettings } from '../src/Config/Settings';
+import { Task } from '../src/Task';
+import { fromLine } from './TestHelpers';
+
+window.moment = moment;
+
+function archivable(lines: string[], path = 'Projects/acme.md'): string[] {
+    const tasks = lines.map((line) => fromLine({ line, path }));
+    return Archive.tasksToArchive(tasks).map((task) => task.originalMarkdown);
+}
+
+describe('Archive', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2023-07-13'));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    afterEach(() => {
+        resetSettings();
+    });
+
+    describe('tasksToArchive', () => {
+        it('should find tasks done more than the set number of days ago', () => {
+            updateSettings({ archiveAfterDays: 7 });
+
+            expect(
+                archivable([
+                    '- [x] old ✅ 2023-07-05',
+                    '- [x] a week old ✅ 2023-07-06',
+                    '- [x] recent ✅ 2023-07-12',
+                    '- [-] cancelled long ago ✅ 2023-01-01',
+                    '- [ ] open ✅ 2023-07-01',
+                    '- [x] no done date',
+                ]),
+            ).toEqual(['- [x] old ✅ 2023-07-05']);
+        });
+
+        it('should find every task done before today when the number of days is 0', () => {
+            updateSettings({ archiveAfterDays: 0 });
+
+            expect(archivable(['- [x] yesterday ✅ 2023-07-12', '- [x] today ✅ 2023-07-13'])).toEqual([
+                '- [x] yesterday ✅ 2023-07-12',
+            ]);
+        });
+
+        it('should leave tasks in the archive note alone', () => {
+            updateSettings({ archiveFile: 'Archive/Done' });
+
+            expect(archivable(['- [x] old ✅ 2023-07-01'], 'Archive/Done.md')).toEqual([]);
+        });
+
+        it('should leave tasks with subtasks in place', () => {
+            const parent = fromLine({ line: '- [x] parent ✅ 2023-07-01' });
+            const child = fromLine({ line: '    - [x] child ✅ 2023-07-01' });
+            Task.linkParentAndChild(parent, child);
+
+            expect(Archive.tasksToArchive([parent, child])).toEqual([child]);
+        });
+    });
+
+    describe('addToArchive', () => {
+        const heading = Archive.heading(moment('2023-07-13'));
+
+        it('should start an empty archive with a dated heading', () => {
+            expect(Archive.addToArchive('', heading, ['- [x] a ✅ 2023-07-01 ^abc123'])).toEqual(
+                '## Archived 2023-07-13\n\n- [x] a ✅ 2023-07-01 ^abc123\n',
+            );
+        });
+
+        it('should add a heading after earlier archives', () => {
+            const content = '## Archived 2023-07-01\n\n- [x] a ✅ 2023-06-20\n';
+
+            expect(Archive.addToArchive(content, heading, ['- [x] b ✅ 2023-07-01'])).toEqual(
+                '## Archived 2023-07-01\n\n- [x] a ✅ 2023-06-20\n\n## Archived 2023-07-13\n\n- [x] b ✅ 2023-07-01\n',
+            );
+        });
+
+        it('should add to the heading if it is already the last heading', () => {
+            const content = '## Archived 2023-07-13\n\n- [x] a ✅ 2023-06-20\n\n';
+
+            expect(Archive.addToArchive(content, heading, ['- [x] b ✅ 2023-07-01'])).toEqual(
+                '## Archived 2023-07-13\n\n- [x] a ✅ 2023-06-20\n- [x] b ✅ 2023-07-01\n',
+            );
+        });
+    });
+
+    describe('removeFromArchive', () => {
+        const heading = Archive.heading(moment('2023-07-13'));
+
+        it('should take out the lines, keeping the rest of the note', () => {
+            const content = '## Archived 2023-07-13\n\n- [x] a ✅ 2023-07-01\n- [x] b ✅ 2023-07-01\n\nA note\n';
+
+            expect(Archive.removeFromArchive(content, heading, ['- [x] a ✅ 2023-07-01'])).toEqual(
+                '## Archived 2023-07-13\n\n- [x] b ✅ 2023-07-01\n\nA note\n',
+            );
+        });
+
+        it('should take out the last copy of a line that is in the note more than once', () => {
+            const content =
+                '## Archived 2023-07-01\n\n- [x] a ✅ 2023-06-20\n\n## Archived 2023-07-13\n\n- [x] a ✅ 2023-06-20\n';
+
+            expect(Archive.removeFromArchive(content, heading, ['- [x] a ✅ 2023-06-20'])).toEqual(
+                '## Archived 2023-07-01\n\n- [x] a ✅ 2023-06-20\n',
+            );
+        });
+
+        it('should leave an empty note if nothing else was in it', () => {
+            const content = Archive.addToArchive('', heading, ['- [x] a ✅ 2023-07-01']);
+
+            expect(Archive.removeFromArchive(content, heading, ['- [x] a ✅ 2023-07-01'])).toEqual('');
+        });
+    });
+});
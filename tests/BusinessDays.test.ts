@@ -0,0 +1,78 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { BusinessDays } from '../src/BusinessDays';
+import { resetSettings, updateSettings } from '../src/Config/Settings';
+
+window.moment = moment;
+
+function addBusinessDays(date: string, days: number): string {
+    return BusinessDays.add(moment(date), days).format('YYYY-MM-DD ddd');
+}
+
+describe('BusinessDays', () => {
+    afterEach(() => {
+        resetSettings();
+    });
+
+    it.each([
+        // 2023-07-14 is a Friday
+        ['2023-07-14', 1, '2023-07-17 Mon'],
+        ['2023-07-14', 5, '2023-07-21 Fri'],
+        ['2023-07-15', 1, '2023-07-17 Mon'],
+        ['2023-07-17', -1, '2023-07-14 Fri'],
+        ['2023-07-14', 0, '2023-07-14 Fri'],
+    ])('adds to %s %s business days, giving %s', (date: string, days: number, expected: string) => {
+        expect(addBusinessDays(date, days)).toEqual(expected);
+    });
+
+    it('skips holidays', () => {
+        updateSettings({ holidays: ['2023-07-17'] });
+
+        expect(addBusinessDays('2023-07-14', 1)).toEqual('2023-07-18 Tue');
+        expect(addBusinessDays('2023-07-18', -1)).toEqual('2023-07-14 Fri');
+    });
+
+    it('uses the working days from settings', () => {
+        updateSettings({ workingDays: [1, 3, 5] });
+
+        expect(addBusinessDays('2023-07-14', 2)).toEqual('2023-07-19 Wed');
+    });
+
+    it('treats every day as a working day if none are set', () => {
+        updateSettings({ workingDays: [] });
+
+        expect(addBusinessDays('2023-07-14', 1)).toEqual('2023-07-15 Sat');
+    });
+
+    it('does not change the given date', () => {
+        const date = moment('2023-07-14');
+
+        BusinessDays.add(date, 3);
+
+        expect(date.format('YYYY-MM-DD')).toEqual('2023-07-14');
+    });
+
+    it.each([
+        ['2023-07-14', '2023-07-14 Fri'],
+        ['2023-07-15', '2023-07-17 Mon'],
+        ['2023-07-16', '2023-07-17 Mon'],
+    ])('moves %s on or after to %s', (date: string, expected: string) => {
+        expect(BusinessDays.onOrAfter(moment(date)).format('YYYY-MM-DD ddd')).toEqual(expected);
+    });
+
+    it('reads and writes working days', () => {
+        const workingDays = BusinessDays.parseWorkingDays('monday, Tue,wed, Funday, sunday');
+
+        expect(workingDays).toEqual([1, 2, 3, 7]);
+        expect(BusinessDays.renderWorkingDays(workingDays)).toEqual('Mon, Tue, Wed, Sun');
+    });
+
+    it('reads and writes holidays, ignoring invalid dates', () => {
+        const holidays = BusinessDays.parseHolidays('2023-12-25, 2023-02-30,2024-01-01, christmas');
+
+        expect(holidays).toEqual(['2023-12-25', '2024-01-01']);
+        expect(BusinessDays.renderHolidays(holidays)).toEqual('2023-12-25, 2024-01-01');
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { bulkEditReplacements } from '../../src/Commands/BulkEditOperation';
+import type { BulkEditOperation } from '../../src/Commands/BulkEditOperation';
+import { resetSettings } from '../../src/Config/Settings';
+import { Status } from '../../src/Status';
+import { Priority } from '../../src/Task';
+import { fromLine } from '../TestHelpers';
+
+window.moment = moment;
+
+function edit(lines: string[], operation: BulkEditOperation): string[] {
+    const tasks = lines.map((line) => fromLine({ line }));
+    return bulkEditReplacements(tasks, operation).flatMap(({ newTasks }) =>
+        newTasks.map((task) => task.toFileLineString()),
+    );
+}
+
+describe('bulkEditReplacements', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2023-07-13'));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    afterEach(() => {
+        resetSettings();
+    });
+
+    describe('reschedule', () => {
+        it('moves every date the task has, keeping times', () => {
+            expect(
+                edit(['- [ ] send invoice 🛫 2023-07-01 ⏳ 2023-07-03 📅 2023-07-05 09:30'], {
+                    type: 'reschedule',
+                    days: 3,
+                }),
+            ).toEqual(['- [ ] send invoice 🛫 2023-07-04 ⏳ 2023-07-06 📅 2023-07-08 09:30']);
+        });
+
+        it('moves dates earlier by a negative number of days', () => {
+            expect(edit(['- [ ] send invoice 📅 2023-07-05'], { type: 'reschedule', days: -5 })).toEqual([
+                '- [ ] send invoice 📅 2023-06-30',
+            ]);
+        });
+
+        it('leaves out tasks without dates', () => {
+            expect(edit(['- [ ] someday'], { type: 'reschedule', days: 3 })).toEqual([]);
+        });
+    });
+
+    it('sets priority', () => {
+        expect(edit(['- [ ] a ⏫', '- [ ] b', '- [ ] c 🔼'], { type: 'priority', priority: Priority.Medium })).toEqual([
+            '- [ ] a 🔼',
+            '- [ ] b 🔼',
+        ]);
+    });
+
+    describe('tags', () => {
+        it('adds a tag to the end of the description, unless the task has it', () => {
+            expect(edit(['- [ ] a 📅 2023-07-05', '- [ ] b #work'], { type: 'addTag', tag: 'work' })).toEqual([
+                '- [ ] a #work 📅 2023-07-05',
+            ]);
+        });
+
+        it('removes a tag from anywhere in the description', () => {
+            expect(
+                edit(['- [ ] #work a', '- [ ] b #work c', '- [ ] d #work', '- [ ] e #workshop'], {
+                    type: 'removeTag',
+                    tag: '#work',
+                }),
+            ).toEqual(['- [ ] a', '- [ ] b c', '- [ ] d']);
+        });
+    });
+
+    describe('status', () => {
+        it('changes status as toggling does', () => {
+            expect(edit(['- [ ] a', '- [x] b ✅ 2023-07-01'], { type: 'status', status: Status.DONE })).toEqual([
+                '- [x] a ✅ 2023-07-13',
+            ]);
+        });
+
+        it('adds the next occurrence of recurring tasks', () => {
+            expect(edit(['- [ ] a 🔁 every day 📅 2023-07-05'], { type: 'status', status: Status.DONE })).toEqual([
+                '- [ ] a 🔁 every day 📅 2023-07-06',
+                '- [x] a 🔁 every day 📅 2023-07-05 ✅ 2023-07-13',
+            ]);
+        });
+    });
+
+    it('leaves out projected occurrences', () => {
+        const task = fromLine({ line: '- [ ] a 🔁 every day 📅 2023-07-05' });
+        const projected = task.projectOccurrences(moment('2023-07-07'));
+        expect(projected.length).toBeGreaterThan(0);
+
+        expect(bulkEditReplacements(projected, { type: 'reschedule', days: 1 })).toEqual([]);
+    });
+});
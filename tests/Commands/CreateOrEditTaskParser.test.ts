@@ -1,6 +1,21 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
 import { taskFromLine } from '../../src/Commands/CreateOrEditTaskParser';
 import { resetSettings, updateSettings } from '../../src/Config/Settings';
 
+window.moment = moment;
+
+beforeAll(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2023, 6, 13)); // 2023-07-13
+});
+
+afterAll(() => {
+    jest.useRealTimers();
+});
+
 describe('CreateOrEditTaskParser - testing edited task if line is saved unchanged', () => {
     afterEach(() => {
         resetSettings();
@@ -63,3 +78,25 @@ describe('CreateOrEditTaskParser - testing edited task if line is saved unchange
         },
     );
 });
+
+describe('CreateOrEditTaskParser - created date', () => {
+    afterEach(() => {
+        resetSettings();
+    });
+
+    it('should not add a created date to an existing task', () => {
+        const task = taskFromLine({ line: '- [ ] Existing task', path: 'a/b/c.md' });
+        expect(task.createdDate).toBeNull();
+    });
+
+    it('should keep the created date of an existing task', () => {
+        const task = taskFromLine({ line: '- [ ] Existing task ➕ 2023-01-02', path: 'a/b/c.md' });
+        expect(task.createdDate?.format('YYYY-MM-DD')).toEqual('2023-01-02');
+    });
+
+    it('should add a created date to a new task if enabled in settings', () => {
+        updateSettings({ setCreatedDate: true });
+        const task = taskFromLine({ line: 'Not yet a task', path: 'a/b/c.md' });
+        expect(task.toFileLineString()).toStrictEqual('- [ ] Not yet a task ➕ 2023-07-13');
+    });
+});
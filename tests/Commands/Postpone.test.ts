@@ -0,0 +1,66 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { editLine, moveScheduledToToday, postponeDue, snoozeUntil } from '../../src/Commands/Postpone';
+
+window.moment = moment;
+
+describe('Postpone', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2023-07-13'));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    describe('postponeDue', () => {
+        it('should move the due date and the other dates with it, keeping times', () => {
+            expect(
+                editLine('- [ ] send invoice 🛫 2023-07-10 ⏳ 2023-07-12 📅 2023-07-14 09:30', postponeDue(1)),
+            ).toEqual('- [ ] send invoice 🛫 2023-07-11 ⏳ 2023-07-13 📅 2023-07-15 09:30');
+            expect(editLine('    - [ ] send invoice 📅 2023-07-14', postponeDue(7))).toEqual(
+                '    - [ ] send invoice 📅 2023-07-21',
+            );
+        });
+
+        it('should not change tasks without a due date', () => {
+            expect(editLine('- [ ] send invoice ⏳ 2023-07-12', postponeDue(1))).toBeNull();
+        });
+    });
+
+    describe('moveScheduledToToday', () => {
+        it('should move the scheduled date to today and the other dates with it', () => {
+            expect(editLine('- [ ] send invoice ⏳ 2023-07-10 📅 2023-07-11', moveScheduledToToday)).toEqual(
+                '- [ ] send invoice ⏳ 2023-07-13 📅 2023-07-14',
+            );
+        });
+
+        it('should schedule a task without a scheduled date for today', () => {
+            expect(editLine('- [ ] send invoice 📅 2023-07-20', moveScheduledToToday)).toEqual(
+                '- [ ] send invoice ⏳ 2023-07-13 📅 2023-07-20',
+            );
+        });
+    });
+
+    describe('snoozeUntil', () => {
+        it('should move the earliest date to the given date and the other dates with it', () => {
+            expect(
+                editLine('- [ ] send invoice ⏳ 2023-07-12 📅 2023-07-14', snoozeUntil(moment('2023-07-17'))),
+            ).toEqual('- [ ] send invoice ⏳ 2023-07-17 📅 2023-07-19');
+        });
+
+        it('should give a task without dates a start date', () => {
+            expect(editLine('- [ ] send invoice', snoozeUntil(moment('2023-07-17 10:00')))).toEqual(
+                '- [ ] send invoice 🛫 2023-07-17',
+            );
+        });
+    });
+
+    it('should not change lines that are not tasks', () => {
+        expect(editLine('- send invoice 📅 2023-07-14', postponeDue(1))).toBeNull();
+        expect(editLine('send invoice', snoozeUntil(moment('2023-07-17')))).toBeNull();
+    });
+});
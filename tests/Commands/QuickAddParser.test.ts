@@ -0,0 +1,94 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { taskFromQuickAddText } from '../../src/Commands/QuickAddParser';
+import { resetSettings, updateSettings } from '../../src/Config/Settings';
+
+window.moment = moment;
+
+beforeAll(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2023, 6, 13)); // 2023-07-13, a Thursday
+});
+
+afterAll(() => {
+    jest.useRealTimers();
+});
+
+function quickAdd(text: string): string | undefined {
+    return taskFromQuickAddText({ text, path: 'a/b.md' })?.toFileLineString();
+}
+
+describe('QuickAddParser', () => {
+    beforeEach(() => {
+        updateSettings({ setCreatedDate: false });
+    });
+
+    afterEach(() => {
+        resetSettings();
+    });
+
+    it('should read dates, priority and recurrence from free text', () => {
+        expect(quickAdd('Send invoice to ACME next friday high priority every month #finance')).toEqual(
+            '- [ ] Send invoice to ACME #finance ⏫ 🔁 every month 📅 2023-07-21',
+        );
+    });
+
+    it('should keep plain text as the description', () => {
+        expect(quickAdd('  Water the plants ')).toEqual('- [ ] Water the plants');
+    });
+
+    it('should return null for blank text', () => {
+        expect(taskFromQuickAddText({ text: ' ', path: 'a/b.md' })).toBeNull();
+    });
+
+    it.each([
+        ['Call Bob high priority', '- [ ] Call Bob ⏫'],
+        ['Call Bob priority medium', '- [ ] Call Bob 🔼'],
+        ['Low priority call Bob', '- [ ] call Bob 🔽'],
+    ])('should read priority from "%s"', (text: string, expected: string) => {
+        expect(quickAdd(text)).toEqual(expected);
+    });
+
+    it.each([
+        ['Pay rent tomorrow', '- [ ] Pay rent 📅 2023-07-14'],
+        ['Pay rent due tomorrow', '- [ ] Pay rent 📅 2023-07-14'],
+        ['Pay rent by tomorrow', '- [ ] Pay rent 📅 2023-07-14'],
+        ['Pay rent scheduled tomorrow', '- [ ] Pay rent ⏳ 2023-07-14'],
+        ['Pay rent starting tomorrow', '- [ ] Pay rent 🛫 2023-07-14'],
+        [
+            'Write report start monday scheduled tuesday due friday',
+            '- [ ] Write report 🛫 2023-07-17 ⏳ 2023-07-18 📅 2023-07-14',
+        ],
+    ])('should read dates from "%s"', (text: string, expected: string) => {
+        expect(quickAdd(text)).toEqual(expected);
+    });
+
+    it('should leave a second date of the same kind in the description', () => {
+        expect(quickAdd('Book flight tomorrow, arriving saturday')).toEqual(
+            '- [ ] Book flight, arriving saturday 📅 2023-07-14',
+        );
+    });
+
+    it.each([
+        ['Stretch every day', '- [ ] Stretch 🔁 every day'],
+        ['Review budget every week on friday #finance', '- [ ] Review budget #finance 🔁 every week on Friday'],
+        ['Water plants every 3 days when done', '- [ ] Water plants 🔁 every 3 days when done'],
+        ['Report every month due tomorrow', '- [ ] Report 🔁 every month 📅 2023-07-14'],
+    ])('should read recurrence from "%s"', (text: string, expected: string) => {
+        expect(quickAdd(text)).toEqual(expected);
+    });
+
+    it('should add the global filter', () => {
+        updateSettings({ globalFilter: '#task' });
+
+        expect(quickAdd('Pay rent tomorrow')).toEqual('- [ ] #task Pay rent 📅 2023-07-14');
+    });
+
+    it('should add the created date, if enabled', () => {
+        updateSettings({ setCreatedDate: true });
+
+        expect(quickAdd('Pay rent')).toEqual('- [ ] Pay rent ➕ 2023-07-13');
+    });
+});
@@ -133,6 +133,26 @@ describe('ToggleDone', () => {
         );
     });
 
+    it('should count down a recurring task with a number of times, and end it', () => {
+        testToggleLine(
+            '- [ ] I recur twice| 🔁 every day for 2 times 📅 2022-09-04',
+            `- [ ] I recur twice 🔁 every day for 1 time 📅 2022-09-05
+- [x] I recur twice| 🔁 every day for 2 times 📅 2022-09-04 ✅ 2022-09-04`,
+        );
+
+        testToggleLine(
+            '- [ ] I recur once| 🔁 every day for 1 time 📅 2022-09-05',
+            '- [x] I recur once| 🔁 every day for 1 time 📅 2022-09-05 ✅ 2022-09-04',
+        );
+    });
+
+    it('should end a recurring task after its end date', () => {
+        testToggleLine(
+            '- [ ] I end soon| 🔁 every day until 2022-09-05 📅 2022-09-05',
+            '- [x] I end soon| 🔁 every day until 2022-09-05 📅 2022-09-05 ✅ 2022-09-04',
+        );
+    });
+
     it('should complete a recurring task', () => {
         testToggleLine(
             '- [ ] I am a recurring task| 🔁 every day 📅 2022-09-04',
@@ -213,5 +233,45 @@ describe('ToggleDone', () => {
         });
     });
 
+    describe('should cancel a task', () => {
+        beforeEach(() => {
+            const statusRegistry = StatusRegistry.getInstance();
+            statusRegistry.resetToDefaultStatuses();
+            statusRegistry.add(new Status(new StatusConfiguration('?', 'Question', '-', false)));
+        });
+
+        afterEach(() => {
+            resetSettings();
+            StatusRegistry.getInstance().resetToDefaultStatuses();
+        });
+
+        it('without the cancelled date by default', () => {
+            testToggleLine('- [?] I am a task|', '- [-] I am a task|');
+        });
+
+        it('adding the cancelled date if enabled in settings', () => {
+            updateSettings({ setCancelledDate: true });
+
+            testToggleLine('- [?] I am a task|', '- [-] I am a task| ❌ 2022-09-04');
+        });
+
+        it('ending the recurrence', () => {
+            testToggleLine(
+                '- [?] I am a recurring task| 🔁 every day 📅 2022-09-04',
+                '- [-] I am a recurring task| 🔁 every day 📅 2022-09-04',
+            );
+        });
+
+        it('creating the next occurrence if enabled in settings', () => {
+            updateSettings({ recurCancelledTasks: true });
+
+            testToggleLine(
+                '- [?] I am a recurring task| 🔁 every day 📅 2022-09-04',
+                `- [ ] I am a recurring task 🔁 every day 📅 2022-09-05
+- [-] I am a recurring task| 🔁 every day 📅 2022-09-04`,
+            );
+        });
+    });
+
     todaySpy.mockClear();
 });
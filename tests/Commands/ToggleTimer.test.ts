@@ -0,0 +1,42 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { findTaskOnLine } from '../../src/Commands/ToggleTimer';
+import { Task } from '../../src/Task';
+import { fromLine } from '../TestHelpers';
+
+window.moment = moment;
+
+describe('findTaskOnLine', () => {
+    const line = '- [ ] fix invoice ⏲ 0:45';
+    const task = fromLine({ line, path: 'clients/acme.md' });
+    const otherFile = fromLine({ line, path: 'clients/other.md' });
+
+    it('finds the task read from the line in the given file', () => {
+        expect(findTaskOnLine([otherFile, task], 'clients/acme.md', [line], 0)).toBe(task);
+    });
+
+    it('finds nothing if the line is not a known task', () => {
+        expect(findTaskOnLine([task], 'clients/acme.md', ['- [ ] new task'], 0)).toBeUndefined();
+        expect(findTaskOnLine([task], 'clients/new.md', [line], 0)).toBeUndefined();
+    });
+
+    it('finds the task on the given line when the same line occurs more than once', () => {
+        const lines = ['- [ ] send quote', line, 'notes on the call', line];
+        const [first, second] = [1, 2].map(
+            (sectionIndex) =>
+                Task.fromLine({
+                    line,
+                    path: 'clients/acme.md',
+                    sectionStart: 0,
+                    sectionIndex,
+                    precedingHeader: null,
+                    fallbackDate: null,
+                })!,
+        );
+
+        expect(findTaskOnLine([first, second], 'clients/acme.md', lines, 1)).toBe(first);
+        expect(findTaskOnLine([first, second], 'clients/acme.md', lines, 3)).toBe(second);
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { CompletionPropagation } from '../src/CompletionPropagation';
+import { resetSettings, updateSettings } from '../src/Config/Settings';
+import type { TaskReplacement } from '../src/File';
+import { Status } from '../src/Status';
+import { StatusConfiguration, StatusType } from '../src/StatusConfiguration';
+import { StatusRegistry } from '../src/StatusRegistry';
+import { Task } from '../src/Task';
+import { TaskBuilder } from './TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+function statusSymbols(replacements: TaskReplacement[]): string[] {
+    return replacements.map(({ originalTask, newTasks }) => {
+        const newStatuses = newTasks.map((task) => task.status.symbol).join(',');
+        return `${originalTask.description}: ${newStatuses}`;
+    });
+}
+
+function makeTree(parentStatus: Status, childStatuses: Status[]) {
+    const parent = new TaskBuilder().description('parent').status(parentStatus).build();
+    const children = childStatuses.map((status, index) =>
+        new TaskBuilder()
+            .description(`child ${index + 1}`)
+            .status(status)
+            .build(),
+    );
+    children.forEach((child) => Task.linkParentAndChild(parent, child));
+    return { parent, children };
+}
+
+describe('CompletionPropagation', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2023-07-13'));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    beforeEach(() => {
+        updateSettings({ propagateCompletion: true });
+    });
+
+    afterEach(() => {
+        resetSettings();
+        StatusRegistry.getInstance().resetToDefaultStatuses();
+    });
+
+    describe('toggle', () => {
+        it('should complete open subtasks when a parent is completed', () => {
+            const { parent } = makeTree(Status.TODO, [Status.TODO, Status.makeInProgress()]);
+
+            expect(statusSymbols(CompletionPropagation.toggle(parent))).toEqual([
+                'parent: x',
+                'child 1: x',
+                'child 2: x',
+            ]);
+        });
+
+        it('should complete open subtasks at every level', () => {
+            const { parent, children } = makeTree(Status.TODO, [Status.TODO]);
+            const grandchild = new TaskBuilder().description('grandchild').build();
+            Task.linkParentAndChild(children[0], grandchild);
+
+            expect(statusSymbols(CompletionPropagation.toggle(parent))).toEqual([
+                'parent: x',
+                'child 1: x',
+                'grandchild: x',
+            ]);
+        });
+
+        it('should leave done and cancelled subtasks alone', () => {
+            const { parent } = makeTree(Status.TODO, [Status.DONE, Status.makeCancelled(), Status.TODO]);
+
+            expect(statusSymbols(CompletionPropagation.toggle(parent))).toEqual(['parent: x', 'child 3: x']);
+        });
+
+        it('should not change subtasks when a parent is un-completed', () => {
+            const { parent } = makeTree(Status.DONE, [Status.TODO]);
+
+            expect(statusSymbols(CompletionPropagation.toggle(parent))).toEqual(['parent:  ']);
+        });
+
+        it('should follow custom status cycles to a DONE status', () => {
+            const statusRegistry = StatusRegistry.getInstance();
+            statusRegistry.add(new Status(new StatusConfiguration('r', 'Review', 'd', false, StatusType.IN_PROGRESS)));
+            statusRegistry.add(new Status(new StatusConfiguration('d', 'Delivered', 'r', false, StatusType.DONE)));
+            const review = statusRegistry.bySymbol('r');
+            const { parent } = makeTree(Status.TODO, [review]);
+
+            expect(statusSymbols(CompletionPropagation.toggle(parent))).toEqual(['parent: x', 'child 1: d']);
+        });
+
+        it('should only toggle the task when disabled', () => {
+            updateSettings({ propagateCompletion: false });
+            const { parent } = makeTree(Status.TODO, [Status.TODO]);
+
+            expect(statusSymbols(CompletionPropagation.toggle(parent))).toEqual(['parent: x']);
+        });
+    });
+
+    describe('parentToOffer', () => {
+        it('should offer the parent when the last open subtask is completed', () => {
+            const { parent, children } = makeTree(Status.TODO, [Status.DONE, Status.TODO]);
+
+            const replacements = CompletionPropagation.toggle(children[1]);
+            expect(CompletionPropagation.parentToOffer(replacements)).toBe(parent);
+        });
+
+        it('should not offer the parent while other subtasks are open', () => {
+            const { children } = makeTree(Status.TODO, [Status.TODO, Status.TODO]);
+
+            const replacements = CompletionPropagation.toggle(children[1]);
+            expect(CompletionPropagation.parentToOffer(replacements)).toBeNull();
+        });
+
+        it('should not offer a parent that is already done', () => {
+            const { children } = makeTree(Status.DONE, [Status.TODO]);
+
+            const replacements = CompletionPropagation.toggle(children[0]);
+            expect(CompletionPropagation.parentToOffer(replacements)).toBeNull();
+        });
+
+        it('should not offer the parent when a subtask is un-completed', () => {
+            const { children } = makeTree(Status.TODO, [Status.DONE]);
+
+            const replacements = CompletionPropagation.toggle(children[0]);
+            expect(CompletionPropagation.parentToOffer(replacements)).toBeNull();
+        });
+
+        it('should not offer the parent when disabled', () => {
+            updateSettings({ propagateCompletion: false });
+            const { children } = makeTree(Status.TODO, [Status.TODO]);
+
+            const replacements = CompletionPropagation.toggle(children[0]);
+            expect(CompletionPropagation.parentToOffer(replacements)).toBeNull();
+        });
+    });
+
+    describe('complete', () => {
+        it('should complete the parent and its open subtasks', () => {
+            const { parent } = makeTree(Status.makeInProgress(), [Status.DONE, Status.TODO]);
+
+            expect(statusSymbols(CompletionPropagation.complete(parent))).toEqual(['parent: x', 'child 2: x']);
+        });
+
+        it('should leave out the subtask whose toggle offered the parent', () => {
+            const { children } = makeTree(Status.TODO, [Status.DONE, Status.TODO]);
+            const grandchild = new TaskBuilder().description('grandchild').build();
+            Task.linkParentAndChild(children[1], grandchild);
+
+            const toggled = CompletionPropagation.toggle(children[1]);
+            expect(statusSymbols(toggled)).toEqual(['child 2: x', 'grandchild: x']);
+
+            const offered = CompletionPropagation.parentToOffer(toggled)!;
+            expect(statusSymbols(CompletionPropagation.complete(offered, toggled))).toEqual(['parent: x']);
+        });
+    });
+});
@@ -1,7 +1,8 @@
 /**
  * @jest-environment jsdom
  */
-import { getSettings, isFeatureEnabled, toggleFeature } from '../../src/Config/Settings';
+import { getSettings, isFeatureEnabled, resetSettings, toggleFeature, updateSettings } from '../../src/Config/Settings';
+import type { UrgencySettings } from '../../src/Config/UrgencySettings';
 
 describe('settings-usage', () => {
     it('load default settings and validate features', () => {
@@ -24,4 +25,15 @@ describe('settings-usage', () => {
         const currentSettings = getSettings();
         expect(currentSettings.features['INTERNAL_TESTING_ENABLED_BY_DEFAULT']).toBe(false);
     });
+
+    it('fills in urgency coefficients missing from saved settings', () => {
+        updateSettings({ urgencySettings: { dueCoefficient: 3 } as UrgencySettings });
+
+        const { urgencySettings } = getSettings();
+        expect(urgencySettings.dueCoefficient).toEqual(3);
+        expect(urgencySettings.scheduledCoefficient).toEqual(5);
+        expect(urgencySettings.tagCoefficients).toEqual({});
+
+        resetSettings();
+    });
 });
@@ -0,0 +1,22 @@
+import { UrgencySettings } from '../../src/Config/UrgencySettings';
+
+describe('UrgencySettings', () => {
+    it('parses tag coefficients', () => {
+        expect(UrgencySettings.parseTagCoefficients('#urgent: 4, #someday:-2.5')).toEqual({
+            '#urgent': 4,
+            '#someday': -2.5,
+        });
+    });
+
+    it('ignores entries that are not a tag and a number', () => {
+        expect(UrgencySettings.parseTagCoefficients('urgent: 4, #someday, #later: soon, ')).toEqual({});
+    });
+
+    it('renders tag coefficients so that they can be parsed again', () => {
+        const coefficients = { '#urgent': 4, '#someday': -2.5 };
+        const text = UrgencySettings.renderTagCoefficients(coefficients);
+
+        expect(text).toEqual('#urgent: 4, #someday: -2.5');
+        expect(UrgencySettings.parseTagCoefficients(text)).toEqual(coefficients);
+    });
+});
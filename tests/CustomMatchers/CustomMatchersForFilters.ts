@@ -1,6 +1,7 @@
 import { diff } from 'jest-diff';
 import type { Task } from '../../src/Task';
 import type { FilterOrErrorMessage } from '../../src/Query/Filter/Filter';
+import { SearchInfo } from '../../src/Query/SearchInfo';
 import { fromLine } from '../TestHelpers';
 import { TaskBuilder } from '../TestingTools/TaskBuilder';
 import type { StatusConfiguration } from '../../src/StatusConfiguration';
@@ -131,7 +132,7 @@ export function toHaveExplanation(filter: FilterOrErrorMessage, expectedExplanat
 }
 
 export function toMatchTask(filter: FilterOrErrorMessage, task: Task) {
-    const matches = filter.filterFunction!(task);
+    const matches = filter.filterFunction!(task, SearchInfo.fromAllTasks([task]));
     if (!matches) {
         return {
             message: () => `unexpected failure to match task: ${task.toFileLineString()}`,
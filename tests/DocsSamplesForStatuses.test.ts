@@ -7,6 +7,8 @@ import { StatusConfiguration, StatusType } from '../src/StatusConfiguration';
 import type { FilterOrErrorMessage } from '../src/Query/Filter/Filter';
 import * as FilterParser from '../src/Query/FilterParser';
 import { Group } from '../src/Query/Group';
+import type { GrouperFunction } from '../src/Query/Grouper';
+import { SearchInfo } from '../src/Query/SearchInfo';
 import { StatusNameField } from '../src/Query/Filter/StatusNameField';
 import { StatusTypeField } from '../src/Query/Filter/StatusTypeField';
 import type { StatusCollection, StatusCollectionEntry } from '../src/StatusCollection';
@@ -222,7 +224,7 @@ function verifyTransitionsAsMarkdownTable(statuses: Status[]) {
     function filterAllStatuses(filter: FilterOrErrorMessage) {
         const cells: string[] = [`Matches \`${filter!.instruction}\``];
         tasks.forEach((task) => {
-            const matchedText = filter!.filter?.filterFunction(task) ? 'YES' : 'no';
+            const matchedText = filter!.filter?.filterFunction(task, SearchInfo.fromAllTasks(tasks)) ? 'YES' : 'no';
             cells.push(matchedText);
         });
         table.addRow(cells);
@@ -240,10 +242,10 @@ function verifyTransitionsAsMarkdownTable(statuses: Status[]) {
     filterAllStatuses(FilterParser.parseFilter('status.name includes done')!);
     filterAllStatuses(FilterParser.parseFilter('status.name includes cancelled')!);
 
-    function showGroupNamesForAllTasks(groupName: string, grouperFunction: (task: Task) => string[]) {
+    function showGroupNamesForAllTasks(groupName: string, grouperFunction: GrouperFunction) {
         const cells: string[] = ['Name for `group by ' + groupName + '`'];
         tasks.forEach((task) => {
-            const groupNamesForTask = grouperFunction(task);
+            const groupNamesForTask = grouperFunction(task, SearchInfo.fromAllTasks(tasks));
             const names = groupNamesForTask.join(',');
             cells.push(names);
         });
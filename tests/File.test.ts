@@ -0,0 +1,144 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { CompletionPropagation } from '../src/CompletionPropagation';
+import { resetSettings, updateSettings } from '../src/Config/Settings';
+import { replaceTasksWithTasks } from '../src/File';
+import { Task } from '../src/Task';
+import { readTasks, useVault } from './TestingTools/FakeVault';
+
+jest.mock('obsidian', () => ({
+    TFile: class TFile {
+        public path = '';
+        public extension = 'md';
+    },
+}));
+window.moment = moment;
+
+function withDescription(task: Task, description: string): Task {
+    return new Task({ ...task, description });
+}
+
+describe('File', () => {
+    describe('replaceTasksWithTasks', () => {
+        const content = '- [ ] a\nsome text\n- [ ] b\n- [ ] c';
+
+        beforeEach(() => {
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should make all the replacements with a single write', async () => {
+            const vault = useVault('a.md', content);
+            const [a, b, c] = readTasks('a.md', content);
+
+            const written = await replaceTasksWithTasks([
+                { originalTask: c, newTasks: [withDescription(c, 'c2')] },
+                { originalTask: a, newTasks: [withDescription(a, 'a2')] },
+                { originalTask: b, newTasks: [] },
+            ]);
+
+            expect(written).toEqual(true);
+            expect(vault.writes).toEqual(1);
+            expect(vault.content).toEqual('- [ ] a2\nsome text\n- [ ] c2');
+        });
+
+        it('should replace from the bottom up, so added tasks do not move the lines still to be replaced', async () => {
+            const vault = useVault('a.md', content);
+            const [a, b, c] = readTasks('a.md', content);
+
+            await replaceTasksWithTasks([
+                { originalTask: a, newTasks: [withDescription(a, 'a1'), withDescription(a, 'a2')] },
+                { originalTask: b, newTasks: [withDescription(b, 'b1'), withDescription(b, 'b2')] },
+                { originalTask: c, newTasks: [withDescription(c, 'c2')] },
+            ]);
+
+            expect(vault.content).toEqual('- [ ] a1\n- [ ] a2\nsome text\n- [ ] b1\n- [ ] b2\n- [ ] c2');
+        });
+
+        it('should make no replacements if any of the tasks cannot be found', async () => {
+            const vault = useVault('a.md', content);
+            const [a] = readTasks('a.md', content);
+            const missing = readTasks('a.md', '- [ ] a\n- [ ] b\n- [ ] c\n- [ ] d')[3];
+
+            const written = await replaceTasksWithTasks([
+                { originalTask: a, newTasks: [withDescription(a, 'a2')] },
+                { originalTask: missing, newTasks: [] },
+            ]);
+
+            expect(written).toEqual(false);
+            expect(vault.writes).toEqual(0);
+            expect(vault.content).toEqual(content);
+        });
+
+        it('should not replace a task whose line has changed since it was read', async () => {
+            const [a, b] = readTasks('a.md', content);
+            const vault = useVault('a.md', content.replace('- [ ] b', '- [x] b'));
+
+            const written = await replaceTasksWithTasks([
+                { originalTask: a, newTasks: [withDescription(a, 'a2')] },
+                { originalTask: b, newTasks: [withDescription(b, 'b2')] },
+            ]);
+
+            expect(written).toEqual(false);
+            expect(vault.writes).toEqual(0);
+        });
+
+        it('should find a task by its position in its section, not by its text', async () => {
+            const markdown = '- [ ] a\n- [ ] a';
+            const vault = useVault('a.md', markdown);
+            const second = readTasks('a.md', markdown)[1];
+
+            await replaceTasksWithTasks([{ originalTask: second, newTasks: [withDescription(second, 'a2')] }]);
+
+            expect(vault.content).toEqual('- [ ] a\n- [ ] a2');
+        });
+
+        it('should refuse to replace tasks in more than one file at once', async () => {
+            const vault = useVault('a.md', content);
+            const [a] = readTasks('a.md', content);
+            const [other] = readTasks('b.md', content);
+
+            const written = await replaceTasksWithTasks([
+                { originalTask: a, newTasks: [withDescription(a, 'a2')] },
+                { originalTask: other, newTasks: [] },
+            ]);
+
+            expect(written).toEqual(false);
+            expect(vault.writes).toEqual(0);
+        });
+
+        it('should succeed without writing when there is nothing to replace', async () => {
+            const vault = useVault('a.md', content);
+
+            expect(await replaceTasksWithTasks([])).toEqual(true);
+            expect(vault.writes).toEqual(0);
+        });
+
+        it('should complete the offered parent after its last subtask is toggled', async () => {
+            jest.useFakeTimers();
+            jest.setSystemTime(new Date('2023-07-13'));
+            updateSettings({ propagateCompletion: true });
+            const markdown = '- [ ] parent\n    - [x] child 1\n    - [ ] child 2';
+            const vault = useVault('a.md', markdown);
+            const [parent, child1, child2] = readTasks('a.md', markdown);
+            Task.linkParentAndChild(parent, child1);
+            Task.linkParentAndChild(parent, child2);
+
+            const toggled = CompletionPropagation.toggle(child2);
+            expect(await replaceTasksWithTasks(toggled)).toEqual(true);
+
+            const offered = CompletionPropagation.parentToOffer(toggled)!;
+            expect(await replaceTasksWithTasks(CompletionPropagation.complete(offered, toggled))).toEqual(true);
+            expect(vault.content).toEqual(
+                '- [x] parent ✅ 2023-07-13\n    - [x] child 1\n    - [x] child 2 ✅ 2023-07-13',
+            );
+            resetSettings();
+            jest.useRealTimers();
+        });
+    });
+});
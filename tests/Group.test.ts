@@ -5,13 +5,18 @@ import moment from 'moment';
 import { Group } from '../src/Query/Group';
 import type { Grouper } from '../src/Query/Grouper';
 import type { GroupingProperty } from '../src/Query/Grouper';
+import { SearchInfo } from '../src/Query/SearchInfo';
 import type { Task } from '../src/Task';
 import { fromLine } from './TestHelpers';
 
 window.moment = moment;
 
 function checkGroupNamesOfTask(task: Task, property: GroupingProperty, expectedGroupNames: string[]) {
-    const group = Group.getGroupNamesForTask(Group.fromGroupingProperty(property), task);
+    const group = Group.getGroupNamesForTask(
+        Group.fromGroupingProperty(property),
+        task,
+        SearchInfo.fromAllTasks([task]),
+    );
     expect(group).toEqual(expectedGroupNames);
 }
 
@@ -26,7 +31,7 @@ describe('Grouping tasks', () => {
         // Act
         const groupBy: GroupingProperty = 'path';
         const grouping = [Group.fromGroupingProperty(groupBy)];
-        const groups = Group.by(grouping, inputs);
+        const groups = Group.by(grouping, inputs, SearchInfo.fromAllTasks(inputs));
 
         // Assert
         expect(groups.toString()).toMatchInlineSnapshot(`
@@ -58,7 +63,7 @@ describe('Grouping tasks', () => {
 
         // Act
         const grouping: Grouper[] = [];
-        const groups = Group.by(grouping, inputs);
+        const groups = Group.by(grouping, inputs, SearchInfo.fromAllTasks(inputs));
 
         // Assert
         // No grouping specified, so no headings generated
@@ -83,7 +88,7 @@ describe('Grouping tasks', () => {
         const grouping = [Group.fromGroupingProperty(group_by)];
 
         // Act
-        const groups = Group.by(grouping, inputs);
+        const groups = Group.by(grouping, inputs, SearchInfo.fromAllTasks(inputs));
 
         // Assert
         expect(groups.groups.length).toEqual(1);
@@ -108,7 +113,7 @@ describe('Grouping tasks', () => {
 
         const group_by: GroupingProperty = 'path';
         const grouping = [Group.fromGroupingProperty(group_by)];
-        const groups = Group.by(grouping, inputs);
+        const groups = Group.by(grouping, inputs, SearchInfo.fromAllTasks(inputs));
         expect(groups.toString()).toMatchInlineSnapshot(`
             "
             Group names: [a/b/c]
@@ -148,7 +153,7 @@ describe('Grouping tasks', () => {
 
         const group_by: GroupingProperty = 'tags';
         const grouping = [Group.fromGroupingProperty(group_by)];
-        const groups = Group.by(grouping, inputs);
+        const groups = Group.by(grouping, inputs, SearchInfo.fromAllTasks(inputs));
         expect(groups.toString()).toMatchInlineSnapshot(`
             "
             Group names: [#group1]
@@ -189,7 +194,7 @@ describe('Grouping tasks', () => {
         const grouping: Grouper[] = [Group.fromGroupingProperty('folder'), Group.fromGroupingProperty('filename')];
 
         // Act
-        const groups = Group.by(grouping, tasks);
+        const groups = Group.by(grouping, tasks, SearchInfo.fromAllTasks(tasks));
 
         // Assert
         expect(groups.toString()).toMatchInlineSnapshot(`
@@ -467,6 +472,16 @@ describe('Group names', () => {
             taskLine: '- [ ] a 🔁 every 6 months on the 2nd Wednesday',
             expectedGroupNames: ['every 6 months on the 2nd Wednesday'],
         },
+        {
+            groupBy: 'recurrence',
+            taskLine: '- [ ] a 🔁 every day for 3 times 📅 2022-09-04',
+            expectedGroupNames: ['every day for 3 times (3 occurrences left)'],
+        },
+        {
+            groupBy: 'recurrence',
+            taskLine: '- [ ] a 🔁 every week until 2022-09-18 except 2022-09-11 📅 2022-09-04',
+            expectedGroupNames: ['every week until 2022-09-18 except 2022-09-11 (2 occurrences left)'],
+        },
 
         // -----------------------------------------------------------
         // group by recurring
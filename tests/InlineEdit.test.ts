@@ -0,0 +1,69 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { InlineEdit } from '../src/InlineEdit';
+import { Priority } from '../src/Task';
+import { fromLine } from './TestHelpers';
+
+window.moment = moment;
+
+function fromLineWith(priority: Priority) {
+    const symbols = { [Priority.High]: ' ⏫', [Priority.Medium]: ' 🔼', [Priority.Low]: ' 🔽', [Priority.None]: '' };
+    return fromLine({ line: `- [ ] do it${symbols[priority]}` });
+}
+
+describe('InlineEdit', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2023-07-13'));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    describe('cyclePriority', () => {
+        it.each([
+            ['None', 'Low'],
+            ['Low', 'Medium'],
+            ['Medium', 'High'],
+            ['High', 'None'],
+        ] as [keyof typeof Priority, keyof typeof Priority][])('should change priority %s to %s', (from, to) => {
+            expect(InlineEdit.cyclePriority(fromLineWith(Priority[from])).priority).toEqual(Priority[to]);
+        });
+    });
+
+    describe('setDate', () => {
+        const task = fromLine({ line: '- [ ] send invoice ⏳ 2023-07-10 📅 2023-07-14 09:30' });
+
+        function setDate(field: 'startDate' | 'scheduledDate' | 'dueDate', text: string) {
+            return InlineEdit.setDate(task, field, text)?.toFileLineString();
+        }
+
+        it('should read typed dates, keeping the time of day', () => {
+            expect(setDate('dueDate', 'tomorrow')).toEqual('- [ ] send invoice ⏳ 2023-07-10 📅 2023-07-14 09:30');
+            expect(setDate('dueDate', 'in 3 days')).toEqual('- [ ] send invoice ⏳ 2023-07-10 📅 2023-07-16 09:30');
+            expect(setDate('dueDate', '2023-07-20')).toEqual('- [ ] send invoice ⏳ 2023-07-10 📅 2023-07-20 09:30');
+            expect(setDate('scheduledDate', 'monday')).toEqual('- [ ] send invoice ⏳ 2023-07-17 📅 2023-07-14 09:30');
+        });
+
+        it('should read a new time of day', () => {
+            expect(setDate('dueDate', 'friday at 5pm')).toEqual('- [ ] send invoice ⏳ 2023-07-10 📅 2023-07-14 17:00');
+        });
+
+        it('should add a date the task does not have', () => {
+            expect(setDate('startDate', '2023-07-12')).toEqual(
+                '- [ ] send invoice 🛫 2023-07-12 ⏳ 2023-07-10 📅 2023-07-14 09:30',
+            );
+        });
+
+        it('should remove the date and time when the text is empty', () => {
+            expect(setDate('dueDate', ' ')).toEqual('- [ ] send invoice ⏳ 2023-07-10');
+        });
+
+        it('should not read text that is not a date', () => {
+            expect(InlineEdit.setDate(task, 'dueDate', 'whenever')).toBeNull();
+        });
+    });
+});
@@ -3,6 +3,7 @@
  */
 import moment from 'moment';
 import { Query } from '../src/Query/Query';
+import { SearchInfo } from '../src/Query/SearchInfo';
 import { Status } from '../src/Status';
 import { Priority, Task } from '../src/Task';
 import { resetSettings, updateSettings } from '../src/Config/Settings';
@@ -16,6 +17,14 @@ window.moment = moment;
 describe('Query parsing', () => {
     // In alphabetical order, please
     const filters = [
+        'cancelled after 2021-12-27',
+        'cancelled before 2021-12-27',
+        'cancelled date is invalid',
+        'cancelled on 2021-12-27',
+        'created after 2021-12-27',
+        'created before 2021-12-27',
+        'created date is invalid',
+        'created on 2021-12-27',
         'description does not include wibble',
         'description includes AND', // Verify Query doesn't confuse this with a boolean query
         'description includes wibble',
@@ -33,22 +42,32 @@ describe('Query parsing', () => {
         'happens after 2021-12-27',
         'happens before 2021-12-27',
         'happens on 2021-12-27',
+        'has cancelled date',
+        'has created date',
         'has done date',
         'has due date',
         'has happens date',
         'has scheduled date',
         'has start date',
+        'has subtasks',
         'heading does not include wibble',
         'heading includes AND', // Verify Query doesn't confuse this with a boolean query
         'heading includes wibble',
+        'is blocked',
+        'is not blocked',
         'is not recurring',
         'is recurring',
+        'no cancelled date',
+        'no created date',
         'no done date',
         'no due date',
         'no happens date',
         'no scheduled date',
         'no start date',
+        'no subtasks',
         'not done',
+        'parent is done',
+        'parent is not done',
         'path does not include some/path',
         'path includes AND', // Verify Query doesn't confuse this with a boolean query
         'path includes some/path',
@@ -75,6 +94,8 @@ describe('Query parsing', () => {
         'tag includes #sometag',
         'tag includes AND', // Verify Query doesn't confuse this with a boolean query
         'tag includes sometag',
+        'time spent above 2:00',
+        'time spent below 0:30',
         'tags do not include #sometag',
         'tags do not include sometag',
         'tags include #sometag',
@@ -123,13 +144,17 @@ describe('Query parsing', () => {
             expect(query.filters.length).toEqual(1);
             expect(query.filters[0]).toBeDefined();
             // If the boolean query and its sub-query are parsed correctly, the expression should always be true
-            expect(query.filters[0].filterFunction(task)).toBeTruthy();
+            expect(query.filters[0].filterFunction(task, SearchInfo.fromAllTasks([task]))).toBeTruthy();
         });
     });
 
     describe('should recognise every sort instruction', () => {
         // In alphabetical order, please
         const filters = [
+            'sort by cancelled reverse',
+            'sort by cancelled',
+            'sort by created reverse',
+            'sort by created',
             'sort by description reverse',
             'sort by description',
             'sort by done reverse',
@@ -157,6 +182,8 @@ describe('Query parsing', () => {
             'sort by tag reverse 3',
             'sort by tag reverse',
             'sort by tag',
+            'sort by time spent reverse',
+            'sort by time spent',
             'sort by urgency reverse',
             'sort by urgency',
         ];
@@ -175,8 +202,12 @@ describe('Query parsing', () => {
         // In alphabetical order, please
         const filters = [
             'group by backlink',
+            'group by blocked',
+            'group by cancelled',
+            'group by created',
             'group by done',
             'group by due',
+            'group by estimate accuracy',
             'group by filename',
             'group by folder',
             'group by happens',
@@ -210,29 +241,51 @@ describe('Query parsing', () => {
             '# Comment lines are ignored',
             'explain',
             'hide backlink',
+            'hide cancelled date',
+            'hide created date',
+            'hide depends on',
             'hide done date',
             'hide due date',
             'hide edit button',
+            'hide id',
             'hide priority',
             'hide recurrence rule',
             'hide scheduled date',
             'hide start date',
             'hide task count',
+            'hide time spent',
+            'hide tree',
             'hide urgency',
+            'layout board',
+            'layout calendar month',
+            'layout calendar week by due',
+            'layout list',
             'limit 42',
             'limit to 42 tasks',
             'short mode',
             'short',
             'show backlink',
+            'show cancelled date',
+            'show created date',
+            'show depends on',
             'show done date',
             'show due date',
             'show edit button',
+            'show id',
+            'show occurrences until 2023-08-01',
+            'show occurrences until next month',
             'show priority',
             'show recurrence rule',
             'show scheduled date',
             'show start date',
             'show task count',
+            'show time spent',
+            'show tree',
+            'show totals estimated time',
+            'show totals overdue',
+            'show totals time spent',
             'show urgency',
+            'summarize by status',
         ];
         test.concurrent.each<string>(filters)('recognises %j', (filter) => {
             // Arrange
@@ -278,6 +331,8 @@ describe('Query', () => {
             const tasks = [
                 new Task({
                     estimatedTimeToComplete: null,
+                    timeSpent: null,
+                    timerStarted: null,
                     status: Status.TODO,
                     description: 'description',
                     path: 'Ab/C D',
@@ -290,15 +345,24 @@ describe('Query', () => {
                     startDate: null,
                     scheduledDate: null,
                     dueDate: null,
+                    startTime: null,
+                    scheduledTime: null,
+                    dueTime: null,
                     doneDate: null,
+                    createdDate: null,
+                    cancelledDate: null,
                     recurrence: null,
                     blockLink: '',
+                    id: '',
+                    dependsOn: [],
                     tags: [],
                     originalMarkdown: '',
                     scheduledDateIsInferred: false,
                 }),
                 new Task({
                     estimatedTimeToComplete: null,
+                    timeSpent: null,
+                    timerStarted: null,
                     status: Status.TODO,
                     description: 'description',
                     path: 'FF/C D',
@@ -311,9 +375,16 @@ describe('Query', () => {
                     startDate: null,
                     scheduledDate: null,
                     dueDate: null,
+                    startTime: null,
+                    scheduledTime: null,
+                    dueTime: null,
                     doneDate: null,
+                    createdDate: null,
+                    cancelledDate: null,
                     recurrence: null,
                     blockLink: '',
+                    id: '',
+                    dependsOn: [],
                     tags: [],
                     originalMarkdown: '',
                     scheduledDateIsInferred: false,
@@ -323,9 +394,10 @@ describe('Query', () => {
             const query = new Query({ source: input });
 
             // Act
+            const searchInfo = SearchInfo.fromAllTasks(tasks);
             let filteredTasks = [...tasks];
             query.filters.forEach((filter) => {
-                filteredTasks = filteredTasks.filter(filter.filterFunction);
+                filteredTasks = filteredTasks.filter((task) => filter.filterFunction(task, searchInfo));
             });
 
             // Assert
@@ -766,6 +838,112 @@ describe('Query', () => {
         });
     });
 
+    describe('include instructions', () => {
+        beforeEach(() => {
+            updateSettings({
+                savedQueries: [
+                    { name: 'active work', query: 'not done\n  (happens before tomorrow) OR (no happens date)' },
+                    { name: 'this week', query: 'include active work\ndue this week' },
+                    { name: 'loop 1', query: 'include loop 2' },
+                    { name: 'loop 2', query: 'include loop 1' },
+                ],
+            });
+        });
+
+        afterEach(() => {
+            resetSettings();
+        });
+
+        it('inserts the lines of a saved query', () => {
+            // Arrange
+            const query = new Query({ source: 'include active work\nsort by due' });
+
+            // Assert
+            expect(query.error).toBeUndefined();
+            expect(query.filters.map((filter) => filter.instruction)).toEqual([
+                'not done',
+                '(happens before tomorrow) OR (no happens date)',
+            ]);
+            expect(query.sorting.length).toEqual(1);
+        });
+
+        it('inserts saved queries included by saved queries', () => {
+            // Arrange
+            const query = new Query({ source: 'include this week' });
+
+            // Assert
+            expect(query.error).toBeUndefined();
+            expect(query.filters.length).toEqual(3);
+        });
+
+        it('reports unknown saved queries', () => {
+            // Arrange
+            const query = new Query({ source: 'not done\ninclude weekly review' });
+
+            // Assert
+            expect(query.error).toEqual('cannot include "weekly review": there is no saved query with this name');
+        });
+
+        it('reports saved queries that include themselves', () => {
+            // Arrange
+            const query = new Query({ source: 'include loop 1' });
+
+            // Assert
+            expect(query.error).toEqual('cannot include "loop 1", as it includes itself: loop 1 > loop 2 > loop 1');
+        });
+    });
+
+    describe('placeholders', () => {
+        it.each([
+            ['path includes {{query.file.path}}', 'path includes Projects/Garden/Plan.md'],
+            ['path includes {{query.file.folder}}', 'path includes Projects/Garden/'],
+            ['description includes {{ query.file.filename }}', 'description includes Plan'],
+        ])('expands "%s" to "%s"', (line: string, expected: string) => {
+            // Arrange
+            const query = new Query({ source: line, path: 'Projects/Garden/Plan.md' });
+
+            // Assert
+            expect(query.error).toBeUndefined();
+            expect(query.filters[0].instruction).toEqual(expected);
+        });
+
+        it('expands the folder of notes at the top of the vault', () => {
+            // Arrange
+            const query = new Query({ source: 'path includes {{query.file.folder}}', path: 'Plan.md' });
+
+            // Assert
+            expect(query.filters[0].instruction).toEqual('path includes /');
+        });
+
+        it('expands placeholders in saved queries', () => {
+            // Arrange
+            updateSettings({ savedQueries: [{ name: 'this project', query: 'path includes {{query.file.folder}}' }] });
+            const query = new Query({ source: 'include this project', path: 'Projects/Garden/Plan.md' });
+            resetSettings();
+
+            // Assert
+            expect(query.filters[0].instruction).toEqual('path includes Projects/Garden/');
+        });
+
+        it('reports unknown placeholders', () => {
+            // Arrange
+            const query = new Query({ source: 'path includes {{query.file.name}}', path: 'Plan.md' });
+
+            // Assert
+            expect(query.error).toEqual(
+                'unknown placeholder {{query.file.name}}: use query.file.path, query.file.folder or query.file.filename',
+            );
+        });
+
+        it('reports placeholders in queries that are not in a note', () => {
+            // Arrange
+            const query = new Query({ source: 'path includes {{query.file.path}}' });
+
+            // Assert
+            expect(query.error).toEqual('cannot expand {{query.file.path}}, as this query is not in a note');
+        });
+    });
+
     describe('explanations', () => {
         afterEach(() => {
             resetSettings();
@@ -857,6 +1035,193 @@ At most 0 tasks.
 `;
             expect(query.explainQueryWithoutIntroduction()).toEqual(expectedDisplayText);
         });
+
+        it('should explain the urgency formula when sorting by urgency', () => {
+            const input = 'sort by urgency\nlimit 5';
+            const query = new Query({ source: input });
+
+            const expectedDisplayText = `No filters supplied. All tasks will match the query.
+
+At most 5 tasks.
+
+Urgency is the sum of:
+  due date: 0.2 to 1.0 times 12
+  scheduled today or earlier: 5
+  starts after today: -3
+  priority: high 6, medium 3.9, none 1.95, low 0
+`;
+            expect(query.explainQueryWithoutIntroduction()).toEqual(expectedDisplayText);
+        });
+    });
+
+    // TaskSummary.test.ts tests the actual totals.
+    describe('totals instructions', () => {
+        it('should default to no totals', () => {
+            const query = new Query({ source: '' });
+            expect(query.layoutOptions.showTotalEstimatedTime).toEqual(false);
+            expect(query.layoutOptions.showTotalTimeSpent).toEqual(false);
+            expect(query.layoutOptions.showTotalOverdue).toEqual(false);
+            expect(query.layoutOptions.summarizeByStatus).toEqual(false);
+        });
+
+        it('should combine several totals instructions', () => {
+            // Arrange
+            const input = `
+                show totals estimated time
+                show totals overdue
+                summarize by status
+                `;
+            const query = new Query({ source: input });
+
+            // Assert
+            expect(query.error).toBeUndefined();
+            expect(query.layoutOptions.showTotalEstimatedTime).toEqual(true);
+            expect(query.layoutOptions.showTotalTimeSpent).toEqual(false);
+            expect(query.layoutOptions.showTotalOverdue).toEqual(true);
+            expect(query.layoutOptions.summarizeByStatus).toEqual(true);
+        });
+
+        it('should not understand unknown totals', () => {
+            const query = new Query({ source: 'show totals urgency' });
+            expect(query.error).toContain('show totals urgency');
+        });
+    });
+
+    // Calendar.test.ts tests the placing of tasks on the calendar.
+    describe('layout instructions', () => {
+        it('should default to a list', () => {
+            const query = new Query({ source: '' });
+            expect(query.layoutOptions.layout).toEqual('list');
+        });
+
+        it('should place tasks by happens date by default', () => {
+            const query = new Query({ source: 'layout calendar week' });
+
+            expect(query.error).toBeUndefined();
+            expect(query.layoutOptions.layout).toEqual('calendar');
+            expect(query.layoutOptions.calendarPeriod).toEqual('week');
+            expect(query.layoutOptions.calendarDateField).toEqual('happens');
+        });
+
+        it('should parse the date that places tasks', () => {
+            const query = new Query({ source: 'layout calendar month by scheduled' });
+
+            expect(query.layoutOptions.calendarPeriod).toEqual('month');
+            expect(query.layoutOptions.calendarDateField).toEqual('scheduled');
+        });
+
+        it('should use the last layout instruction', () => {
+            const query = new Query({ source: 'layout calendar month\nlayout list' });
+            expect(query.layoutOptions.layout).toEqual('list');
+        });
+
+        it('should not understand unknown layouts', () => {
+            const query = new Query({ source: 'layout calendar year' });
+            expect(query.error).toContain('layout calendar year');
+        });
+    });
+
+    describe('time of day', () => {
+        it.each([
+            ['due before in 2 hours', true],
+            ['happens after tomorrow at 5pm', true],
+            ['(due before in 2 hours) OR (done)', true],
+            ['sort by urgency', true],
+            ['show urgency', true],
+            ['due before tomorrow', false],
+            ['(due today) OR (done)', false],
+            ['sort by due', false],
+        ])('query "%s" depends on the time of day: %s', (source: string, expected: boolean) => {
+            const query = new Query({ source });
+            expect(query.error).toBeUndefined();
+            expect(query.dependsOnTimeOfDay).toEqual(expected);
+        });
+    });
+
+    describe('occurrences instructions', () => {
+        beforeAll(() => {
+            jest.useFakeTimers();
+            jest.setSystemTime(new Date(2023, 6, 13)); // 2023-07-13
+        });
+
+        afterAll(() => {
+            jest.useRealTimers();
+        });
+
+        const tasksAsMarkdown = `
+- [ ] weekly 🔁 every week 📅 2023-07-14
+- [ ] twice more 🔁 every week for 2 times 📅 2023-07-14
+- [ ] when done 🔁 every week when done 📅 2023-07-14
+- [x] done 🔁 every week 📅 2023-07-07
+- [ ] not recurring 📅 2023-07-14
+`;
+
+        function searchResults(source: string): string {
+            const query = new Query({ source });
+            const tasks = createTasksFromMarkdown(tasksAsMarkdown, 'some_markdown_file', 'Some Heading');
+            return '\n' + query.applyQueryToTasks(tasks).groups[0].tasksAsStringOfLines();
+        }
+
+        it('should not show occurrences by default', () => {
+            expect(new Query({ source: '' }).occurrencesUntil).toBeNull();
+        });
+
+        it('should add future occurrences of open recurring tasks, up to the date', () => {
+            const query = new Query({ source: 'show occurrences until 2023-07-28' });
+
+            expect(query.error).toBeUndefined();
+            expect(query.occurrencesUntil?.format('YYYY-MM-DD')).toEqual('2023-07-28');
+            // In the default sort order, with done tasks first:
+            expect(searchResults('show occurrences until 2023-07-28')).toEqual(`
+- [x] done 🔁 every week 📅 2023-07-07
+- [ ] weekly 🔁 every week 📅 2023-07-14
+- [ ] twice more 🔁 every week for 2 times 📅 2023-07-14
+- [ ] when done 🔁 every week when done 📅 2023-07-14
+- [ ] not recurring 📅 2023-07-14
+- [ ] weekly 🔁 every week 📅 2023-07-21
+- [ ] twice more 🔁 every week for 1 time 📅 2023-07-21
+- [ ] weekly 🔁 every week 📅 2023-07-28
+`);
+        });
+
+        it('should filter future occurrences like other tasks', () => {
+            expect(searchResults('show occurrences until in 3 weeks\ndue after 2023-07-20')).toEqual(`
+- [ ] weekly 🔁 every week 📅 2023-07-21
+- [ ] twice more 🔁 every week for 1 time 📅 2023-07-21
+- [ ] weekly 🔁 every week 📅 2023-07-28
+`);
+        });
+
+        it('should mark future occurrences with the task they come from', () => {
+            const task = fromLine({ line: '- [ ] weekly 🔁 every week 📅 2023-07-14' });
+
+            const occurrences = task.projectOccurrences(moment('2023-07-21'));
+
+            expect(task.projectedFrom).toBeNull();
+            expect(occurrences.length).toEqual(1);
+            expect(occurrences[0].projectedFrom).toBe(task);
+        });
+
+        it('should stop projecting at the maximum number of occurrences', () => {
+            const task = fromLine({ line: '- [ ] daily 🔁 every day 📅 2023-07-14' });
+
+            const occurrences = task.projectOccurrences(moment('2099-12-31'));
+
+            expect(occurrences.length).toEqual(Task.maximumProjectedOccurrences);
+            expect(occurrences[occurrences.length - 1].dueDate?.format('YYYY-MM-DD')).toEqual('2023-10-22');
+        });
+
+        it('should explain future occurrences', () => {
+            const query = new Query({ source: 'show occurrences until 2023-08-01' });
+            expect(query.explainQueryWithoutIntroduction()).toEqual(
+                'No filters supplied. All tasks will match the query.\n\nIncluding future occurrences of recurring tasks, until 2023-08-01, at most 100 of each task.',
+            );
+        });
+
+        it('should not understand an invalid date', () => {
+            const query = new Query({ source: 'show occurrences until someday' });
+            expect(query.error).toEqual('do not understand show occurrences date');
+        });
     });
 
     // This tests the parsing of 'group by' instructions.
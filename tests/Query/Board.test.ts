@@ -0,0 +1,47 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { Board } from '../../src/Query/Board';
+import { Query } from '../../src/Query/Query';
+import { StatusRegistry } from '../../src/StatusRegistry';
+import { fromLine } from '../TestHelpers';
+
+window.moment = moment;
+
+describe('Board', () => {
+    const tasks = [
+        fromLine({ line: '- [ ] first todo', path: 'a.md' }),
+        fromLine({ line: '- [x] done', path: 'b.md' }),
+        fromLine({ line: '- [ ] second todo', path: 'b.md' }),
+        fromLine({ line: '- [?] question', path: 'a.md' }),
+    ];
+
+    function summarise(columns: { title: string; tasks: { description: string }[] }[]) {
+        return columns.map((column) => `${column.title}: ${column.tasks.map((task) => task.description).join(', ')}`);
+    }
+
+    it('has a column for each registered status, then each unknown status', () => {
+        const columns = Board.columnsByStatus(tasks, new StatusRegistry());
+
+        expect(summarise(columns)).toMatchInlineSnapshot(`
+            [
+              "Todo: first todo, second todo",
+              "In Progress: ",
+              "Done: done",
+              "Cancelled: ",
+              "Unknown (?): question",
+            ]
+        `);
+        expect(columns.map((column) => column.status?.symbol)).toEqual([' ', '/', 'x', '-', '?']);
+    });
+
+    it('has a column for each group, which tasks cannot be dropped on', () => {
+        const taskGroups = new Query({ source: 'group by path' }).applyQueryToTasks(tasks);
+
+        const columns = Board.columnsByGroup(taskGroups);
+
+        expect(summarise(columns)).toEqual(['a: first todo, question', 'b: second todo, done']);
+        expect(columns.every((column) => column.status === null)).toEqual(true);
+    });
+});
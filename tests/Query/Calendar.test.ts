@@ -0,0 +1,69 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { Calendar } from '../../src/Query/Calendar';
+import { TaskBuilder } from '../TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+describe('Calendar', () => {
+    const dueOn15th = new TaskBuilder().description('due on 15th').dueDate('2023-01-15').build();
+    const scheduledOn3rd = new TaskBuilder()
+        .description('scheduled on 3rd')
+        .scheduledDate('2023-01-03')
+        .dueDate('2023-01-20')
+        .build();
+    const dueInFebruary = new TaskBuilder().description('due in February').dueDate('2023-02-02').build();
+    const undated = new TaskBuilder().description('undated').build();
+    const tasks = [dueOn15th, scheduledOn3rd, dueInFebruary, undated];
+
+    function descriptions(tasks: { description: string }[]) {
+        return tasks.map((task) => task.description);
+    }
+
+    it('shows whole weeks covering the month', () => {
+        const calendar = new Calendar(tasks, 'month', 'due', moment('2023-01-18'));
+
+        expect(calendar.title).toEqual('January 2023');
+        // January 2023 starts on a Sunday, and the default locale starts weeks on Sunday.
+        expect(calendar.weeks.length).toEqual(5);
+        expect(calendar.weeks[0][0].date.format('YYYY-MM-DD')).toEqual('2023-01-01');
+        expect(calendar.weeks[4][6].date.format('YYYY-MM-DD')).toEqual('2023-02-04');
+        expect(calendar.weeks[4][6].isInPeriod).toEqual(false);
+        expect(calendar.weeks.every((week) => week.length === 7)).toEqual(true);
+    });
+
+    it('places tasks by due date', () => {
+        const calendar = new Calendar(tasks, 'month', 'due', moment('2023-01-18'));
+
+        expect(descriptions(calendar.weeks[2][0].tasks)).toEqual(['due on 15th']);
+        expect(descriptions(calendar.weeks[2][5].tasks)).toEqual(['scheduled on 3rd']);
+        expect(descriptions(calendar.weeks[4][4].tasks)).toEqual(['due in February']);
+        expect(descriptions(calendar.tasksInPeriod)).toEqual(['due on 15th', 'scheduled on 3rd']);
+        expect(descriptions(calendar.undatedTasks)).toEqual(['undated']);
+    });
+
+    it('places tasks by the earliest happens date', () => {
+        const calendar = new Calendar(tasks, 'month', 'happens', moment('2023-01-18'));
+
+        expect(descriptions(calendar.weeks[0][2].tasks)).toEqual(['scheduled on 3rd']);
+        expect(descriptions(calendar.weeks[2][5].tasks)).toEqual([]);
+    });
+
+    it('treats tasks without the chosen date as undated', () => {
+        const calendar = new Calendar(tasks, 'month', 'scheduled', moment('2023-01-18'));
+
+        expect(descriptions(calendar.tasksInPeriod)).toEqual(['scheduled on 3rd']);
+        expect(descriptions(calendar.undatedTasks)).toEqual(['due on 15th', 'due in February', 'undated']);
+    });
+
+    it('shows a single week', () => {
+        const calendar = new Calendar(tasks, 'week', 'due', moment('2023-01-18'));
+
+        expect(calendar.title).toEqual('Week of 2023-01-15');
+        expect(calendar.weeks.length).toEqual(1);
+        expect(calendar.weeks[0].every((day) => day.isInPeriod)).toEqual(true);
+        expect(descriptions(calendar.tasksInPeriod)).toEqual(['due on 15th', 'scheduled on 3rd']);
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { BlockedField } from '../../../src/Query/Filter/BlockedField';
+import { SearchInfo } from '../../../src/Query/SearchInfo';
+import { Status } from '../../../src/Status';
+import type { Task } from '../../../src/Task';
+import { TaskBuilder } from '../../TestingTools/TaskBuilder';
+import { toBeValid } from '../../CustomMatchers/CustomMatchersForFilters';
+
+window.moment = moment;
+
+expect.extend({
+    toBeValid,
+});
+
+describe('blocked', () => {
+    const todo = new TaskBuilder().description('todo').id('todo').build();
+    const done = new TaskBuilder().description('done').id('done').status(Status.DONE).build();
+    const blocked = new TaskBuilder().description('blocked').dependsOn(['todo']).build();
+    const unblocked = new TaskBuilder().description('unblocked').dependsOn(['done']).build();
+    const allTasks = [todo, done, blocked, unblocked];
+    const searchInfo = SearchInfo.fromAllTasks(allTasks);
+
+    function matchingDescriptions(instruction: string): string[] {
+        const filter = new BlockedField().createFilterOrErrorMessage(instruction);
+        expect(filter).toBeValid();
+        return allTasks
+            .filter((task: Task) => filter.filterFunction!(task, searchInfo))
+            .map((task: Task) => task.description);
+    }
+
+    it('is blocked', () => {
+        expect(matchingDescriptions('is blocked')).toEqual(['blocked']);
+    });
+
+    it('is not blocked', () => {
+        expect(matchingDescriptions('is not blocked')).toEqual(['todo', 'done', 'unblocked']);
+    });
+
+    it('should not understand other instructions', () => {
+        const filter = new BlockedField().createFilterOrErrorMessage('is blocked by todo');
+        expect(filter).not.toBeValid();
+    });
+
+    describe('grouping by blocked', () => {
+        it('supports Field grouping methods correctly', () => {
+            expect(new BlockedField().supportsGrouping()).toEqual(true);
+        });
+
+        it('group by blocked', () => {
+            const grouper = new BlockedField().createGrouper();
+            expect(grouper.property).toEqual('blocked');
+            expect(grouper.grouper(blocked, searchInfo)).toEqual(['Blocked']);
+            expect(grouper.grouper(unblocked, searchInfo)).toEqual(['Not blocked']);
+        });
+    });
+});
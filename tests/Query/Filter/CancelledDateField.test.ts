@@ -0,0 +1,114 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { CancelledDateField } from '../../../src/Query/Filter/CancelledDateField';
+import type { FilterOrErrorMessage } from '../../../src/Query/Filter/Filter';
+import { SearchInfo } from '../../../src/Query/SearchInfo';
+import { TaskBuilder } from '../../TestingTools/TaskBuilder';
+import { testFilter } from '../../TestingTools/FilterTestHelpers';
+import { toHaveExplanation } from '../../CustomMatchers/CustomMatchersForFilters';
+import { expectTaskComparesAfter, expectTaskComparesBefore } from '../../CustomMatchers/CustomMatchersForSorting';
+
+window.moment = moment;
+
+expect.extend({
+    toHaveExplanation,
+});
+
+function testTaskFilterForTaskWithCancelledDate(
+    filter: FilterOrErrorMessage,
+    cancelledDate: string | null,
+    expected: boolean,
+) {
+    const builder = new TaskBuilder();
+    testFilter(filter, builder.cancelledDate(cancelledDate), expected);
+}
+
+describe('cancelled date', () => {
+    it('by cancelled date presence', () => {
+        // Arrange
+        const filter = new CancelledDateField().createFilterOrErrorMessage('has cancelled date');
+
+        // Act, Assert
+        testTaskFilterForTaskWithCancelledDate(filter, null, false);
+        testTaskFilterForTaskWithCancelledDate(filter, '2022-04-15', true);
+    });
+
+    it('by cancelled date absence', () => {
+        // Arrange
+        const filter = new CancelledDateField().createFilterOrErrorMessage('no cancelled date');
+
+        // Act, Assert
+        testTaskFilterForTaskWithCancelledDate(filter, null, true);
+        testTaskFilterForTaskWithCancelledDate(filter, '2022-04-15', false);
+    });
+});
+
+describe('explain cancelled date queries', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2022, 0, 15)); // 2022-01-15
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    it('should explain date before', () => {
+        const filterOrMessage = new CancelledDateField().createFilterOrErrorMessage('cancelled before 2023-01-02');
+        expect(filterOrMessage).toHaveExplanation('cancelled date is before 2023-01-02 (Monday 2nd January 2023)');
+    });
+
+    it('should explain date with explicit on', () => {
+        const filterOrMessage = new CancelledDateField().createFilterOrErrorMessage('cancelled on 2024-01-02');
+        expect(filterOrMessage).toHaveExplanation('cancelled date is on 2024-01-02 (Tuesday 2nd January 2024)');
+    });
+
+    it('should explain date with implicit on', () => {
+        const filterOrMessage = new CancelledDateField().createFilterOrErrorMessage('cancelled 2024-01-02');
+        expect(filterOrMessage).toHaveExplanation('cancelled date is on 2024-01-02 (Tuesday 2nd January 2024)');
+    });
+
+    it('should show value of relative dates', () => {
+        const filterOrMessage = new CancelledDateField().createFilterOrErrorMessage('cancelled after today');
+        expect(filterOrMessage).toHaveExplanation('cancelled date is after 2022-01-15 (Saturday 15th January 2022)');
+    });
+});
+
+describe('sorting by cancelled', () => {
+    it('supports Field sorting methods correctly', () => {
+        const field = new CancelledDateField();
+        expect(field.supportsSorting()).toEqual(true);
+    });
+
+    // These are minimal tests just to confirm basic behaviour is set up for this field.
+    // Thorough testing is done in DueDateField.test.ts.
+
+    const date1 = new TaskBuilder().cancelledDate('2021-01-12').build();
+    const date2 = new TaskBuilder().cancelledDate('2022-12-23').build();
+
+    it('sort by cancelled', () => {
+        expectTaskComparesBefore(new CancelledDateField().createNormalSorter(), date1, date2);
+    });
+
+    it('sort by cancelled reverse', () => {
+        expectTaskComparesAfter(new CancelledDateField().createReverseSorter(), date1, date2);
+    });
+});
+
+describe('grouping by cancelled', () => {
+    it('supports Field grouping methods correctly', () => {
+        expect(new CancelledDateField().supportsGrouping()).toEqual(true);
+    });
+
+    it('group by cancelled', () => {
+        const grouper = new CancelledDateField().createGrouper();
+        const searchInfo = SearchInfo.fromAllTasks([]);
+        expect(grouper.property).toEqual('cancelled');
+        expect(grouper.grouper(new TaskBuilder().cancelledDate('1970-01-01').build(), searchInfo)).toEqual([
+            '1970-01-01 Thursday',
+        ]);
+        expect(grouper.grouper(new TaskBuilder().build(), searchInfo)).toEqual(['No cancelled date']);
+    });
+});
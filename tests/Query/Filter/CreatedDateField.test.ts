@@ -0,0 +1,114 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { CreatedDateField } from '../../../src/Query/Filter/CreatedDateField';
+import type { FilterOrErrorMessage } from '../../../src/Query/Filter/Filter';
+import { SearchInfo } from '../../../src/Query/SearchInfo';
+import { TaskBuilder } from '../../TestingTools/TaskBuilder';
+import { testFilter } from '../../TestingTools/FilterTestHelpers';
+import { toHaveExplanation } from '../../CustomMatchers/CustomMatchersForFilters';
+import { expectTaskComparesAfter, expectTaskComparesBefore } from '../../CustomMatchers/CustomMatchersForSorting';
+
+window.moment = moment;
+
+expect.extend({
+    toHaveExplanation,
+});
+
+function testTaskFilterForTaskWithCreatedDate(
+    filter: FilterOrErrorMessage,
+    createdDate: string | null,
+    expected: boolean,
+) {
+    const builder = new TaskBuilder();
+    testFilter(filter, builder.createdDate(createdDate), expected);
+}
+
+describe('created date', () => {
+    it('by created date presence', () => {
+        // Arrange
+        const filter = new CreatedDateField().createFilterOrErrorMessage('has created date');
+
+        // Act, Assert
+        testTaskFilterForTaskWithCreatedDate(filter, null, false);
+        testTaskFilterForTaskWithCreatedDate(filter, '2022-04-15', true);
+    });
+
+    it('by created date absence', () => {
+        // Arrange
+        const filter = new CreatedDateField().createFilterOrErrorMessage('no created date');
+
+        // Act, Assert
+        testTaskFilterForTaskWithCreatedDate(filter, null, true);
+        testTaskFilterForTaskWithCreatedDate(filter, '2022-04-15', false);
+    });
+});
+
+describe('explain created date queries', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2022, 0, 15)); // 2022-01-15
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    it('should explain date before', () => {
+        const filterOrMessage = new CreatedDateField().createFilterOrErrorMessage('created before 2023-01-02');
+        expect(filterOrMessage).toHaveExplanation('created date is before 2023-01-02 (Monday 2nd January 2023)');
+    });
+
+    it('should explain date with explicit on', () => {
+        const filterOrMessage = new CreatedDateField().createFilterOrErrorMessage('created on 2024-01-02');
+        expect(filterOrMessage).toHaveExplanation('created date is on 2024-01-02 (Tuesday 2nd January 2024)');
+    });
+
+    it('should explain date with implicit on', () => {
+        const filterOrMessage = new CreatedDateField().createFilterOrErrorMessage('created 2024-01-02');
+        expect(filterOrMessage).toHaveExplanation('created date is on 2024-01-02 (Tuesday 2nd January 2024)');
+    });
+
+    it('should show value of relative dates', () => {
+        const filterOrMessage = new CreatedDateField().createFilterOrErrorMessage('created after today');
+        expect(filterOrMessage).toHaveExplanation('created date is after 2022-01-15 (Saturday 15th January 2022)');
+    });
+});
+
+describe('sorting by created', () => {
+    it('supports Field sorting methods correctly', () => {
+        const field = new CreatedDateField();
+        expect(field.supportsSorting()).toEqual(true);
+    });
+
+    // These are minimal tests just to confirm basic behaviour is set up for this field.
+    // Thorough testing is done in DueDateField.test.ts.
+
+    const date1 = new TaskBuilder().createdDate('2021-01-12').build();
+    const date2 = new TaskBuilder().createdDate('2022-12-23').build();
+
+    it('sort by created', () => {
+        expectTaskComparesBefore(new CreatedDateField().createNormalSorter(), date1, date2);
+    });
+
+    it('sort by created reverse', () => {
+        expectTaskComparesAfter(new CreatedDateField().createReverseSorter(), date1, date2);
+    });
+});
+
+describe('grouping by created', () => {
+    it('supports Field grouping methods correctly', () => {
+        expect(new CreatedDateField().supportsGrouping()).toEqual(true);
+    });
+
+    it('group by created', () => {
+        const grouper = new CreatedDateField().createGrouper();
+        const searchInfo = SearchInfo.fromAllTasks([]);
+        expect(grouper.property).toEqual('created');
+        expect(grouper.grouper(new TaskBuilder().createdDate('1970-01-01').build(), searchInfo)).toEqual([
+            '1970-01-01 Thursday',
+        ]);
+        expect(grouper.grouper(new TaskBuilder().build(), searchInfo)).toEqual(['No created date']);
+    });
+});
@@ -38,6 +38,23 @@ describe('done date', () => {
         testTaskFilterForTaskWithDoneDate(filter, null, true);
         testTaskFilterForTaskWithDoneDate(filter, '2022-04-15', false);
     });
+
+    it('by done date in the last days', () => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2022, 3, 15)); // 2022-04-15
+
+        // Arrange
+        const filter = new DoneDateField().createFilterOrErrorMessage('done in the last 14 days');
+
+        // Act, Assert
+        testTaskFilterForTaskWithDoneDate(filter, null, false);
+        testTaskFilterForTaskWithDoneDate(filter, '2022-04-01', false);
+        testTaskFilterForTaskWithDoneDate(filter, '2022-04-02', true);
+        testTaskFilterForTaskWithDoneDate(filter, '2022-04-15', true);
+        testTaskFilterForTaskWithDoneDate(filter, '2022-04-16', false);
+
+        jest.useRealTimers();
+    });
 });
 
 describe('explain done date queries', () => {
@@ -47,6 +47,131 @@ describe('due date', () => {
         testTaskFilterForTaskWithDueDate(filter, '2022-00-01', true); // month 0 not valid
         testTaskFilterForTaskWithDueDate(filter, '2022-13-01', true); // month 13 not valid
     });
+
+    it('by due date range', () => {
+        // Arrange
+        const filter = new DueDateField().createFilterOrErrorMessage('due 2022-04-10 2022-04-20');
+
+        // Act, Assert
+        testTaskFilterForTaskWithDueDate(filter, null, false);
+        testTaskFilterForTaskWithDueDate(filter, '2022-04-09', false);
+        testTaskFilterForTaskWithDueDate(filter, '2022-04-10', true);
+        testTaskFilterForTaskWithDueDate(filter, '2022-04-20', true);
+        testTaskFilterForTaskWithDueDate(filter, '2022-04-21', false);
+        testTaskFilterForTaskWithDueDate(filter, '2022-02-30', false);
+    });
+
+    it('before and after a date range', () => {
+        // Arrange
+        const before = new DueDateField().createFilterOrErrorMessage('due before 2022-04-10 2022-04-20');
+        const after = new DueDateField().createFilterOrErrorMessage('due after 2022-04-10 2022-04-20');
+
+        // Act, Assert
+        testTaskFilterForTaskWithDueDate(before, '2022-04-09', true);
+        testTaskFilterForTaskWithDueDate(before, '2022-04-10', false);
+        testTaskFilterForTaskWithDueDate(after, '2022-04-20', false);
+        testTaskFilterForTaskWithDueDate(after, '2022-04-21', true);
+    });
+
+    describe('in relative periods', () => {
+        beforeAll(() => {
+            jest.useFakeTimers();
+            jest.setSystemTime(new Date(2022, 3, 15)); // 2022-04-15, a Friday
+        });
+
+        afterAll(() => {
+            jest.useRealTimers();
+        });
+
+        it.each([
+            ['due this week', '2022-04-10', '2022-04-16'],
+            ['due next week', '2022-04-17', '2022-04-23'],
+            ['due last month', '2022-03-01', '2022-03-31'],
+            ['due this quarter', '2022-04-01', '2022-06-30'],
+            ['due next year', '2023-01-01', '2023-12-31'],
+            ['due in the last 14 days', '2022-04-02', '2022-04-15'],
+            ['due in the next 7 days', '2022-04-15', '2022-04-21'],
+        ])('"%s" finds dates from %s to %s', (line: string, first: string, last: string) => {
+            // Arrange
+            const filter = new DueDateField().createFilterOrErrorMessage(line);
+
+            // Act, Assert
+            testTaskFilterForTaskWithDueDate(filter, moment(first).subtract(1, 'day').format('YYYY-MM-DD'), false);
+            testTaskFilterForTaskWithDueDate(filter, first, true);
+            testTaskFilterForTaskWithDueDate(filter, last, true);
+            testTaskFilterForTaskWithDueDate(filter, moment(last).add(1, 'day').format('YYYY-MM-DD'), false);
+        });
+    });
+
+    describe('with times of day', () => {
+        beforeAll(() => {
+            jest.useFakeTimers();
+            jest.setSystemTime(new Date(2022, 3, 15, 10, 0)); // 2022-04-15 10:00
+        });
+
+        afterAll(() => {
+            jest.useRealTimers();
+        });
+
+        function testTaskFilterForTaskWithDueTime(filter: FilterOrErrorMessage, dueTime: string, expected: boolean) {
+            testFilter(filter, new TaskBuilder().dueDate('2022-04-15').dueTime(dueTime), expected);
+        }
+
+        it('compares times with filters that have a time', () => {
+            // Arrange
+            const filter = new DueDateField().createFilterOrErrorMessage('due before in 2 hours');
+
+            // Act, Assert
+            testTaskFilterForTaskWithDueTime(filter, '11:59', true);
+            testTaskFilterForTaskWithDueTime(filter, '12:00', false);
+            // A date without a time is at the start of its day:
+            testTaskFilterForTaskWithDueDate(filter, '2022-04-15', true);
+            testTaskFilterForTaskWithDueDate(filter, '2022-04-16', false);
+        });
+
+        it('ignores times with filters that have no time', () => {
+            // Arrange
+            const filter = new DueDateField().createFilterOrErrorMessage('due today');
+
+            // Act, Assert
+            testTaskFilterForTaskWithDueTime(filter, '09:00', true);
+            testTaskFilterForTaskWithDueTime(filter, '23:59', true);
+        });
+
+        it('explains filters with a time', () => {
+            const filterOrMessage = new DueDateField().createFilterOrErrorMessage('due before in 2 hours');
+            expect(filterOrMessage).toHaveExplanation('due date is before 2022-04-15 12:00 (Friday 15th April 2022)');
+        });
+    });
+
+    describe('in business days', () => {
+        beforeAll(() => {
+            jest.useFakeTimers();
+            jest.setSystemTime(new Date('2023-07-14')); // A Friday
+        });
+
+        afterAll(() => {
+            jest.useRealTimers();
+        });
+
+        it('skips weekends', () => {
+            // Arrange
+            const filter = new DueDateField().createFilterOrErrorMessage('due in 3 business days');
+
+            // Act, Assert
+            testTaskFilterForTaskWithDueDate(filter, '2023-07-17', false);
+            testTaskFilterForTaskWithDueDate(filter, '2023-07-19', true);
+        });
+
+        it('counts backwards', () => {
+            // Arrange
+            const filter = new DueDateField().createFilterOrErrorMessage('due before 2 working days ago');
+
+            // Act, Assert
+            testTaskFilterForTaskWithDueDate(filter, '2023-07-11', true);
+            testTaskFilterForTaskWithDueDate(filter, '2023-07-12', false);
+        });
+    });
 });
 
 describe('explain due date queries', () => {
@@ -59,6 +184,21 @@ describe('explain due date queries', () => {
         const filterOrMessage = new DueDateField().createFilterOrErrorMessage('due 2023-01-02');
         expect(filterOrMessage).toHaveExplanation('due date is on 2023-01-02 (Monday 2nd January 2023)');
     });
+
+    it('should explain date range', () => {
+        const filterOrMessage = new DueDateField().createFilterOrErrorMessage('due 2023-01-02 2023-01-08');
+        expect(filterOrMessage).toHaveExplanation(
+            'due date is between 2023-01-02 (Monday 2nd January 2023) and 2023-01-08 (Sunday 8th January 2023) inclusive',
+        );
+    });
+
+    it('should explain before and after date range', () => {
+        const before = new DueDateField().createFilterOrErrorMessage('due before 2023-01-02 2023-01-08');
+        expect(before).toHaveExplanation('due date is before 2023-01-02 (Monday 2nd January 2023)');
+
+        const after = new DueDateField().createFilterOrErrorMessage('due after 2023-01-02 2023-01-08');
+        expect(after).toHaveExplanation('due date is after 2023-01-08 (Sunday 8th January 2023)');
+    });
 });
 
 describe('sorting by due', () => {
@@ -89,4 +229,16 @@ describe('sorting by due', () => {
         expectTaskComparesBefore(sorter, date2, date1);
         expectTaskComparesEqual(sorter, date2, date2);
     });
+    it('sort by due time within a day, with dates without a time first', () => {
+        // Arrange
+        const sorter = new DueDateField().createNormalSorter();
+        const noTime = new TaskBuilder().dueDate('2022-12-23').build();
+        const morning = new TaskBuilder().dueDate('2022-12-23').dueTime('09:00').build();
+        const afternoon = new TaskBuilder().dueDate('2022-12-23').dueTime('15:30').build();
+
+        // Assert
+        expectTaskComparesBefore(sorter, noTime, morning);
+        expectTaskComparesBefore(sorter, morning, afternoon);
+        expectTaskComparesBefore(sorter, afternoon, new TaskBuilder().dueDate('2022-12-24').build());
+    });
 });
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { EstimateAccuracyField } from '../../../src/Query/Filter/EstimateAccuracyField';
+import { SearchInfo } from '../../../src/Query/SearchInfo';
+import { TaskBuilder } from '../../TestingTools/TaskBuilder';
+import { toBeValid } from '../../CustomMatchers/CustomMatchersForFilters';
+
+window.moment = moment;
+
+expect.extend({
+    toBeValid,
+});
+
+describe('estimate accuracy', () => {
+    it('should not yet support filtering', () => {
+        const filter = new EstimateAccuracyField().createFilterOrErrorMessage('estimate accuracy is good');
+        expect(filter).not.toBeValid();
+    });
+});
+
+describe('grouping by estimate accuracy', () => {
+    it('supports Field grouping methods correctly', () => {
+        expect(new EstimateAccuracyField().supportsGrouping()).toEqual(true);
+    });
+
+    it.each([
+        [undefined, 60, 'No estimate'],
+        [null, 60, 'No estimate'],
+        [60, null, 'No time spent'],
+        [60, 0, 'Under estimate'],
+        [60, 53, 'Under estimate'],
+        [60, 54, 'On estimate'],
+        [60, 60, 'On estimate'],
+        [60, 66, 'On estimate'],
+        [60, 67, 'Over estimate'],
+    ])('with estimate %s and time spent %s, groups as %s', (estimate, timeSpent, expectedGroup) => {
+        // Arrange
+        const grouper = new EstimateAccuracyField().createGrouper();
+        const task = new TaskBuilder().estimatedTimeToComplete(estimate).timeSpent(timeSpent).build();
+
+        // Assert
+        expect(grouper.property).toEqual('estimate accuracy');
+        expect(grouper.grouper(task, SearchInfo.fromAllTasks([task]))).toEqual([expectedGroup]);
+    });
+});
@@ -119,6 +119,13 @@ describe('explain happens date queries', () => {
             'due, start or scheduled date is after 2022-01-15 (Saturday 15th January 2022)',
         );
     });
+
+    it('should show value of relative periods', () => {
+        const filterOrMessage = new HappensDateField().createFilterOrErrorMessage('happens next quarter');
+        expect(filterOrMessage).toHaveExplanation(
+            'due, start or scheduled date is between 2022-04-01 (Friday 1st April 2022) and 2022-06-30 (Thursday 30th June 2022) inclusive',
+        );
+    });
 });
 
 describe('sorting by happens', () => {
@@ -1,4 +1,5 @@
 import { StatusNameField } from '../../../src/Query/Filter/StatusNameField';
+import { SearchInfo } from '../../../src/Query/SearchInfo';
 import * as TestHelpers from '../../TestHelpers';
 import { toBeValid, toMatchTaskFromLine } from '../../CustomMatchers/CustomMatchersForFilters';
 import {
@@ -101,7 +102,7 @@ describe('grouping by status.name', () => {
         const grouper = new StatusNameField().createGrouper();
 
         // // Assert
-        expect(grouper.grouper(todoTask)).toEqual(['Todo']);
-        expect(grouper.grouper(inprTask)).toEqual(['In Progress']);
+        expect(grouper.grouper(todoTask, SearchInfo.fromAllTasks([todoTask]))).toEqual(['Todo']);
+        expect(grouper.grouper(inprTask, SearchInfo.fromAllTasks([inprTask]))).toEqual(['In Progress']);
     });
 });
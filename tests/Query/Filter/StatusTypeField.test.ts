@@ -10,6 +10,7 @@ import { TaskBuilder } from '../../TestingTools/TaskBuilder';
 import { StatusType } from '../../../src/StatusConfiguration';
 import { Status } from '../../../src/Status';
 import * as FilterParser from '../../../src/Query/FilterParser';
+import { SearchInfo } from '../../../src/Query/SearchInfo';
 
 expect.extend({
     toBeValid,
@@ -160,12 +161,12 @@ describe('grouping by status.type', () => {
         const grouper = new StatusTypeField().createGrouper();
 
         // // Assert
-        expect(grouper.grouper(inprTask)).toEqual(['1 IN_PROGRESS']);
-        expect(grouper.grouper(todoTask)).toEqual(['2 TODO']);
-        expect(grouper.grouper(unknTask)).toEqual(['2 TODO']);
-        expect(grouper.grouper(doneTask)).toEqual(['3 DONE']);
-        expect(grouper.grouper(cancTask)).toEqual(['4 CANCELLED']);
-        expect(grouper.grouper(non_Task)).toEqual(['5 NON_TASK']);
-        expect(grouper.grouper(emptTask)).toEqual(['6 EMPTY']); // won't be seen by users
+        expect(grouper.grouper(inprTask, SearchInfo.fromAllTasks([inprTask]))).toEqual(['1 IN_PROGRESS']);
+        expect(grouper.grouper(todoTask, SearchInfo.fromAllTasks([todoTask]))).toEqual(['2 TODO']);
+        expect(grouper.grouper(unknTask, SearchInfo.fromAllTasks([unknTask]))).toEqual(['2 TODO']);
+        expect(grouper.grouper(doneTask, SearchInfo.fromAllTasks([doneTask]))).toEqual(['3 DONE']);
+        expect(grouper.grouper(cancTask, SearchInfo.fromAllTasks([cancTask]))).toEqual(['4 CANCELLED']);
+        expect(grouper.grouper(non_Task, SearchInfo.fromAllTasks([non_Task]))).toEqual(['5 NON_TASK']);
+        expect(grouper.grouper(emptTask, SearchInfo.fromAllTasks([emptTask]))).toEqual(['6 EMPTY']); // won't be seen by users
     });
 });
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { SubtasksField } from '../../../src/Query/Filter/SubtasksField';
+import { Task } from '../../../src/Task';
+import { Status } from '../../../src/Status';
+import { testTaskFilter } from '../../TestingTools/FilterTestHelpers';
+import { TaskBuilder } from '../../TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+describe('subtasks', () => {
+    const doneParent = new TaskBuilder().status(Status.DONE).build();
+    const todoParent = new TaskBuilder().status(Status.TODO).build();
+    const childOfDone = new TaskBuilder().build();
+    const childOfTodo = new TaskBuilder().build();
+    const topLevel = new TaskBuilder().build();
+    Task.linkParentAndChild(doneParent, childOfDone);
+    Task.linkParentAndChild(todoParent, childOfTodo);
+
+    it('has subtasks', () => {
+        const filter = new SubtasksField().createFilterOrErrorMessage('has subtasks');
+
+        testTaskFilter(filter, todoParent, true);
+        testTaskFilter(filter, childOfTodo, false);
+        testTaskFilter(filter, topLevel, false);
+    });
+
+    it('no subtasks', () => {
+        const filter = new SubtasksField().createFilterOrErrorMessage('no subtasks');
+
+        testTaskFilter(filter, todoParent, false);
+        testTaskFilter(filter, childOfTodo, true);
+        testTaskFilter(filter, topLevel, true);
+    });
+
+    it('parent is done', () => {
+        const filter = new SubtasksField().createFilterOrErrorMessage('parent is done');
+
+        testTaskFilter(filter, childOfDone, true);
+        testTaskFilter(filter, childOfTodo, false);
+        testTaskFilter(filter, topLevel, false);
+    });
+
+    it('parent is not done', () => {
+        const filter = new SubtasksField().createFilterOrErrorMessage('parent is not done');
+
+        testTaskFilter(filter, childOfDone, false);
+        testTaskFilter(filter, childOfTodo, true);
+        testTaskFilter(filter, topLevel, false);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { TimeSpentField } from '../../../src/Query/Filter/TimeSpentField';
+import { TaskBuilder } from '../../TestingTools/TaskBuilder';
+import { testFilter } from '../../TestingTools/FilterTestHelpers';
+import { toBeValid, toHaveExplanation } from '../../CustomMatchers/CustomMatchersForFilters';
+import {
+    expectTaskComparesAfter,
+    expectTaskComparesBefore,
+    expectTaskComparesEqual,
+} from '../../CustomMatchers/CustomMatchersForSorting';
+
+window.moment = moment;
+
+expect.extend({
+    toBeValid,
+    toHaveExplanation,
+});
+
+function withTimeSpent(timeSpent: number | null) {
+    return new TaskBuilder().timeSpent(timeSpent);
+}
+
+describe('time spent', () => {
+    it('time spent above', () => {
+        // Arrange
+        const filter = new TimeSpentField().createFilterOrErrorMessage('time spent above 2:00');
+
+        // Assert
+        expect(filter).toBeValid();
+        testFilter(filter, withTimeSpent(121), true);
+        testFilter(filter, withTimeSpent(120), false);
+        testFilter(filter, withTimeSpent(null), false);
+    });
+
+    it('time spent below', () => {
+        // Arrange
+        const filter = new TimeSpentField().createFilterOrErrorMessage('time spent below 0:30');
+
+        // Assert
+        expect(filter).toBeValid();
+        testFilter(filter, withTimeSpent(29), true);
+        testFilter(filter, withTimeSpent(null), true);
+        testFilter(filter, withTimeSpent(30), false);
+    });
+
+    it('accepts more than 99 hours', () => {
+        const filter = new TimeSpentField().createFilterOrErrorMessage('time spent above 120:00');
+        expect(filter).toBeValid();
+        testFilter(filter, withTimeSpent(120 * 60 + 1), true);
+    });
+
+    it('explains the filter with a normalised time', () => {
+        const filter = new TimeSpentField().createFilterOrErrorMessage('time spent above 2:00');
+        expect(filter).toHaveExplanation('time spent above 02:00');
+    });
+
+    it('rejects invalid times', () => {
+        const filter = new TimeSpentField().createFilterOrErrorMessage('time spent above 2 hours');
+        expect(filter).not.toBeValid();
+        expect(filter.error).toEqual('do not understand time spent: expected H:mm, such as 2:00');
+    });
+});
+
+describe('sorting by time spent', () => {
+    it('supports Field sorting methods correctly', () => {
+        const field = new TimeSpentField();
+        expect(field.supportsSorting()).toEqual(true);
+    });
+
+    it('sort by time spent', () => {
+        // Arrange
+        const sorter = new TimeSpentField().createNormalSorter();
+
+        // Assert
+        expectTaskComparesBefore(sorter, withTimeSpent(10).build(), withTimeSpent(20).build());
+        expectTaskComparesBefore(sorter, withTimeSpent(null).build(), withTimeSpent(1).build());
+        expectTaskComparesEqual(sorter, withTimeSpent(null).build(), withTimeSpent(0).build());
+    });
+
+    it('sort by time spent reverse', () => {
+        const sorter = new TimeSpentField().createReverseSorter();
+        expectTaskComparesAfter(sorter, withTimeSpent(10).build(), withTimeSpent(20).build());
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { TaskSummary } from '../../src/Query/TaskSummary';
+import { Status } from '../../src/Status';
+import { LayoutOptions } from '../../src/TaskLayout';
+import { TaskBuilder } from '../TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+describe('TaskSummary', () => {
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2023, 0, 15));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    const tasks = [
+        new TaskBuilder().estimatedTimeToComplete(90).timeSpent(30).dueDate('2023-01-14').build(),
+        new TaskBuilder().estimatedTimeToComplete(45).dueDate('2023-01-15').build(),
+        new TaskBuilder().status(Status.DONE).estimatedTimeToComplete(720).timeSpent(35).dueDate('2023-01-01').build(),
+        new TaskBuilder().status(Status.makeCancelled()).dueDate('2023-01-01').build(),
+    ];
+
+    function summarize(configure: (options: LayoutOptions) => void, includeCount = true) {
+        const options = new LayoutOptions();
+        configure(options);
+        return TaskSummary.summarize(tasks, options, includeCount);
+    }
+
+    it('only counts tasks by default', () => {
+        expect(TaskSummary.isRequested(new LayoutOptions())).toEqual(false);
+        expect(summarize(() => {})).toEqual('4 tasks');
+        expect(TaskSummary.summarize(tasks.slice(0, 1), new LayoutOptions())).toEqual('1 task');
+    });
+
+    it('totals the estimated time', () => {
+        expect(summarize((options) => (options.showTotalEstimatedTime = true))).toEqual('4 tasks, 14h 15m estimated');
+    });
+
+    it('totals the time spent', () => {
+        expect(summarize((options) => (options.showTotalTimeSpent = true))).toEqual('4 tasks, 1h 05m spent');
+    });
+
+    it('counts tasks that are overdue and not done or cancelled', () => {
+        expect(summarize((options) => (options.showTotalOverdue = true))).toEqual('4 tasks, 1 overdue');
+    });
+
+    it('counts tasks by status name', () => {
+        expect(summarize((options) => (options.summarizeByStatus = true))).toEqual(
+            '4 tasks, 1 Cancelled, 1 Done, 2 Todo',
+        );
+    });
+
+    it('combines totals in a fixed order, optionally without the count', () => {
+        const summary = summarize((options) => {
+            options.showTotalOverdue = true;
+            options.showTotalEstimatedTime = true;
+        }, false);
+        expect(summary).toEqual('14h 15m estimated, 1 overdue');
+    });
+});
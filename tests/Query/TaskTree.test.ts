@@ -0,0 +1,43 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { Task } from '../../src/Task';
+import { TaskTree } from '../../src/Query/TaskTree';
+import type { TaskTreeNode } from '../../src/Query/TaskTree';
+import { TaskBuilder } from '../TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+function describeTree(nodes: TaskTreeNode[], indent = ''): string[] {
+    return nodes.flatMap((node) => [indent + node.task.description, ...describeTree(node.children, indent + '    ')]);
+}
+
+describe('TaskTree', () => {
+    const parent = new TaskBuilder().description('parent').build();
+    const child1 = new TaskBuilder().description('child 1').build();
+    const child2 = new TaskBuilder().description('child 2').build();
+    const grandchild = new TaskBuilder().description('grandchild').build();
+    const other = new TaskBuilder().description('other').build();
+    Task.linkParentAndChild(parent, child1);
+    Task.linkParentAndChild(parent, child2);
+    Task.linkParentAndChild(child1, grandchild);
+
+    it('should nest children below their parent, in the order of the results', () => {
+        const tree = TaskTree.fromTasks([child2, other, grandchild, parent, child1]);
+
+        expect(describeTree(tree)).toEqual(['other', 'parent', '    child 2', '    child 1', '        grandchild']);
+    });
+
+    it('should nest tasks below their nearest ancestor in the results', () => {
+        const tree = TaskTree.fromTasks([parent, grandchild]);
+
+        expect(describeTree(tree)).toEqual(['parent', '    grandchild']);
+    });
+
+    it('should put tasks whose ancestors are not in the results at the top level', () => {
+        const tree = TaskTree.fromTasks([grandchild, child2]);
+
+        expect(describeTree(tree)).toEqual(['grandchild', 'child 2']);
+    });
+});
@@ -7,6 +7,9 @@ import { TaskBuilder } from '../TestingTools/TaskBuilder';
 import { Urgency } from '../../src/Urgency';
 import { Priority } from '../../src/Task';
 import { calculateRelativeDate } from '../TestingTools/DateTestHelpers';
+import { UrgencySettings } from '../../src/Config/UrgencySettings';
+import { getSettings, resetSettings, updateSettings } from '../../src/Config/Settings';
+import { Status } from '../../src/Status';
 
 window.moment = moment;
 
@@ -88,6 +91,13 @@ describe('urgency - due date component', () => {
         const lowPriority = lowPriorityBuilder();
         testUrgency(lowPriority.dueDate(null), 0.0);
     });
+
+    it('uses the time of day of the due date, without rounding to whole days', () => {
+        const dueToday = lowPriorityBuilder().dueDate('2022-10-31');
+        testUrgencyOnDate('2022-10-31 12:00', dueToday.dueTime('12:00'), 8.8);
+        testUrgencyOnDate('2022-10-31 00:00', dueToday.dueTime('12:00'), 8.57143);
+        testUrgencyOnDate('2022-11-01 00:00', dueToday.dueTime('12:00'), 9.02857);
+    });
 });
 
 // -----------------------------------------------------------------
@@ -145,3 +155,114 @@ describe('urgency - start date component', () => {
         testUrgency(lowPriority.startDate(null), 0.0);
     });
 });
+
+// -----------------------------------------------------------------
+// Configured coefficients tests
+
+describe('urgency - configured coefficients', () => {
+    function urgencySettings(configure: (settings: UrgencySettings) => void) {
+        const settings = new UrgencySettings();
+        configure(settings);
+        return settings;
+    }
+
+    it('uses the configured priority coefficient and weights', () => {
+        const settings = urgencySettings((settings) => {
+            settings.priorityCoefficient = 10;
+            settings.lowPriorityWeight = -0.5;
+        });
+
+        expect(Urgency.calculate(new TaskBuilder().priority(Priority.High).build(), settings)).toBeCloseTo(10.0, 5);
+        expect(Urgency.calculate(new TaskBuilder().priority(Priority.Low).build(), settings)).toBeCloseTo(-5.0, 5);
+    });
+
+    it('adds the coefficients of matching tags, ignoring case', () => {
+        const settings = urgencySettings((settings) => {
+            settings.tagCoefficients = { '#urgent': 4, '#someday': -2 };
+        });
+        const task = lowPriorityBuilder().tags(['#Urgent', '#someday', '#other']).build();
+
+        expect(Urgency.calculate(task, settings)).toBeCloseTo(2.0, 5);
+    });
+
+    it('adds the estimated time coefficient per hour', () => {
+        const settings = urgencySettings((settings) => (settings.estimatedTimeCoefficient = -1));
+        const task = lowPriorityBuilder().estimatedTimeToComplete(90).build();
+
+        expect(Urgency.calculate(task, settings)).toBeCloseTo(-1.5, 5);
+    });
+
+    it('adds the coefficient of the status', () => {
+        const settings = urgencySettings((settings) => (settings.statusCoefficients = { '/': 3 }));
+
+        expect(Urgency.calculate(lowPriorityBuilder().status(Status.makeInProgress()).build(), settings)).toBeCloseTo(
+            3.0,
+            5,
+        );
+        expect(Urgency.calculate(lowPriorityBuilder().status(Status.TODO).build(), settings)).toBeCloseTo(0.0, 5);
+    });
+
+    it('adds the age coefficient in proportion to the age, up to a year', () => {
+        const todaySpy = jest.spyOn(Date, 'now').mockReturnValue(moment('2023-07-01').valueOf());
+        const settings = urgencySettings((settings) => (settings.ageCoefficient = 2));
+
+        expect(Urgency.calculate(lowPriorityBuilder().createdDate('2023-07-01').build(), settings)).toBeCloseTo(0.0, 5);
+        expect(Urgency.calculate(lowPriorityBuilder().createdDate('2023-01-01').build(), settings)).toBeCloseTo(
+            (181 / 365) * 2,
+            5,
+        );
+        expect(Urgency.calculate(lowPriorityBuilder().createdDate('2020-01-01').build(), settings)).toBeCloseTo(2.0, 5);
+        expect(Urgency.calculate(lowPriorityBuilder().build(), settings)).toBeCloseTo(0.0, 5);
+
+        todaySpy.mockClear();
+    });
+
+    it('explains only the non-zero terms', () => {
+        const settings = urgencySettings((settings) => {
+            settings.scheduledCoefficient = 0;
+            settings.startedCoefficient = 0;
+            settings.tagCoefficients = { '#urgent': 4 };
+        });
+
+        expect(Urgency.explainCoefficients(settings)).toMatchInlineSnapshot(`
+            "Urgency is the sum of:
+              due date: 0.2 to 1.0 times 12
+              priority: high 6, medium 3.9, none 1.95, low 0
+              tag #urgent: 4"
+        `);
+    });
+
+    it('explains the age term', () => {
+        const settings = urgencySettings((settings) => {
+            settings.dueCoefficient = 0;
+            settings.scheduledCoefficient = 0;
+            settings.startedCoefficient = 0;
+            settings.priorityCoefficient = 0;
+            settings.ageCoefficient = 2;
+        });
+
+        expect(Urgency.explainCoefficients(settings)).toMatchInlineSnapshot(`
+            "Urgency is the sum of:
+              age since created date: 0.0 to 1.0 times 2"
+        `);
+    });
+});
+
+describe('urgency - recalculation', () => {
+    afterEach(() => {
+        resetSettings();
+    });
+
+    it('recalculates the remembered urgency of a task when told to', () => {
+        const task = new TaskBuilder().priority(Priority.High).build();
+        const { urgencySettings } = getSettings();
+        expect(task.urgency).toBeCloseTo(6.0, 5);
+
+        urgencySettings.priorityCoefficient = 1;
+        updateSettings({ urgencySettings });
+        expect(task.urgency).toBeCloseTo(6.0, 5);
+
+        Urgency.recalculateAll();
+        expect(task.urgency).toBeCloseTo(1.0, 5);
+    });
+});
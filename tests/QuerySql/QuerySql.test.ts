@@ -0,0 +1,134 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { QuerySql } from '../../src/QuerySql/QuerySql';
+import { Priority } from '../../src/Task';
+import type { Task } from '../../src/Task';
+import { Status } from '../../src/Status';
+import { TaskBuilder } from '../TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+function filenamesOf(source: string, tasks: Task[]) {
+    const query = new QuerySql({ source });
+    expect(query.error).toBeUndefined();
+    return query
+        .applyQueryToTasks(tasks)
+        .groups.flatMap((group) => group.tasks)
+        .map((task) => task.filename);
+}
+
+describe('QuerySql', () => {
+    const tasks = [
+        new TaskBuilder().description('a').path('work/a.md').dueDate('2022-01-10').priority(Priority.High).build(),
+        new TaskBuilder()
+            .description('b')
+            .path('home/b.md')
+            .dueDate('2022-01-20')
+            .tags(['#chore'])
+            .status(Status.DONE)
+            .build(),
+        new TaskBuilder().description('c').path('work/c.md').priority(Priority.Low).tags(['#chore', '#urgent']).build(),
+    ];
+
+    beforeAll(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2022, 0, 15));
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    describe('filtering', () => {
+        it.each([
+            ['SELECT * FROM tasks', ['a', 'b', 'c']],
+            ["SELECT * FROM tasks WHERE path LIKE 'work/%'", ['a', 'c']],
+            ["SELECT * FROM tasks WHERE path NOT LIKE 'WORK/%'", ['b']],
+            ["SELECT * FROM tasks WHERE due_date < '2022-01-15'", ['a']],
+            ['SELECT * FROM tasks WHERE due_date > CURRENT_DATE', ['b']],
+            ['SELECT * FROM tasks WHERE due_date IS NULL', ['c']],
+            ["SELECT * FROM tasks WHERE due_date BETWEEN '2022-01-01' AND '2022-01-10'", ['a']],
+            ["SELECT * FROM tasks WHERE status = 'Done'", ['b']],
+            ["SELECT * FROM tasks WHERE status_type != 'DONE'", ['a', 'c']],
+            ["SELECT * FROM tasks WHERE priority = 'high'", ['a']],
+            ['SELECT * FROM tasks WHERE priority IN (1, 4)', ['a', 'c']],
+            ["SELECT * FROM tasks WHERE tags = '#urgent'", ['c']],
+            ['SELECT * FROM tasks WHERE tags IS NOT NULL', ['b', 'c']],
+            ["SELECT * FROM tasks WHERE NOT tags = '#chore' OR filename = 'c'", ['a', 'c']],
+            ["SELECT * FROM tasks WHERE tags NOT LIKE '#urg%'", ['b']],
+            ["SELECT * FROM tasks WHERE due_date NOT IN ('2022-01-10')", ['b']],
+            ["SELECT * FROM tasks WHERE due_date NOT BETWEEN '2022-01-01' AND '2022-01-10'", ['b']],
+        ])('"%s"', (source: string, expected: string[]) => {
+            expect(filenamesOf(source, tasks)).toEqual(expected);
+        });
+    });
+
+    it('should sort with ORDER BY, putting missing values last', () => {
+        expect(filenamesOf('SELECT * FROM tasks ORDER BY due_date', tasks)).toEqual(['a', 'b', 'c']);
+        expect(filenamesOf('SELECT * FROM tasks ORDER BY priority DESC', tasks)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should put missing values last when sorting with DESC', () => {
+        expect(filenamesOf('SELECT * FROM tasks ORDER BY due_date DESC', tasks)).toEqual(['b', 'a', 'c']);
+        expect(filenamesOf('SELECT * FROM tasks ORDER BY tags DESC', tasks)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should apply LIMIT after sorting', () => {
+        expect(filenamesOf('SELECT * FROM tasks ORDER BY filename DESC LIMIT 2', tasks)).toEqual(['c', 'b']);
+    });
+
+    it('should group with GROUP BY', () => {
+        const query = new QuerySql({ source: 'SELECT * FROM tasks GROUP BY tags' });
+        const groups = query.applyQueryToTasks(tasks).groups;
+        expect(groups.map((group) => group.groups)).toEqual([['#chore'], ['#urgent'], ['No tags']]);
+    });
+
+    it('should hide the parts of the task line for columns not selected', () => {
+        const query = new QuerySql({ source: 'SELECT description, due_date FROM tasks' });
+        expect(query.layoutOptions.hideDueDate).toEqual(false);
+        expect(query.layoutOptions.hidePriority).toEqual(true);
+        expect(query.layoutOptions.hideBacklinks).toEqual(true);
+    });
+
+    it.each([
+        ['SELECT * FROM notes', "unknown table 'notes'. The only table is 'tasks'"],
+        ['SELECT * FROM tasks WHERE colour = 1', "unknown column 'colour'"],
+        [
+            "SELECT * FROM tasks WHERE due_date = 'whenever'",
+            "cannot interpret 'whenever' as a date for column 'due_date'",
+        ],
+        [
+            'SELECT * FROM tasks WHERE due_date = NULL',
+            "use IS NULL or IS NOT NULL to test whether 'due_date' has a value",
+        ],
+        [
+            'SELECT * FROM tasks WHERE path = CURRENT_DATE',
+            "CURRENT_DATE can only be compared with date columns, not 'path'",
+        ],
+    ])('should report an error for "%s"', (source: string, expectedError: string) => {
+        const query = new QuerySql({ source });
+        expect(query.error).toContain(expectedError);
+    });
+
+    it('should explain the query', () => {
+        const query = new QuerySql({
+            source: "SELECT * FROM tasks WHERE due_date < '2022-01-15' AND (path LIKE 'work/%' OR priority = 1) ORDER BY due_date LIMIT 1",
+        });
+        expect(query.explainQuery()).toEqual(
+            `Explanation of this Tasks SQL query:
+
+AND (All of):
+  due_date < 2022-01-15 (Saturday 15th January 2022)
+  OR (At least one of):
+    path LIKE 'work/%'
+    priority = 1
+
+Sorted by due_date.
+
+At most 1 task.
+`,
+        );
+    });
+});
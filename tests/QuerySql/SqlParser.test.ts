@@ -0,0 +1,98 @@
+import { SqlParser } from '../../src/QuerySql/SqlParser';
+import { tokenize } from '../../src/QuerySql/SqlTokenizer';
+
+describe('SqlTokenizer', () => {
+    it('should recognise keywords case-insensitively and lower-case identifiers', () => {
+        const tokens = tokenize('select * From Tasks');
+        expect(tokens.map((token) => [token.type, token.value])).toEqual([
+            ['keyword', 'SELECT'],
+            ['punctuation', '*'],
+            ['keyword', 'FROM'],
+            ['identifier', 'tasks'],
+        ]);
+    });
+
+    it('should unescape doubled quotes in strings and skip comments', () => {
+        const tokens = tokenize("-- a comment\ndescription = 'it''s'");
+        expect(tokens.map((token) => token.value)).toEqual(['description', '=', "it's"]);
+    });
+
+    it('should report unterminated strings', () => {
+        expect(() => tokenize("description = 'oops")).toThrow('unterminated string starting at position 14');
+    });
+});
+
+describe('SqlParser', () => {
+    it('should parse the simplest statement', () => {
+        const statement = SqlParser.parse('SELECT * FROM tasks');
+        expect(statement).toEqual({
+            explain: false,
+            columns: '*',
+            table: 'tasks',
+            where: null,
+            groupBy: [],
+            orderBy: [],
+            limit: undefined,
+        });
+    });
+
+    it('should parse all clauses', () => {
+        const statement = SqlParser.parse(
+            'SELECT description, due_date FROM tasks WHERE due_date < CURRENT_DATE GROUP BY path ORDER BY priority, due_date DESC LIMIT 5;',
+        );
+        expect(statement.columns).toEqual(['description', 'due_date']);
+        expect(statement.where).toEqual({
+            kind: 'comparison',
+            column: 'due_date',
+            operator: '<',
+            value: { kind: 'currentDate' },
+        });
+        expect(statement.groupBy).toEqual(['path']);
+        expect(statement.orderBy).toEqual([
+            { column: 'priority', descending: false },
+            { column: 'due_date', descending: true },
+        ]);
+        expect(statement.limit).toEqual(5);
+    });
+
+    it('should give AND a higher precedence than OR', () => {
+        const statement = SqlParser.parse("SELECT * FROM tasks WHERE path = 'a' OR path = 'b' AND priority = 1");
+        expect(statement.where?.kind).toEqual('or');
+    });
+
+    it('should parse NOT, IS NULL, LIKE, IN and BETWEEN', () => {
+        const statement = SqlParser.parse(
+            "SELECT * FROM tasks WHERE NOT (due_date IS NOT NULL) AND tags NOT LIKE '#home%' AND priority IN (1, 2) AND due_date BETWEEN '2022-01-01' AND '2022-01-31'",
+        );
+        expect(statement.where).toMatchObject({
+            kind: 'and',
+            right: {
+                kind: 'between',
+                column: 'due_date',
+                low: { kind: 'string', value: '2022-01-01' },
+                high: { kind: 'string', value: '2022-01-31' },
+                negate: false,
+            },
+        });
+    });
+
+    it('should recognise EXPLAIN', () => {
+        expect(SqlParser.parse('EXPLAIN SELECT * FROM tasks').explain).toEqual(true);
+    });
+
+    it('should treat <> as !=', () => {
+        const statement = SqlParser.parse("SELECT * FROM tasks WHERE status <> 'Done'");
+        expect(statement.where).toMatchObject({ operator: '!=' });
+    });
+
+    it.each([
+        ['', 'expected SELECT, but the query ended'],
+        ['SELECT FROM tasks', "expected a column or table name, but found 'FROM' at position 7"],
+        ['SELECT * FROM tasks WHERE', 'expected a column or table name, but the query ended'],
+        ['SELECT * FROM tasks LIMIT 1.5', "LIMIT must be followed by a whole number, but found '1.5' at position 26"],
+        ['SELECT * FROM tasks extra', "expected the end of the query, but found 'extra' at position 20"],
+        ["SELECT * FROM tasks WHERE path NOT = 'a'", "NOT must be followed by LIKE, IN or BETWEEN here, but found '='"],
+    ])('should report a useful error for "%s"', (source: string, expectedError: string) => {
+        expect(() => SqlParser.parse(source)).toThrow(expectedError);
+    });
+});
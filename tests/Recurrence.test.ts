@@ -3,7 +3,9 @@
  */
 import moment from 'moment';
 import { Recurrence } from '../src/Recurrence';
+import { resetSettings, updateSettings } from '../src/Config/Settings';
 import { RecurrenceBuilder } from './TestingTools/RecurrenceBuilder';
+import { fromLine } from './TestHelpers';
 
 jest.mock('obsidian');
 window.moment = moment;
@@ -26,6 +28,7 @@ describe('Recurrence', () => {
             startDate: null,
             scheduledDate: null,
             dueDate: null,
+            recurrence: expect.any(Recurrence),
         });
     });
 
@@ -183,6 +186,88 @@ describe('Recurrence - with invalid dates in tasks', () => {
     });
 });
 
+describe('Recurrence with an end', () => {
+    function nextDueDates(recurrenceRuleText: string, dueDate: string, limit: number = 10): string[] {
+        const dueDates: string[] = [];
+        let recurrence = Recurrence.fromText({
+            recurrenceRuleText,
+            startDate: null,
+            scheduledDate: null,
+            dueDate: moment(dueDate).startOf('day'),
+        });
+        while (recurrence !== null && dueDates.length < limit) {
+            const next = recurrence.next();
+            if (next === null) {
+                break;
+            }
+            dueDates.push(next.dueDate!.format('YYYY-MM-DD'));
+            recurrence = next.recurrence;
+        }
+        return dueDates;
+    }
+
+    it.each([
+        ['every day until 2022-01-04', 'every day until 2022-01-04'],
+        ['every week for 10 times', 'every week for 10 times'],
+        ['every day except 2022-01-02, 2022-01-05', 'every day except 2022-01-02, 2022-01-05'],
+        [
+            'every day until 2022-01-04 except 2022-01-02 when done',
+            'every day until 2022-01-04 except 2022-01-02 when done',
+        ],
+        ['every day until March 1, 2022', 'every day until 2022-03-01'],
+    ])('reads "%s" and writes it back as "%s"', (text: string, expected: string) => {
+        const recurrence = new RecurrenceBuilder().rule(text).dueDate('2022-01-01').build();
+        expect(recurrence.toText()).toEqual(expected);
+    });
+
+    it('stops after the end date', () => {
+        expect(nextDueDates('every day until 2022-01-04', '2022-01-01')).toEqual([
+            '2022-01-02',
+            '2022-01-03',
+            '2022-01-04',
+        ]);
+    });
+
+    it('stops after the number of times, counting the first occurrence', () => {
+        expect(nextDueDates('every week for 3 times', '2022-01-01')).toEqual(['2022-01-08', '2022-01-15']);
+    });
+
+    it('counts down the remaining times in the next occurrence', () => {
+        const recurrence = new RecurrenceBuilder().rule('every week for 3 times').dueDate('2022-01-01').build();
+
+        const next = recurrence.next();
+
+        expect(next!.recurrence.toText()).toEqual('every week for 2 times');
+        expect(next!.recurrence.remainingOccurrences).toEqual(2);
+    });
+
+    it('skips exceptions, and keeps them in the next occurrence', () => {
+        const recurrence = new RecurrenceBuilder()
+            .rule('every day except 2022-01-02, 2022-01-03')
+            .dueDate('2022-01-01')
+            .build();
+
+        const next = recurrence.next();
+
+        expect(next!.dueDate!.format('YYYY-MM-DD')).toEqual('2022-01-04');
+        expect(next!.recurrence.toText()).toEqual('every day except 2022-01-02, 2022-01-03');
+    });
+
+    it('has no next occurrence if the only ones left are exceptions', () => {
+        expect(nextDueDates('every day until 2022-01-03 except 2022-01-02, 2022-01-03', '2022-01-01')).toEqual([]);
+    });
+
+    it.each([
+        ['every day', null],
+        ['every day until 2022-01-04', 4],
+        ['every day until 2022-01-04 except 2022-01-02', 3],
+        ['every week for 10 times', 10],
+    ])('counts the remaining occurrences of "%s" as %s', (text: string, expected: number | null) => {
+        const recurrence = new RecurrenceBuilder().rule(text).dueDate('2022-01-01').build();
+        expect(recurrence.remainingOccurrences).toEqual(expected);
+    });
+});
+
 describe('identicalTo', () => {
     it('differing only in rule text', () => {
         const weekly = new RecurrenceBuilder().rule('every week').build();
@@ -190,6 +275,12 @@ describe('identicalTo', () => {
         expect(weekly.identicalTo(daily)).toBe(false);
     });
 
+    it('differing only in exceptions', () => {
+        const christmas = new RecurrenceBuilder().rule('every day except 2022-12-25').build();
+        const boxingDay = new RecurrenceBuilder().rule('every day except 2022-12-26').build();
+        expect(christmas.identicalTo(boxingDay)).toBe(false);
+    });
+
     it('differing only in "when done"', () => {
         const weekly = new RecurrenceBuilder().rule('every week').build();
         const weeklyWhenDone = new RecurrenceBuilder().rule('every week when done').build();
@@ -232,3 +323,101 @@ describe('identicalTo', () => {
         expect(date1Recurrence?.identicalTo(date2Recurrence)).toBe(false);
     });
 });
+
+describe('Recurrence in business days', () => {
+    afterEach(() => {
+        resetSettings();
+    });
+
+    function nextDueDate(rule: string, dueDate: string): string | undefined {
+        const recurrence = new RecurrenceBuilder().rule(rule).dueDate(dueDate).build();
+        return recurrence.next()?.dueDate?.format('YYYY-MM-DD ddd');
+    }
+
+    it.each([
+        ['every business day', 'every business day'],
+        ['every 3 business days', 'every 3 business days'],
+        ['every 1 working day', 'every business day'],
+        ['every 2 working days when done', 'every 2 business days when done'],
+        ['every business day for 5 times', 'every business day for 5 times'],
+        [
+            'every business day until 2023-07-31 except 2023-07-19',
+            'every business day until 2023-07-31 except 2023-07-19',
+        ],
+    ])('reads "%s" and writes it back as "%s"', (text: string, expected: string) => {
+        const recurrence = new RecurrenceBuilder().rule(text).dueDate('2023-07-14').build();
+        expect(recurrence.toText()).toEqual(expected);
+    });
+
+    it.each([
+        // 2023-07-14 is a Friday
+        ['every business day', '2023-07-14', '2023-07-17 Mon'],
+        ['every business day', '2023-07-17', '2023-07-18 Tue'],
+        ['every 3 business days', '2023-07-14', '2023-07-19 Wed'],
+        ['every business day except 2023-07-17', '2023-07-14', '2023-07-18 Tue'],
+    ])('"%s" from %s is next due %s', (rule: string, dueDate: string, expected: string) => {
+        expect(nextDueDate(rule, dueDate)).toEqual(expected);
+    });
+
+    it('skips holidays', () => {
+        updateSettings({ holidays: ['2023-07-17'] });
+
+        expect(nextDueDate('every business day', '2023-07-14')).toEqual('2023-07-18 Tue');
+    });
+
+    it('counts down the remaining times', () => {
+        const recurrence = new RecurrenceBuilder().rule('every business day for 3 times').dueDate('2023-07-14').build();
+
+        expect(recurrence.remainingOccurrences).toEqual(3);
+        const next = recurrence.next();
+        expect(next!.dueDate!.format('YYYY-MM-DD')).toEqual('2023-07-17');
+        expect(next!.recurrence.toText()).toEqual('every business day for 2 times');
+    });
+
+    it('stops after the end date', () => {
+        expect(nextDueDate('every business day until 2023-07-16', '2023-07-14')).toBeUndefined();
+    });
+});
+
+describe('Recurrence - moving due dates to business days', () => {
+    afterEach(() => {
+        resetSettings();
+    });
+
+    function nextDates(rule: string) {
+        const recurrence = new RecurrenceBuilder().rule(rule).scheduledDate('2023-07-07').dueDate('2023-07-08').build();
+        const next = recurrence.next()!;
+        return {
+            scheduled: next.scheduledDate!.format('YYYY-MM-DD ddd'),
+            due: next.dueDate!.format('YYYY-MM-DD ddd'),
+        };
+    }
+
+    it('does not move due dates by default', () => {
+        expect(nextDates('every week')).toEqual({ scheduled: '2023-07-14 Fri', due: '2023-07-15 Sat' });
+    });
+
+    it('moves only the due date to the next working day, when enabled', () => {
+        updateSettings({ moveRecurringDueDatesToWorkingDays: true });
+
+        expect(nextDates('every week')).toEqual({ scheduled: '2023-07-14 Fri', due: '2023-07-17 Mon' });
+    });
+
+    it('does not move a due date on a working day', () => {
+        updateSettings({ moveRecurringDueDatesToWorkingDays: true, holidays: ['2023-07-17'] });
+
+        expect(nextDates('every week on Tuesday')).toEqual({ scheduled: '2023-07-10 Mon', due: '2023-07-11 Tue' });
+    });
+
+    it('calculates later occurrences from the due date before it was moved', () => {
+        updateSettings({ moveRecurringDueDatesToWorkingDays: true });
+        // 2023-07-15 is a Saturday, so the first occurrence is moved to Monday.
+        const task = fromLine({ line: '- [ ] pay rent 🔁 every month 📅 2023-06-15' });
+
+        const [first] = task.toggle();
+        const [second] = first.toggle();
+
+        expect(first.dueDate!.format('YYYY-MM-DD ddd')).toEqual('2023-07-17 Mon');
+        expect(second.dueDate!.format('YYYY-MM-DD ddd')).toEqual('2023-08-15 Tue');
+    });
+});
@@ -37,6 +37,14 @@ describe('parsing', () => {
         expect(task!.originalMarkdown).toStrictEqual(line);
     });
 
+    it('parses a created date', () => {
+        const task = fromLine({ line: '- [ ] write report ➕ 2023-03-07 📅 2023-04-01' });
+
+        expect(task.description).toEqual('write report');
+        expect(task.createdDate?.format('YYYY-MM-DD')).toEqual('2023-03-07');
+        expect(task.dueDate?.format('YYYY-MM-DD')).toEqual('2023-04-01');
+    });
+
     it('parses a task from a line starting with asterisk', () => {
         // Arrange
         const line = '* [ ] this is a task in asterisk list';
@@ -153,6 +161,76 @@ describe('parsing', () => {
         expect(task!.blockLink).toEqual(' ^my-precious');
     });
 
+    it('parses the id and dependencies', () => {
+        // Arrange
+        const line = '- [ ] write report ⛔ gather-data, outline 🆔 report_1 📅 2021-09-12';
+
+        // Act
+        const task = fromLine({
+            line,
+        });
+
+        // Assert
+        expect(task).not.toBeNull();
+        expect(task!.description).toEqual('write report');
+        expect(task!.id).toEqual('report_1');
+        expect(task!.dependsOn).toEqual(['gather-data', 'outline']);
+        expect(task!.dueDate!.isSame(moment('2021-09-12', 'YYYY-MM-DD'))).toStrictEqual(true);
+    });
+
+    it('parses the time spent and running timer', () => {
+        // Arrange
+        const line = '- [ ] fix invoice ⏱ 2:00 ⏲ 101:05 ▶ 2023-01-15T09:30 📅 2021-09-12';
+
+        // Act
+        const task = fromLine({
+            line,
+        });
+
+        // Assert
+        expect(task).not.toBeNull();
+        expect(task!.description).toEqual('fix invoice');
+        expect(task!.estimatedTimeToComplete).toEqual(120);
+        expect(task!.timeSpent).toEqual(101 * 60 + 5);
+        expect(task!.timerStarted!.format('YYYY-MM-DD HH:mm')).toEqual('2023-01-15 09:30');
+    });
+
+    it('parses times of day on start, scheduled and due dates', () => {
+        // Arrange
+        const line = '- [ ] team meeting 🛫 2023-07-10 ⏳ 2023-07-13 09:00 📅 2023-07-14 15:30';
+
+        // Act
+        const task = fromLine({
+            line,
+        });
+
+        // Assert
+        expect(task!.description).toEqual('team meeting');
+        expect(task!.startTime).toBeNull();
+        expect(task!.scheduledTime).toEqual('09:00');
+        expect(task!.dueDate!.format('YYYY-MM-DD HH:mm')).toEqual('2023-07-14 00:00');
+        expect(task!.dueTime).toEqual('15:30');
+        expect(task!.dueDateTime!.format('YYYY-MM-DD HH:mm')).toEqual('2023-07-14 15:30');
+    });
+
+    it('does not read invalid times of day', () => {
+        const task = fromLine({ line: '- [ ] late meeting 📅 2023-07-14 25:30' });
+        expect(task!.dueDate).toBeNull();
+        expect(task!.dueTime).toBeNull();
+    });
+
+    it('defaults to no time spent and no running timer', () => {
+        const task = fromLine({ line: '- [ ] plain task' });
+        expect(task!.timeSpent).toBeNull();
+        expect(task!.timerStarted).toBeNull();
+    });
+
+    it('defaults to no id and no dependencies', () => {
+        const task = fromLine({ line: '- [ ] plain task' });
+        expect(task!.id).toEqual('');
+        expect(task!.dependsOn).toEqual([]);
+    });
+
     it('supports tag anywhere in the description and separates them correctly from signifier emojis', () => {
         // Arrange
         const line = '- [ ] this is a task due 📅 2021-09-12 #inside_tag ⏫ #some/tags_with_underscore';
@@ -445,6 +523,75 @@ describe('to string', () => {
         expect(task.toFileLineString()).toStrictEqual(line);
     });
 
+    it('writes the dependencies and id after the other fields', () => {
+        // Arrange
+        const line = '- [ ] write report 🆔 report_1 ⛔ gather-data, outline ^block';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+
+        // Assert
+        const expectedLine = '- [ ] write report ⛔ gather-data,outline 🆔 report_1 ^block';
+        expect(task.toFileLineString()).toStrictEqual(expectedLine);
+    });
+
+    it('writes the time spent and running timer after the estimate', () => {
+        // Arrange
+        const line = '- [ ] fix invoice ▶ 2023-01-15T09:30 ⏲ 0:45 ⏱ 2:00';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+
+        // Assert
+        const expectedLine = '- [ ] fix invoice ⏱ 02:00 ⏲ 00:45 ▶ 2023-01-15T09:30';
+        expect(task.toFileLineString()).toStrictEqual(expectedLine);
+    });
+
+    it('writes the created date after the recurrence rule', () => {
+        // Arrange
+        const line = '- [ ] weekly review 📅 2023-04-01 ➕ 2023-03-07 🔁 every week';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+
+        // Assert
+        const expectedLine = '- [ ] weekly review 🔁 every week ➕ 2023-03-07 📅 2023-04-01';
+        expect(task.toFileLineString()).toStrictEqual(expectedLine);
+    });
+
+    it('writes the cancelled date after the done date', () => {
+        // Arrange
+        const line = '- [-] abandoned idea ❌ 2023-03-08 📅 2023-04-01';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+
+        // Assert
+        expect(task.cancelledDate?.format('YYYY-MM-DD')).toEqual('2023-03-08');
+        expect(task.toFileLineString()).toStrictEqual('- [-] abandoned idea 📅 2023-04-01 ❌ 2023-03-08');
+    });
+
+    it('writes times of day after their dates', () => {
+        // Arrange
+        const line = '- [ ] team meeting 🛫 2023-07-10 ⏳ 2023-07-13 09:00 📅 2023-07-14 15:30';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+
+        // Assert
+        expect(task.toFileLineString()).toStrictEqual(line);
+    });
+
     it('retains the tags', () => {
         // Arrange
         const line = '- [x] this is a done task #tagone 📅 2021-09-12 ✅ 2021-06-20 #journal/daily';
@@ -505,6 +652,70 @@ describe('toggle done', () => {
         expect(toggled!.blockLink).toEqual(' ^my-precious');
     });
 
+    it('keeps the id and dependencies of a done task, and removes the id from its next occurrence', () => {
+        // Arrange
+        const line = '- [ ] weekly review 🔁 every week 📅 2021-09-12 ⛔ collect-notes 🆔 review';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+        const [next, toggled] = task.toggle();
+
+        // Assert
+        expect(toggled.id).toEqual('review');
+        expect(toggled.dependsOn).toEqual(['collect-notes']);
+        expect(next.id).toEqual('');
+        expect(next.dependsOn).toEqual(['collect-notes']);
+    });
+
+    it('does not copy the time spent to the next occurrence', () => {
+        // Arrange
+        const line = '- [ ] weekly timesheet 🔁 every week 📅 2021-09-12 ⏲ 1:30';
+
+        // Act
+        const task: Task = fromLine({
+            line,
+        }) as Task;
+        const [next, toggled] = task.toggle();
+
+        // Assert
+        expect(toggled.timeSpent).toEqual(90);
+        expect(next.timeSpent).toBeNull();
+    });
+
+    describe('created date of the next occurrence', () => {
+        const line = '- [ ] weekly review 🔁 every week ➕ 2021-09-01 📅 2021-09-12';
+
+        beforeAll(() => {
+            jest.useFakeTimers();
+            jest.setSystemTime(new Date(2021, 8, 12)); // 2021-09-12
+        });
+
+        afterAll(() => {
+            jest.useRealTimers();
+        });
+
+        afterEach(() => {
+            resetSettings();
+        });
+
+        it('keeps the created date of the task', () => {
+            const [next, toggled] = fromLine({ line }).toggle();
+
+            expect(toggled.createdDate?.format('YYYY-MM-DD')).toEqual('2021-09-01');
+            expect(next.createdDate?.format('YYYY-MM-DD')).toEqual('2021-09-01');
+        });
+
+        it('keeps the created date of the task even if stamping created dates is enabled in settings', () => {
+            updateSettings({ setCreatedDate: true });
+
+            const [next] = fromLine({ line }).toggle();
+
+            expect(next.createdDate?.format('YYYY-MM-DD')).toEqual('2021-09-01');
+        });
+    });
+
     it('removes done date after untoggle', () => {
         // Arrange
         const line = '- [x] I thought I finished ✅ 2021-09-12';
@@ -963,6 +1174,119 @@ expect.extend({
     toBeIdenticalTo,
 });
 
+describe('handle new status', () => {
+    it('sets the done date when moved to a completed status', () => {
+        const task = fromLine({ line: '- [/] in progress 📅 2021-09-12' });
+
+        const [moved] = task.handleNewStatus(Status.DONE);
+
+        expect(moved.status.symbol).toEqual('x');
+        expect(moved.doneDate).not.toBeNull();
+    });
+
+    it('removes the done date when moved to an open status', () => {
+        const task = fromLine({ line: '- [x] finished ✅ 2021-09-12' });
+
+        const [moved] = task.handleNewStatus(Status.makeInProgress());
+
+        expect(moved.status.symbol).toEqual('/');
+        expect(moved.doneDate).toBeNull();
+    });
+
+    it('sets the cancelled date when moved to a cancelled status, if enabled in settings, and removes it when moved back', () => {
+        updateSettings({ setCancelledDate: true });
+        const task = fromLine({ line: '- [ ] finished' });
+
+        const [cancelled] = task.handleNewStatus(Status.makeCancelled());
+        const [reopened] = cancelled.handleNewStatus(Status.TODO);
+
+        expect(cancelled.status.symbol).toEqual('-');
+        expect(cancelled.cancelledDate).not.toBeNull();
+        expect(cancelled.doneDate).toBeNull();
+        expect(reopened.cancelledDate).toBeNull();
+        resetSettings();
+    });
+
+    it('does not set the cancelled date by default', () => {
+        const task = fromLine({ line: '- [ ] finished' });
+
+        const [cancelled] = task.handleNewStatus(Status.makeCancelled());
+
+        expect(cancelled.cancelledDate).toBeNull();
+        resetSettings();
+    });
+
+    it('ends the recurrence of a recurring task moved to cancelled', () => {
+        const task = fromLine({ line: '- [ ] weekly review 🔁 every week 📅 2021-09-12' });
+
+        const tasks = task.handleNewStatus(Status.makeCancelled());
+
+        expect(tasks.length).toEqual(1);
+        expect(tasks[0].status.symbol).toEqual('-');
+    });
+
+    it('creates the next occurrence of a recurring task moved to cancelled, if enabled in settings', () => {
+        updateSettings({ recurCancelledTasks: true });
+        const task = fromLine({ line: '- [ ] weekly review 🔁 every week 📅 2021-09-12' });
+
+        const [next, cancelled] = task.handleNewStatus(Status.makeCancelled());
+
+        expect(cancelled.status.symbol).toEqual('-');
+        expect(next.status.symbol).toEqual(' ');
+        expect(next.dueDate?.format('YYYY-MM-DD')).toEqual('2021-09-19');
+        expect(next.cancelledDate).toBeNull();
+        resetSettings();
+    });
+
+    it('creates the next occurrence of a recurring task moved to done', () => {
+        const task = fromLine({ line: '- [/] weekly review 🔁 every week 📅 2021-09-12' });
+
+        const [next, moved] = task.handleNewStatus(Status.DONE);
+
+        expect(moved.status.symbol).toEqual('x');
+        expect(next.status.symbol).toEqual(' ');
+        expect(next.dueDate?.format('YYYY-MM-DD')).toEqual('2021-09-19');
+    });
+});
+
+describe('toggle timer', () => {
+    const at = (time: string) => moment(time, 'YYYY-MM-DDTHH:mm');
+
+    it('starts a timer at the start of the current minute', () => {
+        // Arrange
+        const task = new TaskBuilder().build();
+
+        // Act
+        const started = task.toggleTimer(moment('2023-01-15T09:30:45'));
+
+        // Assert
+        expect(started.timerStarted!.format('YYYY-MM-DDTHH:mm:ss')).toEqual('2023-01-15T09:30:00');
+        expect(started.timeSpent).toBeNull();
+    });
+
+    it('stops a timer and adds the whole minutes elapsed to the time spent', () => {
+        // Arrange
+        const task = new TaskBuilder().timeSpent(15).timerStarted('2023-01-15T09:30').build();
+
+        // Act
+        const stopped = task.toggleTimer(moment('2023-01-15T11:05:59'));
+
+        // Assert
+        expect(stopped.timerStarted).toBeNull();
+        expect(stopped.timeSpent).toEqual(15 + 95);
+    });
+
+    it('records zero minutes for a timer stopped in the same minute', () => {
+        const task = new TaskBuilder().timerStarted('2023-01-15T09:30').build();
+        expect(task.toggleTimer(at('2023-01-15T09:30')).timeSpent).toEqual(0);
+    });
+
+    it('does not subtract time if the clock has gone backwards', () => {
+        const task = new TaskBuilder().timeSpent(10).timerStarted('2023-01-15T09:30').build();
+        expect(task.toggleTimer(at('2023-01-15T08:00')).timeSpent).toEqual(10);
+    });
+});
+
 describe('identicalTo', () => {
     it('should check status', () => {
         const lhs = new TaskBuilder().status(Status.TODO);
@@ -990,6 +1314,20 @@ describe('identicalTo', () => {
         expect(lhs).not.toBeIdenticalTo(new TaskBuilder().indentation('    '));
     });
 
+    it('should check nesting', () => {
+        const parent = new TaskBuilder().sectionIndex(0).build();
+        const otherParent = new TaskBuilder().sectionIndex(1).build();
+        const child = new TaskBuilder().sectionIndex(2).build();
+        const sameChildOfOtherParent = new TaskBuilder().sectionIndex(2).build();
+        const sameChildUnnested = new TaskBuilder().sectionIndex(2).build();
+        Task.linkParentAndChild(parent, child);
+        Task.linkParentAndChild(otherParent, sameChildOfOtherParent);
+
+        expect(child.identicalTo(sameChildOfOtherParent)).toEqual(false);
+        expect(child.identicalTo(sameChildUnnested)).toEqual(false);
+        expect(parent.identicalTo(new TaskBuilder().sectionIndex(0).build())).toEqual(false);
+    });
+
     it('should check listMarker', () => {
         const lhs = new TaskBuilder().listMarker('*');
         expect(lhs).toBeIdenticalTo(new TaskBuilder().listMarker('*'));
@@ -1071,6 +1409,40 @@ describe('identicalTo', () => {
         expect(lhs).not.toBeIdenticalTo(new TaskBuilder().blockLink('dcf64c'));
     });
 
+    it('should check id', () => {
+        const lhs = new TaskBuilder().id('');
+        expect(lhs).toBeIdenticalTo(new TaskBuilder().id(''));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().id('abc'));
+    });
+
+    it('should check dependsOn', () => {
+        const lhs = new TaskBuilder().dependsOn(['abc']);
+        expect(lhs).toBeIdenticalTo(new TaskBuilder().dependsOn(['abc']));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().dependsOn([]));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().dependsOn(['abc', 'def']));
+    });
+
+    it('should check timeSpent', () => {
+        const lhs = new TaskBuilder().timeSpent(null);
+        expect(lhs).toBeIdenticalTo(new TaskBuilder().timeSpent(null));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().timeSpent(0));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().timeSpent(30));
+    });
+
+    it('should check times of day', () => {
+        const lhs = new TaskBuilder().dueDate('2023-07-14').dueTime('15:30');
+        expect(lhs).toBeIdenticalTo(new TaskBuilder().dueDate('2023-07-14').dueTime('15:30'));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().dueDate('2023-07-14').dueTime('15:31'));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().dueDate('2023-07-14').dueTime(null));
+    });
+
+    it('should check timerStarted', () => {
+        const lhs = new TaskBuilder().timerStarted('2023-01-15T09:30');
+        expect(lhs).toBeIdenticalTo(new TaskBuilder().timerStarted('2023-01-15T09:30'));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().timerStarted('2023-01-15T09:31'));
+        expect(lhs).not.toBeIdenticalTo(new TaskBuilder().timerStarted(null));
+    });
+
     it('should check tags', () => {
         const lhs = new TaskBuilder().tags([]);
         expect(lhs).toBeIdenticalTo(new TaskBuilder().tags([]));
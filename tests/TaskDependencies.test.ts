@@ -0,0 +1,86 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { Status } from '../src/Status';
+import { TaskDependencies } from '../src/TaskDependencies';
+import { TaskBuilder } from './TestingTools/TaskBuilder';
+
+window.moment = moment;
+
+describe('TaskDependencies', () => {
+    const gather = new TaskBuilder().description('gather').id('gather').build();
+    const outline = new TaskBuilder().description('outline').id('outline').status(Status.DONE).build();
+    const write = new TaskBuilder().description('write').id('write').dependsOn(['gather', 'outline']).build();
+    const publish = new TaskBuilder().description('publish').dependsOn(['outline']).build();
+    const unknown = new TaskBuilder().description('unknown').dependsOn(['no-such-id']).build();
+    const allTasks = [gather, outline, write, publish, unknown];
+
+    it('should find the open tasks that a task depends on', () => {
+        const dependencies = new TaskDependencies(allTasks);
+        expect(dependencies.blockingTasks(write)).toEqual([gather]);
+        expect(dependencies.blockingTasks(publish)).toEqual([]);
+    });
+
+    it('should only treat open tasks with open dependencies as blocked', () => {
+        const dependencies = new TaskDependencies(allTasks);
+        expect(dependencies.isBlocked(gather)).toEqual(false);
+        expect(dependencies.isBlocked(write)).toEqual(true);
+        expect(dependencies.isBlocked(publish)).toEqual(false);
+        expect(dependencies.isBlocked(unknown)).toEqual(false);
+
+        const doneWrite = new TaskBuilder().id('write').dependsOn(['gather']).status(Status.DONE).build();
+        expect(new TaskDependencies([gather, doneWrite]).isBlocked(doneWrite)).toEqual(false);
+    });
+
+    it('should treat cancelled dependencies as no longer blocking', () => {
+        const cancelled = new TaskBuilder().id('gather').status(Status.makeCancelled()).build();
+        expect(new TaskDependencies([cancelled, write]).isBlocked(write)).toEqual(false);
+    });
+
+    it('should be blocked until every task sharing an id is done', () => {
+        const copy = new TaskBuilder().id('outline').build();
+        expect(new TaskDependencies([outline, copy, publish]).isBlocked(publish)).toEqual(true);
+    });
+
+    describe('findCycle', () => {
+        it('should find no cycle for tasks without an id', () => {
+            const edited = new TaskBuilder().dependsOn(['write']).build();
+            expect(TaskDependencies.findCycle(allTasks, publish, edited)).toBeNull();
+        });
+
+        it('should find no cycle for an acyclic edit', () => {
+            const edited = new TaskBuilder().id('gather').dependsOn(['outline']).build();
+            expect(TaskDependencies.findCycle(allTasks, gather, edited)).toBeNull();
+        });
+
+        it('should find a task that depends on itself', () => {
+            const edited = new TaskBuilder().id('gather').dependsOn(['gather']).build();
+            expect(TaskDependencies.findCycle(allTasks, gather, edited)).toEqual(['gather', 'gather']);
+        });
+
+        it('should find an indirect cycle', () => {
+            const review = new TaskBuilder().id('review').dependsOn(['write']).build();
+            const edited = new TaskBuilder().id('gather').dependsOn(['review']).build();
+            expect(TaskDependencies.findCycle([...allTasks, review], gather, edited)).toEqual([
+                'gather',
+                'review',
+                'write',
+                'gather',
+            ]);
+        });
+
+        it('should ignore a copy of the original task read from the same file', () => {
+            const cached = new TaskBuilder().id('gather').path('a.md').dependsOn(['write']).build();
+            const reread = new TaskBuilder().id('gather').path('a.md').dependsOn(['write']).build();
+            const edited = new TaskBuilder().id('gather').path('a.md').build();
+            expect(TaskDependencies.findCycle([cached, write], reread, edited)).toBeNull();
+        });
+
+        it('should ignore the dependencies of the original version of the edited task', () => {
+            const original = new TaskBuilder().id('gather').dependsOn(['write']).build();
+            const edited = new TaskBuilder().id('gather').build();
+            expect(TaskDependencies.findCycle([original, write], original, edited)).toBeNull();
+        });
+    });
+});
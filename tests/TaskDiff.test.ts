@@ -0,0 +1,69 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import { TaskDiff } from '../src/TaskDiff';
+import { createTasksFromMarkdown } from './TestHelpers';
+
+window.moment = moment;
+
+function events(oldMarkdown: string, newMarkdown: string): string[] {
+    const oldTasks = createTasksFromMarkdown(oldMarkdown, 'a.md', '');
+    const newTasks = createTasksFromMarkdown(newMarkdown, 'a.md', '');
+    return TaskDiff.events(oldTasks, newTasks).map(({ type, task, previousTask }) =>
+        previousTask === null
+            ? `${type}: ${task.originalMarkdown}`
+            : `${type}: ${previousTask.originalMarkdown} => ${task.originalMarkdown}`,
+    );
+}
+
+describe('TaskDiff', () => {
+    it('should report nothing when tasks are unchanged or only move', () => {
+        expect(events('- [ ] a\n- [ ] b', '- [ ] b\nsome text\n- [ ] a')).toEqual([]);
+    });
+
+    it('should report nothing when a task changes without changing status', () => {
+        expect(events('- [ ] a', '- [ ] a 📅 2023-07-14')).toEqual([]);
+    });
+
+    it('should report completed tasks', () => {
+        expect(events('- [ ] a\n- [ ] b', '- [ ] a\n- [x] b ✅ 2023-07-13')).toEqual([
+            'task-status-changed: - [ ] b => - [x] b ✅ 2023-07-13',
+            'task-completed: - [ ] b => - [x] b ✅ 2023-07-13',
+        ]);
+    });
+
+    it('should report other changes of status', () => {
+        expect(events('- [ ] a\n- [x] b ✅ 2023-07-13', '- [/] a\n- [ ] b')).toEqual([
+            'task-status-changed: - [ ] a => - [/] a',
+            'task-status-changed: - [x] b ✅ 2023-07-13 => - [ ] b',
+        ]);
+    });
+
+    it('should report the completed task and the new occurrence of a recurring task', () => {
+        expect(
+            events(
+                '- [ ] a 🔁 every day 📅 2023-07-13',
+                '- [ ] a 🔁 every day 📅 2023-07-14\n- [x] a 🔁 every day 📅 2023-07-13 ✅ 2023-07-13',
+            ),
+        ).toEqual([
+            'task-status-changed: - [ ] a 🔁 every day 📅 2023-07-13 => - [x] a 🔁 every day 📅 2023-07-13 ✅ 2023-07-13',
+            'task-completed: - [ ] a 🔁 every day 📅 2023-07-13 => - [x] a 🔁 every day 📅 2023-07-13 ✅ 2023-07-13',
+            'task-created: - [ ] a 🔁 every day 📅 2023-07-14',
+        ]);
+    });
+
+    it('should report created and deleted tasks', () => {
+        expect(events('- [ ] a\n- [ ] b', '- [ ] a\n- [ ] c')).toEqual([
+            'task-created: - [ ] c',
+            'task-deleted: - [ ] b',
+        ]);
+    });
+
+    it('should tell apart tasks with the same description', () => {
+        expect(events('- [ ] a\n- [ ] a', '- [ ] a\n- [x] a')).toEqual([
+            'task-status-changed: - [ ] a => - [x] a',
+            'task-completed: - [ ] a => - [x] a',
+        ]);
+    });
+});
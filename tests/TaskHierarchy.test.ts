@@ -0,0 +1,84 @@
+/**
+ * @jest-environment jsdom
+ */
+import moment from 'moment';
+import type { ListItemCache } from 'obsidian';
+import type { Task } from '../src/Task';
+import { TaskHierarchy } from '../src/TaskHierarchy';
+import { fromLine } from './TestHelpers';
+
+window.moment = moment;
+
+/**
+ * Make the list items Obsidian would give for a file, from [line number, parent] pairs.
+ */
+function listItems(...items: [number, number][]): ListItemCache[] {
+    return items.map(
+        ([line, parent]) =>
+            ({
+                parent,
+                position: { start: { line, col: 0, offset: 0 }, end: { line, col: 0, offset: 0 } },
+            } as ListItemCache),
+    );
+}
+
+function descriptions(tasks: Task[]): string[] {
+    return tasks.map((task) => task.description);
+}
+
+function tasksOnLines(...lines: number[]): Map<number, Task> {
+    return new Map(lines.map((line) => [line, fromLine({ line: `- [ ] task on line ${line}` })]));
+}
+
+describe('TaskHierarchy', () => {
+    it('should link nested tasks to their parent and children', () => {
+        // - [ ] 0
+        //     - [ ] 1
+        //         - [ ] 2
+        //     - [ ] 3
+        // - [ ] 4
+        const tasks = tasksOnLines(0, 1, 2, 3, 4);
+
+        TaskHierarchy.link(tasks, listItems([0, -0], [1, 0], [2, 1], [3, 0], [4, -0]));
+
+        expect(tasks.get(0)!.parent).toBeNull();
+        expect(descriptions(tasks.get(0)!.children)).toEqual(['task on line 1', 'task on line 3']);
+        expect(tasks.get(1)!.parent).toBe(tasks.get(0));
+        expect(descriptions(tasks.get(1)!.children)).toEqual(['task on line 2']);
+        expect(tasks.get(2)!.parent).toBe(tasks.get(1));
+        expect(tasks.get(3)!.parent).toBe(tasks.get(0));
+        expect(tasks.get(4)!.parent).toBeNull();
+        expect(descriptions(tasks.get(4)!.children)).toEqual([]);
+    });
+
+    it('should skip list items that are not tasks', () => {
+        // - [ ] 0
+        //     - a note
+        //         - [ ] 2
+        const tasks = tasksOnLines(0, 2);
+
+        TaskHierarchy.link(tasks, listItems([0, -0], [1, 0], [2, 1]));
+
+        expect(tasks.get(2)!.parent).toBe(tasks.get(0));
+        expect(descriptions(tasks.get(0)!.children)).toEqual(['task on line 2']);
+    });
+
+    it('should not link tasks below list items that are not tasks', () => {
+        // - a heading item
+        //     - [ ] 1
+        const tasks = tasksOnLines(1);
+
+        TaskHierarchy.link(tasks, listItems([0, -0], [1, 0]));
+
+        expect(tasks.get(1)!.parent).toBeNull();
+    });
+
+    it('should ignore parents that are not above the child', () => {
+        const tasks = tasksOnLines(0, 1);
+
+        TaskHierarchy.link(tasks, listItems([0, 1], [1, 1]));
+
+        expect(tasks.get(0)!.parent).toBeNull();
+        expect(tasks.get(1)!.parent).toBeNull();
+    });
+});
@@ -71,6 +71,22 @@ describe('task line rendering', () => {
         expect((textSpan as HTMLSpanElement).innerText).toEqual('This is a simple task');
     });
 
+    it('marks future occurrences of recurring tasks, which cannot be toggled', async () => {
+        const task = fromLine({ line: '- [ ] weekly 🔁 every week 📅 2023-07-14' });
+        const occurrence = task.projectOccurrences(moment('2023-07-21'))[0];
+
+        const taskRender = await createMockParentAndRender(task);
+        const occurrenceRender = await createMockParentAndRender(occurrence);
+
+        const taskLi = taskRender.children[0];
+        expect(taskLi.classList.contains('plugin-tasks-list-item-projection')).toEqual(false);
+        expect((taskLi.children[0] as HTMLInputElement).disabled).toEqual(false);
+
+        const occurrenceLi = occurrenceRender.children[0];
+        expect(occurrenceLi.classList.contains('plugin-tasks-list-item-projection')).toEqual(true);
+        expect((occurrenceLi.children[0] as HTMLInputElement).disabled).toEqual(true);
+    });
+
     it('hides the global filter if and only if required', async () => {
         const getDescriptionTest = async () => {
             const taskLine = '- [ ] This is a simple task with a #global filter';
@@ -183,4 +199,57 @@ describe('task line rendering', () => {
             'Task with invalid recurrence rule 🔁 every month on the 32th',
         );
     });
+
+    describe('component spans', () => {
+        async function renderAsText(line: string, layoutOptions?: Partial<LayoutOptions>) {
+            const parentElement = document.createElement('div');
+            const textContentRenderer = async (text: string, element: HTMLSpanElement, _path: string) => {
+                element.textContent = text;
+            };
+            await renderTaskLine(
+                fromLine({ line }),
+                {
+                    parentUlElement: parentElement,
+                    listIndex: 0,
+                    layoutOptions: { ...new LayoutOptions(), ...layoutOptions },
+                },
+                textContentRenderer,
+            );
+            return getTextSpan(parentElement);
+        }
+
+        it('puts the priority and dates in spans of their own', async () => {
+            const textSpan = await renderAsText(
+                '- [ ] Full task ⏫ 📅 2022-07-02 09:30 ⏳ 2022-07-03 🛫 2022-07-04 🔁 every day',
+            );
+
+            expect(textSpan.textContent).toEqual(
+                'Full task ⏫ 🔁 every day 🛫 2022-07-04 ⏳ 2022-07-03 📅 2022-07-02 09:30',
+            );
+            expect(textSpan.querySelector('.task-priority')?.textContent).toEqual('⏫');
+            expect(textSpan.querySelector('.task-start')?.textContent).toEqual('🛫 2022-07-04');
+            expect(textSpan.querySelector('.task-scheduled')?.textContent).toEqual('⏳ 2022-07-03');
+            expect(textSpan.querySelector('.task-due')?.textContent).toEqual('📅 2022-07-02 09:30');
+        });
+
+        it('does not put hidden components in spans', async () => {
+            const textSpan = await renderAsText('- [ ] Full task ⏫ 📅 2022-07-02', {
+                hidePriority: true,
+                hideDueDate: true,
+            });
+
+            expect(textSpan.textContent).toEqual('Full task');
+            expect(textSpan.querySelector('.task-priority')).toBeNull();
+            expect(textSpan.querySelector('.task-due')).toBeNull();
+        });
+
+        it('finds the component after the description, if the description contains the same text', async () => {
+            const textSpan = await renderAsText('- [ ] Move 📅 2022-07-02 to next week 📅 2022-07-02');
+
+            expect(textSpan.querySelectorAll('.task-due').length).toEqual(1);
+            expect(textSpan.innerHTML).toEqual(
+                'Move 📅 2022-07-02 to next week <span class="task-due">📅 2022-07-02</span>',
+            );
+        });
+    });
 });
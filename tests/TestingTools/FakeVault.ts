@@ -0,0 +1,67 @@
+import type { MetadataCache, Vault } from 'obsidian';
+import { TFile } from 'obsidian';
+import { initializeFile } from '../../src/File';
+import { Task } from '../../src/Task';
+
+/**
+ * A vault holding a single file, whose list items are read from its current content,
+ * as Obsidian's metadata cache does once a file is written.
+ *
+ * Tests using it must mock 'obsidian' with a TFile class, as the mock of 'obsidian' has none.
+ */
+export class FakeVault {
+    public readonly file: TFile;
+    public writes = 0;
+
+    constructor(path: string, public content: string) {
+        this.file = Object.assign(new TFile(), { path });
+    }
+
+    public getAbstractFileByPath(path: string) {
+        return path === this.file.path ? this.file : null;
+    }
+
+    public async read() {
+        return this.content;
+    }
+
+    public async modify(_file: TFile, content: string) {
+        this.content = content;
+        this.writes++;
+    }
+
+    public getFileCache() {
+        const listItems = this.content.split('\n').flatMap((line, lineNumber) => {
+            const match = line.match(/^\s*- \[(.)\]/);
+            return match ? [{ position: { start: { line: lineNumber } }, task: match[1], parent: -1 }] : [];
+        });
+        return { listItems };
+    }
+}
+
+export function useVault(path: string, content: string): FakeVault {
+    const vault = new FakeVault(path, content);
+    initializeFile({ vault: vault as unknown as Vault, metadataCache: vault as unknown as MetadataCache });
+    return vault;
+}
+
+/**
+ * Read the tasks from the content of a file, all in a single section starting at its first line.
+ */
+export function readTasks(path: string, content: string): Task[] {
+    const tasks: Task[] = [];
+    for (const line of content.split('\n')) {
+        const task = Task.fromLine({
+            line,
+            path,
+            precedingHeader: null,
+            sectionStart: 0,
+            sectionIndex: tasks.length,
+            fallbackDate: null,
+        });
+        if (task !== null) {
+            tasks.push(task);
+        }
+    }
+    return tasks;
+}
@@ -1,6 +1,7 @@
 import type { FilterOrErrorMessage } from '../../src/Query/Filter/Filter';
 import { Task } from '../../src/Task';
 import { Query } from '../../src/Query/Query';
+import { SearchInfo } from '../../src/Query/SearchInfo';
 import type { TaskBuilder } from './TaskBuilder';
 
 /**
@@ -26,7 +27,7 @@ export function testFilter(filter: FilterOrErrorMessage, taskBuilder: TaskBuilde
 export function testTaskFilter(filter: FilterOrErrorMessage, task: Task, expected: boolean) {
     expect(filter.filterFunction).toBeDefined();
     expect(filter.error).toBeUndefined();
-    expect(filter.filterFunction!(task)).toEqual(expected);
+    expect(filter.filterFunction!(task, SearchInfo.fromAllTasks([task]))).toEqual(expected);
 }
 
 /**
@@ -47,9 +48,10 @@ export function testTaskFilterViaQuery(filter: string, task: Task, expected: boo
     const tasks = [task];
 
     // Act
+    const searchInfo = SearchInfo.fromAllTasks(tasks);
     let filteredTasks = [...tasks];
     query.filters.forEach((filter) => {
-        filteredTasks = filteredTasks.filter(filter.filterFunction);
+        filteredTasks = filteredTasks.filter((task) => filter.filterFunction(task, searchInfo));
     });
     const matched = filteredTasks.length === 1;
 
@@ -84,9 +86,10 @@ export function shouldSupportFiltering(
     );
 
     // Act
+    const searchInfo = SearchInfo.fromAllTasks(tasks);
     let filteredTasks = [...tasks];
     query.filters.forEach((filter) => {
-        filteredTasks = filteredTasks.filter(filter.filterFunction);
+        filteredTasks = filteredTasks.filter((task) => filter.filterFunction(task, searchInfo));
     });
 
     // Assert
@@ -1,7 +1,7 @@
 // Builder
 import type { Moment } from 'moment';
 import { Status } from '../../src/Status';
-import { Priority, Task } from '../../src/Task';
+import { Priority, Task, TaskRegularExpressions } from '../../src/Task';
 import type { Recurrence } from '../../src/Recurrence';
 import { DateParser } from '../../src/Query/DateParser';
 import { StatusConfiguration, StatusType } from '../../src/StatusConfiguration';
@@ -19,8 +19,9 @@ import { StatusConfiguration, StatusType } from '../../src/StatusConfiguration';
  *            Create a new TaskBuilder object to start from a clean state,
  */
 export class TaskBuilder {
-
     private _estimatedTimeToComplete: number | null | undefined = null;
+    private _timeSpent: number | null = null;
+    private _timerStarted: Moment | null = null;
 
     private _status: Status = Status.TODO;
     private _description: string = 'my description';
@@ -38,11 +39,19 @@ export class TaskBuilder {
     private _startDate: Moment | null = null;
     private _scheduledDate: Moment | null = null;
     private _dueDate: Moment | null = null;
+    private _startTime: string | null = null;
+    private _scheduledTime: string | null = null;
+    private _dueTime: string | null = null;
     private _doneDate: Moment | null = null;
+    private _createdDate: Moment | null = null;
+    private _cancelledDate: Moment | null = null;
 
     private _recurrence: Recurrence | null = null;
     private _blockLink: string = '';
 
+    private _id: string = '';
+    private _dependsOn: string[] = [];
+
     private _scheduledDateIsInferred: boolean = false;
 
     /**
@@ -64,6 +73,8 @@ export class TaskBuilder {
         }
         return new Task({
             estimatedTimeToComplete: this._estimatedTimeToComplete,
+            timeSpent: this._timeSpent,
+            timerStarted: this._timerStarted,
             status: this._status,
             description: description,
             path: this._path,
@@ -76,9 +87,16 @@ export class TaskBuilder {
             startDate: this._startDate,
             scheduledDate: this._scheduledDate,
             dueDate: this._dueDate,
+            startTime: this._startTime,
+            scheduledTime: this._scheduledTime,
+            dueTime: this._dueTime,
             doneDate: this._doneDate,
+            createdDate: this._createdDate,
+            cancelledDate: this._cancelledDate,
             recurrence: this._recurrence,
             blockLink: this._blockLink,
+            id: this._id,
+            dependsOn: this._dependsOn,
             tags: this._tags,
             originalMarkdown: '',
             scheduledDateIsInferred: this._scheduledDateIsInferred,
@@ -176,11 +194,39 @@ export class TaskBuilder {
         return this;
     }
 
+    /**
+     * Set the time of day of the start date, as `HH:mm`. It is only kept if there is a start date.
+     */
+    public startTime(startTime: string | null): TaskBuilder {
+        this._startTime = startTime;
+        return this;
+    }
+
+    public scheduledTime(scheduledTime: string | null): TaskBuilder {
+        this._scheduledTime = scheduledTime;
+        return this;
+    }
+
+    public dueTime(dueTime: string | null): TaskBuilder {
+        this._dueTime = dueTime;
+        return this;
+    }
+
     public doneDate(doneDate: string | null): TaskBuilder {
         this._doneDate = TaskBuilder.parseDate(doneDate);
         return this;
     }
 
+    public createdDate(createdDate: string | null): TaskBuilder {
+        this._createdDate = TaskBuilder.parseDate(createdDate);
+        return this;
+    }
+
+    public cancelledDate(cancelledDate: string | null): TaskBuilder {
+        this._cancelledDate = TaskBuilder.parseDate(cancelledDate);
+        return this;
+    }
+
     public recurrence(recurrence: Recurrence | null): TaskBuilder {
         this._recurrence = recurrence;
         return this;
@@ -191,6 +237,42 @@ export class TaskBuilder {
         return this;
     }
 
+    public id(id: string): TaskBuilder {
+        this._id = id;
+        return this;
+    }
+
+    public dependsOn(dependsOn: string[]): TaskBuilder {
+        this._dependsOn = dependsOn;
+        return this;
+    }
+
+    /**
+     * Set the estimated time to complete, in minutes.
+     */
+    public estimatedTimeToComplete(estimatedTimeToComplete: number | null | undefined): TaskBuilder {
+        this._estimatedTimeToComplete = estimatedTimeToComplete;
+        return this;
+    }
+
+    /**
+     * Set the time spent, in minutes.
+     */
+    public timeSpent(timeSpent: number | null): TaskBuilder {
+        this._timeSpent = timeSpent;
+        return this;
+    }
+
+    /**
+     * Set when the timer was started, for example '2023-01-15T09:30'.
+     */
+    public timerStarted(timerStarted: string | null): TaskBuilder {
+        this._timerStarted = timerStarted
+            ? window.moment(timerStarted, TaskRegularExpressions.timerStartedFormat)
+            : null;
+        return this;
+    }
+
     public scheduledDateIsInferred(isInferred: boolean) {
         this._scheduledDateIsInferred = isInferred;
         return this;